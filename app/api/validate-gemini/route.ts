@@ -1,54 +1,85 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { GoogleGenerativeAI } from "@google/generative-ai"
+import { classifyGeminiError } from "@/lib/gemini-errors"
+import { DEFAULT_GEMINI_MODEL_SETTINGS, GEMINI_MODELS, getGeminiModelLabel } from "@/lib/gemini-models"
+import { WavEncoder } from "@/lib/wav-encoder"
+import type { TranscriptionErrorCode } from "@/lib/transcription-errors"
+
+const ERROR_STATUS: Partial<Record<TranscriptionErrorCode, number>> = {
+  "invalid-key": 401,
+  quota: 429,
+  network: 502,
+  timeout: 504,
+}
+
+const TEST_SAMPLE_RATE = 16000
+
+// One second of a 440 Hz tone as a WAV file, so validation goes through the same audio input as a transcription
+const createTestAudio = (): string => {
+  const samples = new Int16Array(TEST_SAMPLE_RATE)
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / TEST_SAMPLE_RATE) * 0.3 * 0x7fff)
+  }
+
+  const encoder = new WavEncoder(1, TEST_SAMPLE_RATE)
+  const wav = encoder.encode([samples])
+  wav.set(encoder.finish().header)
+  return Buffer.from(wav).toString("base64")
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { apiKey } = await request.json()
+    const { apiKey, model: requestedModel } = await request.json()
 
     if (!apiKey || typeof apiKey !== "string") {
-      return NextResponse.json({ error: "API key is required" }, { status: 400 })
+      return NextResponse.json(
+        { error: "API key is required", code: "not-configured", retryable: false },
+        { status: 400 },
+      )
     }
 
-    // Initialize Gemini with 2.5 Pro (now supports audio)
+    const modelId = GEMINI_MODELS.some((entry) => entry.id === requestedModel)
+      ? (requestedModel as string)
+      : DEFAULT_GEMINI_MODEL_SETTINGS.model
+    const modelLabel = getGeminiModelLabel(modelId)
+
     const genAI = new GoogleGenerativeAI(apiKey.trim())
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" })
+    const model = genAI.getGenerativeModel({ model: modelId })
 
-    // Test with a simple text prompt
-    const result = await model.generateContent(
-      "Hello, this is a test. Please respond with 'Gemini 2.5 Pro API key is working perfectly for audio transcription'.",
-    )
+    // Test with a short audio clip, the way chunks are sent
+    const result = await model.generateContent([
+      "This is a test of audio input. Describe the sound in this audio in a few words.",
+      { inlineData: { data: createTestAudio(), mimeType: "audio/wav" } },
+    ])
     const response = await result.response
     const text = response.text()
 
     if (text && text.length > 0) {
       return NextResponse.json({
         success: true,
-        message: "API key is valid and working with Gemini 2.5 Pro (Audio Support)",
-        model: "gemini-2.5-pro",
+        message: `API key is valid and ${modelLabel} accepts audio`,
+        model: modelId,
         response: text.substring(0, 100) + "...", // Show partial response
       })
-    } else {
-      return NextResponse.json({ error: "Invalid response from Gemini 2.5 Pro API" }, { status: 400 })
-    }
-  } catch (error) {
-    console.error("Gemini 2.5 Pro API validation error:", error)
-
-    if (error.message?.includes("API key")) {
-      return NextResponse.json({ error: "Invalid API key for Gemini 2.5 Pro" }, { status: 401 })
-    } else if (error.message?.includes("quota") || error.message?.includes("QUOTA_EXCEEDED")) {
-      return NextResponse.json({ error: "Gemini API quota exceeded" }, { status: 429 })
-    } else if (error.message?.includes("PERMISSION_DENIED")) {
-      return NextResponse.json(
-        { error: "Permission denied. Check API key permissions for Gemini 2.5 Pro" },
-        { status: 403 },
-      )
     } else {
       return NextResponse.json(
-        {
-          error: `Gemini 2.5 Pro API validation failed: ${error.message}`,
-        },
+        { error: `${modelLabel} returned no response to the test audio`, code: "empty-output", retryable: true },
         { status: 400 },
       )
     }
+  } catch (error) {
+    console.error("Gemini API validation error:", error)
+
+    // Same shape as a failed transcription, so callers can act on the code
+    const failure = classifyGeminiError(error)
+    return NextResponse.json(
+      {
+        error: failure.message,
+        code: failure.code,
+        retryable: failure.retryable,
+        retryAfterSeconds: failure.retryAfterSeconds,
+      },
+      { status: ERROR_STATUS[failure.code] || 400 },
+    )
   }
 }
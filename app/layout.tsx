@@ -3,7 +3,6 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
-import Script from "next/script"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -23,9 +22,6 @@ export default function RootLayout({
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange={false}>
           {children}
         </ThemeProvider>
-
-        {/* Load lamejs for MP3 conversion */}
-        <Script src="https://cdn.jsdelivr.net/npm/lamejs@1.2.0/lame.min.js" strategy="beforeInteractive" />
       </body>
     </html>
   )
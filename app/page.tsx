@@ -6,7 +6,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
 import {
   Mic,
   MicOff,
@@ -21,20 +23,102 @@ import {
   User,
   RotateCcw,
   Info,
+  LifeBuoy,
+  Play,
+  CheckCircle,
+  Loader2,
+  Pause,
 } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import type { AudioSettings as AudioSettingsType } from "@/components/audio-settings"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { FinalTranscript } from "@/components/final-transcript"
 import { AudioSettings } from "@/components/audio-settings"
 import { GeminiSettings } from "@/components/gemini-settings"
 import { RecordingHistory } from "@/components/recording-history"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { TranscriptionProviderSettings } from "@/components/transcription-provider-settings"
+import { ChunkSettings } from "@/components/chunk-settings"
+import { VoiceActivitySettings } from "@/components/voice-activity-settings"
+import { SourceMixer } from "@/components/source-mixer"
+import { AudioExportDialog, type AudioExportChoice } from "@/components/audio-export-dialog"
+import type { TranscriptSegment } from "@/lib/transcript-segments"
+import {
+  CLIP_LEVEL,
+  DEFAULT_CHANNEL_LAYOUT_SETTINGS,
+  DEFAULT_SOURCE_MIX,
+  SourceActivityMonitor,
+  SourceLevelMeter,
+  getCaptureSources,
+  getSourceGain,
+  loadChannelLayoutSettings,
+  loadSourceMix,
+  saveChannelLayoutSettings,
+  saveSourceMix,
+  type AudioSourceId,
+  type ChannelLayout,
+  type ChannelLayoutSettings,
+  type SourceActivitySpan,
+  type SourceLevel,
+  type SourceMix,
+  type SourceTrackBlobs,
+} from "@/lib/source-tracks"
+import {
+  TRANSCRIPTION_PROVIDER_NAMES,
+  loadActiveProviderId,
+  type TranscriptionProviderId,
+  type TranscriptionSource,
+} from "@/lib/transcription-providers"
+import { getAudioContext } from "@/lib/audio-utils"
+import { SwappableMicrophone } from "@/lib/audio-devices"
+import { formatPause, interleavePauses, type RecordingPause } from "@/lib/recording-pauses"
+import {
+  DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  analyzeVoiceActivity,
+  loadVoiceActivitySettings,
+  type ChunkVoiceActivity,
+} from "@/lib/voice-activity"
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  getAudioCapabilities,
+  getLevelThresholdScale,
+  getMicrophoneConstraints,
+  loadAudioSettings,
+  resolveAudioSettings,
+  type AudioSettings as AudioSettingsType,
+} from "@/lib/audio-settings"
+import {
+  AUDIO_EXPORT_FORMATS,
+  createBlobSink,
+  createFileSink,
+  exportAudioChunks,
+  getRecordingExtension,
+  pickExportFile,
+} from "@/lib/audio-export"
+import { encodeMp3, isAbortError } from "@/lib/audio-encoder"
+import { PcmChunker, PcmTap, isPcmTapSupported, type PcmChunk } from "@/lib/pcm-tap"
+import {
+  ChunkBoundaryDetector,
+  DEFAULT_CHUNK_SETTINGS,
+  getMaxChunkSeconds,
+  loadChunkSettings,
+  readAnalyserLevel,
+  type ChunkSettings as ChunkSettingsType,
+} from "@/lib/chunk-boundaries"
+import {
+  deleteRecordingSlices,
+  enforceAudioStorageLimits,
+  getSessionAudioChunks,
+  getSessionRecordings,
+  recoverRecordingSlices,
+  requestPersistentStorage,
+  saveAudioChunk,
+  saveRecording,
+  saveRecordingSlice,
+} from "@/lib/audio-store"
 
 // Add this import after other imports
 declare global {
   interface Window {
-    lamejs: any
     webkitSpeechRecognition: any
     SpeechRecognition: any
     webkitAudioContext: any
@@ -48,6 +132,7 @@ interface TranscriptEntry {
   text: string
   source?: "microphone" | "system" | "manual"
   confidence?: number
+  offset?: number // seconds since the session started
 }
 
 interface AudioChunk {
@@ -55,16 +140,39 @@ interface AudioChunk {
   timestamp: string
   duration: number
   chunkNumber: number
+  startOffset: number // seconds from the start of the session
+  sources?: AudioSourceId[]
+  channelLayout?: ChannelLayout // "stereo": microphone left, system audio right
+  tracks?: SourceTrackBlobs // per-source recordings next to the mixed `blob`
+  leadIn?: Blob // overlap before the chunk, prepended for transcription
+  leadInSeconds?: number
+  sourceActivity?: SourceActivitySpan[] // chunk-relative
+  voiceActivity?: ChunkVoiceActivity
+  trimmed?: Blob // uploaded instead of `blob` when long pauses were cut out
 }
 
 interface SessionData {
+  sessionId: string
   liveTranscript: TranscriptEntry[]
   finalTranscripts: string[]
+  finalSegments: TranscriptSegment[][]
+  transcriptSources: TranscriptionSource[] // which provider produced each chunk's final transcript
   audioChunks: AudioChunk[]
   totalDuration: number
   captureMode: string
   userName: string
   timestamp: string
+  // True while a recording is running, so a reload can tell the session was interrupted
+  recordingActive?: boolean
+  sourceMix?: SourceMix // gain and mute of each source, as last set while recording
+  pauses?: RecordingPause[]
+}
+
+interface InterruptedSession {
+  chunkCount: number
+  recoveredChunks: number
+  totalDuration: number
+  transcriptEntries: number
 }
 
 interface SessionEntry {
@@ -77,8 +185,12 @@ interface SessionEntry {
   totalChunks: number
   liveTranscript: TranscriptEntry[]
   finalTranscripts: string[]
+  finalSegments: TranscriptSegment[][]
+  transcriptSources: TranscriptionSource[]
   audioChunks: AudioChunk[]
   totalWords: number
+  sourceMix?: SourceMix
+  pauses?: RecordingPause[]
 }
 
 // Browser compatibility detection
@@ -98,12 +210,6 @@ const getSpeechRecognition = () => {
   return window.SpeechRecognition || window.webkitSpeechRecognition
 }
 
-// Audio Context with Safari support
-const getAudioContext = () => {
-  if (typeof window === "undefined") return null
-  return window.AudioContext || window.webkitAudioContext
-}
-
 const showToast = (message: string, type: "success" | "error" | "loading" = "success") => {
   const notification = document.createElement("div")
   notification.className = `fixed top-4 left-1/2 transform -translate-x-1/2 z-50 p-4 rounded-lg shadow-lg text-white transition-all duration-300 ${
@@ -120,7 +226,15 @@ const showToast = (message: string, type: "success" | "error" | "loading" = "suc
   }, 3000)
 }
 
-const CHUNK_DURATION = 30 // 30 seconds per chunk
+// How often the chunk timer checks for a boundary
+const CHUNK_BOUNDARY_POLL_MS = 100
+// How long a source's clip indicator stays lit after its last clipped sample
+const CLIP_HOLD_MS = 1500
+// Shorter leftovers at the end of a recording aren't worth a chunk
+const MIN_CHUNK_SECONDS = 0.5
+const MAX_HISTORY_SESSIONS = 50
+
+const createSessionId = () => `session-${Date.now()}`
 
 // Helper functions for localStorage
 const saveSessionData = (data: SessionData) => {
@@ -132,6 +246,8 @@ const saveSessionData = (data: SessionData) => {
         timestamp: chunk.timestamp,
         duration: chunk.duration,
         chunkNumber: chunk.chunkNumber,
+        startOffset: chunk.startOffset,
+        voiceActivity: chunk.voiceActivity,
         // Don't save blob
       })),
     }
@@ -183,7 +299,7 @@ const saveSessionToHistory = (sessionData: SessionData) => {
 
     const now = new Date()
     const sessionEntry: SessionEntry = {
-      id: `session-${now.getTime()}`,
+      id: sessionData.sessionId || `session-${now.getTime()}`,
       sessionDate: now.toLocaleDateString(),
       sessionTime: now.toLocaleTimeString(),
       userName: sessionData.userName,
@@ -192,202 +308,97 @@ const saveSessionToHistory = (sessionData: SessionData) => {
       totalChunks: sessionData.audioChunks.length,
       liveTranscript: sessionData.liveTranscript,
       finalTranscripts: sessionData.finalTranscripts,
+      finalSegments: sessionData.finalSegments,
+      transcriptSources: sessionData.transcriptSources,
       audioChunks: sessionData.audioChunks.map((chunk) => ({
         timestamp: chunk.timestamp,
         duration: chunk.duration,
         chunkNumber: chunk.chunkNumber,
+        startOffset: chunk.startOffset,
+        voiceActivity: chunk.voiceActivity,
         // Don't save blob to history
       })),
       totalWords: sessionData.finalTranscripts
         .filter((t) => t)
         .reduce((acc, transcript) => acc + transcript.split(" ").length, 0),
+      sourceMix: sessionData.sourceMix,
+      pauses: sessionData.pauses,
     }
 
-    // Add to beginning of history (most recent first)
-    history.unshift(sessionEntry)
+    // Add to beginning of history (most recent first), replacing an older copy of the same session
+    const filteredHistory = history.filter((entry) => entry.id !== sessionEntry.id)
+    filteredHistory.unshift(sessionEntry)
 
     // Keep only last 50 sessions to prevent localStorage bloat
-    const trimmedHistory = history.slice(0, 50)
+    const trimmedHistory = filteredHistory.slice(0, MAX_HISTORY_SESSIONS)
 
     localStorage.setItem("sesame-session-history", JSON.stringify(trimmedHistory))
     console.log("📚 Session saved to history")
+
+    // Drop stored audio for sessions that fell out of history and keep the store within quota
+    enforceAudioStorageLimits(trimmedHistory.map((entry) => entry.id)).catch((error) =>
+      console.error("Failed to enforce audio storage limits:", error),
+    )
   } catch (error) {
     console.error("Failed to save session to history:", error)
   }
 }
 
-// Convert WebM to MP3 for download with Safari compatibility
-const convertToMp3 = async (audioBlob: Blob): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = async () => {
-      try {
-        const arrayBuffer = reader.result as ArrayBuffer
-        const AudioContextClass = getAudioContext()
-        if (!AudioContextClass) {
-          throw new Error("AudioContext not supported")
-        }
-
-        const audioContext = new AudioContextClass({
-          sampleRate: 48000,
-        })
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-
-        const numberOfChannels = audioBuffer.numberOfChannels
-        const leftChannel = audioBuffer.getChannelData(0)
-        const rightChannel = numberOfChannels > 1 ? audioBuffer.getChannelData(1) : leftChannel
-
-        const leftPCM = new Int16Array(leftChannel.length)
-        const rightPCM = new Int16Array(rightChannel.length)
-
-        for (let i = 0; i < leftChannel.length; i++) {
-          leftPCM[i] = Math.max(-32768, Math.min(32767, leftChannel[i] * 32767))
-          rightPCM[i] = Math.max(-32768, Math.min(32767, rightChannel[i] * 32767))
-        }
-
-        const mp3encoder = new (window as any).lamejs.Mp3Encoder(
-          numberOfChannels,
-          audioBuffer.sampleRate,
-          256, // High quality for download
-        )
-
-        const mp3Data = []
-        const sampleBlockSize = 1152
-
-        for (let i = 0; i < leftPCM.length; i += sampleBlockSize) {
-          const leftChunk = leftPCM.subarray(i, i + sampleBlockSize)
-          const rightChunk = rightPCM.subarray(i, i + sampleBlockSize)
-          const mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk)
-          if (mp3buf.length > 0) {
-            mp3Data.push(mp3buf)
-          }
-        }
-
-        const mp3buf = mp3encoder.flush()
-        if (mp3buf.length > 0) {
-          mp3Data.push(mp3buf)
-        }
-
-        const mp3Blob = new Blob(mp3Data, { type: "audio/mpeg" })
-        resolve(mp3Blob)
-      } catch (error) {
-        reject(error)
-      }
-    }
-    reader.onerror = reject
-    reader.readAsArrayBuffer(audioBlob)
-  })
-}
-
-// Merge multiple audio blobs into one with Safari compatibility
-const mergeAudioBlobs = async (audioChunks: AudioChunk[]): Promise<Blob> => {
-  if (audioChunks.length === 0) {
-    throw new Error("No audio chunks to merge")
-  }
-
-  if (audioChunks.length === 1) {
-    return audioChunks[0].blob
-  }
-
-  // Create audio context for merging
-  const AudioContextClass = getAudioContext()
-  if (!AudioContextClass) {
-    throw new Error("AudioContext not supported")
-  }
-
-  const audioContext = new AudioContextClass({
-    sampleRate: 48000,
-  })
-
-  const audioBuffers: AudioBuffer[] = []
-
-  // Decode all audio chunks
-  for (const chunk of audioChunks) {
-    const arrayBuffer = await chunk.blob.arrayBuffer()
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-    audioBuffers.push(audioBuffer)
-  }
-
-  // Calculate total length
-  const totalLength = audioBuffers.reduce((acc, buffer) => acc + buffer.length, 0)
-  const numberOfChannels = audioBuffers[0].numberOfChannels
-  const sampleRate = audioBuffers[0].sampleRate
-
-  // Create merged buffer
-  const mergedBuffer = audioContext.createBuffer(numberOfChannels, totalLength, sampleRate)
-
-  let offset = 0
-  for (const buffer of audioBuffers) {
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      const channelData = mergedBuffer.getChannelData(channel)
-      const sourceData = buffer.getChannelData(channel)
-      channelData.set(sourceData, offset)
-    }
-    offset += buffer.length
-  }
-
-  // Convert to MP3
-  const leftChannel = mergedBuffer.getChannelData(0)
-  const rightChannel = numberOfChannels > 1 ? mergedBuffer.getChannelData(1) : leftChannel
-
-  const leftPCM = new Int16Array(leftChannel.length)
-  const rightPCM = new Int16Array(rightChannel.length)
-
-  for (let i = 0; i < leftChannel.length; i++) {
-    leftPCM[i] = Math.max(-32768, Math.min(32767, leftChannel[i] * 32767))
-    rightPCM[i] = Math.max(-32768, Math.min(32767, rightChannel[i] * 32767))
-  }
-
-  const mp3encoder = new (window as any).lamejs.Mp3Encoder(numberOfChannels, sampleRate, 256)
-  const mp3Data = []
-  const sampleBlockSize = 1152
-
-  for (let i = 0; i < leftPCM.length; i += sampleBlockSize) {
-    const leftChunk = leftPCM.subarray(i, i + sampleBlockSize)
-    const rightChunk = rightPCM.subarray(i, i + sampleBlockSize)
-    const mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk)
-    if (mp3buf.length > 0) {
-      mp3Data.push(mp3buf)
-    }
-  }
-
-  const mp3buf = mp3encoder.flush()
-  if (mp3buf.length > 0) {
-    mp3Data.push(mp3buf)
-  }
-
-  await audioContext.close()
-  return new Blob(mp3Data, { type: "audio/mpeg" })
-}
-
 // Format live transcript for context
-const formatLiveTranscriptForContext = (transcript: TranscriptEntry[], userName: string): string => {
+const formatLiveTranscriptForContext = (
+  transcript: TranscriptEntry[],
+  userName: string,
+  pauses: RecordingPause[] = [],
+): string => {
   if (transcript.length === 0) return ""
 
-  return transcript
-    .map((entry) => `${entry.speaker === "user" ? userName || "User" : "AI Assistant"}: ${entry.text}`)
+  return interleavePauses(transcript, pauses)
+    .map((item) =>
+      item.type === "pause"
+        ? `--- ${formatPause(item.pause)} ---`
+        : `${item.entry.speaker === "user" ? userName || "User" : "AI Assistant"}: ${item.entry.text}`,
+    )
     .join("\n")
 }
 
 export default function RecorderUI() {
   const [isRecording, setIsRecording] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
+  const [pauses, setPauses] = useState<RecordingPause[]>([])
   const [duration, setDuration] = useState(0)
   const [chunkDuration, setChunkDuration] = useState(0) // Duration of current chunk
   const [currentChunkNumber, setCurrentChunkNumber] = useState(1)
+  const [sessionId, setSessionId] = useState(createSessionId)
   const [transcript, setTranscript] = useState<TranscriptEntry[]>([])
   const [currentTranscript, setCurrentTranscript] = useState("")
   const [audioLevel, setAudioLevel] = useState(0)
+  const [sourceMix, setSourceMix] = useState<SourceMix>(DEFAULT_SOURCE_MIX)
+  const [sessionSourceMix, setSessionSourceMix] = useState<SourceMix | null>(null) // what this session recorded with
+  const [sourceLevels, setSourceLevels] = useState<Partial<Record<AudioSourceId, SourceLevel>>>({})
+  const [clippingSources, setClippingSources] = useState<Partial<Record<AudioSourceId, boolean>>>({})
   const [error, setError] = useState<string | null>(null)
   const [isClient, setIsClient] = useState(false)
   const [finalTranscripts, setFinalTranscripts] = useState<string[]>([])
+  const [finalSegments, setFinalSegments] = useState<TranscriptSegment[][]>([])
+  const [transcriptSources, setTranscriptSources] = useState<TranscriptionSource[]>([])
   const [audioChunks, setAudioChunks] = useState<AudioChunk[]>([])
   const [userName, setUserName] = useState("")
   const [geminiApiKeys, setGeminiApiKeys] = useState<string[]>([])
+  const [transcriptionProviderId, setTranscriptionProviderId] = useState<TranscriptionProviderId>("gemini")
   const [browserInfo, setBrowserInfo] = useState({ isSafari: false, isChrome: false, isFirefox: false, isMac: false })
 
   const [captureMode, setCaptureMode] = useState<"microphone" | "desktop" | "both">("microphone")
+  const [chunkSettings, setChunkSettings] = useState<ChunkSettingsType>(DEFAULT_CHUNK_SETTINGS)
+  // Read when a chunk is cut, so a change applies from the next chunk on
+  const voiceActivitySettingsRef = useRef(DEFAULT_VOICE_ACTIVITY_SETTINGS)
+  const [channelLayoutSettings, setChannelLayoutSettings] = useState<ChannelLayoutSettings>(
+    DEFAULT_CHANNEL_LAYOUT_SETTINGS,
+  )
   const [isListeningForAI, setIsListeningForAI] = useState(false)
   const [speechRecognitionActive, setSpeechRecognitionActive] = useState(false)
+  const [interruptedSession, setInterruptedSession] = useState<InterruptedSession | null>(null)
+  const [audioExportProgress, setAudioExportProgress] = useState<number | null>(null) // 0-1 while exporting
+  const [audioExportDialogOpen, setAudioExportDialogOpen] = useState(false)
 
   // Refs
   const intervalRef = useRef<NodeJS.Timeout>()
@@ -397,23 +408,46 @@ export default function RecorderUI() {
   const dataArrayRef = useRef<Uint8Array | null>(null)
   const animationFrameRef = useRef<number>()
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const currentChunkDataRef = useRef<Blob[]>([])
   const recognitionRef = useRef<any | null>(null)
+  const desktopRecognitionRef = useRef<any | null>(null)
   const isRecordingRef = useRef(false) // Add this to track recording state
+  const isPausedRef = useRef(false)
+  // The context the recording graph runs in; suspended while paused
+  const recordingContextRef = useRef<AudioContext | null>(null)
+  // Mirrors of state read from MediaRecorder listeners, which would otherwise see stale closures
+  const currentChunkNumberRef = useRef(1)
+  // Session time at which the current chunk started
+  const chunkStartOffsetRef = useRef(0)
+  const chunkerRef = useRef<PcmChunker | null>(null)
+  const chunkBitRateRef = useRef(192)
+  // Chunks waiting to be stored, in recording order
+  const chunkSaveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  // Cancels the running audio export
+  const audioExportAbortRef = useRef<AbortController | null>(null)
+  const durationRef = useRef(0)
+  const sessionIdRef = useRef(sessionId)
 
   // Stream refs
   const micStreamRef = useRef<MediaStream | null>(null)
   const desktopStreamRef = useRef<MediaStream | null>(null)
-
-  const [audioSettings, setAudioSettings] = useState<AudioSettingsType>({
-    sampleRate: 44100,
-    bitRate: 128,
-    autoGain: true,
-    noiseSuppression: true,
-    echoCancellation: true,
-    language: "en-US",
-    sensitivity: 50,
-  })
+  // Keeps the microphone in the mixing graph when the device changes mid-recording
+  const microphoneRef = useRef<SwappableMicrophone | null>(null)
+  // Gain node of each source in the running mix, and meters after them
+  const sourceGainsRef = useRef<Partial<Record<AudioSourceId, GainNode>>>({})
+  const sourceMeterRef = useRef<SourceLevelMeter | null>(null)
+  // Until when each source's clip indicator stays lit
+  const clipHoldRef = useRef<Partial<Record<AudioSourceId, number>>>({})
+  const activityMonitorRef = useRef<SourceActivityMonitor | null>(null)
+  // Layout of the recording in progress; only stereo when both sources are captured
+  const channelLayoutRef = useRef<ChannelLayout>("mixed")
+  // Sources whose speech recognizer is running
+  const activeRecognizersRef = useRef<Set<AudioSourceId>>(new Set())
+
+  const [audioSettings, setAudioSettings] = useState<AudioSettingsType>(DEFAULT_AUDIO_SETTINGS)
+  // Level meter gain from the sensitivity setting, fixed for the length of a recording
+  const levelThresholdScaleRef = useRef(1)
+  // Latest settings for callbacks that outlive a render, like the microphone swap
+  const audioSettingsRef = useRef(audioSettings)
 
   // Load user name and session data from localStorage
   useEffect(() => {
@@ -441,19 +475,108 @@ export default function RecorderUI() {
     }
 
     loadApiKeys()
+    setTranscriptionProviderId(loadActiveProviderId())
+    setChannelLayoutSettings(loadChannelLayoutSettings())
+    setChunkSettings(loadChunkSettings())
+    voiceActivitySettingsRef.current = loadVoiceActivitySettings()
+    setAudioSettings(loadAudioSettings())
+    setSourceMix(loadSourceMix())
 
     // Load previous session data
     const sessionData = loadSessionData()
     if (sessionData) {
       setTranscript(sessionData.liveTranscript || [])
       setFinalTranscripts(sessionData.finalTranscripts || [])
+      setFinalSegments(sessionData.finalSegments || [])
+      setTranscriptSources(sessionData.transcriptSources || [])
       setDuration(sessionData.totalDuration || 0)
       setCaptureMode((sessionData.captureMode as any) || "microphone")
+      setSessionSourceMix(sessionData.sourceMix || null)
+      setPauses(sessionData.pauses || [])
+
+      // Bring back the audio for the restored session from IndexedDB
+      if (sessionData.sessionId) {
+        const restoredSessionId = sessionData.sessionId
+        setSessionId(restoredSessionId)
+        sessionIdRef.current = restoredSessionId
+
+        const wasInterrupted = !!sessionData.recordingActive
+
+        // An interrupted recording leaves 1-second slices behind; rebuild them into chunks first
+        const restoreAudio = wasInterrupted
+          ? recoverRecordingSlices(restoredSessionId).then((recovered) =>
+              getSessionAudioChunks(restoredSessionId).then((storedChunks) => ({ storedChunks, recovered })),
+            )
+          : getSessionAudioChunks(restoredSessionId).then((storedChunks) => ({ storedChunks, recovered: [] }))
+
+        restoreAudio
+          .then(({ storedChunks, recovered }) => {
+            if (wasInterrupted) {
+              setInterruptedSession({
+                chunkCount: storedChunks.length,
+                recoveredChunks: recovered.length,
+                totalDuration: sessionData.totalDuration || 0,
+                transcriptEntries: sessionData.liveTranscript?.length || 0,
+              })
+            }
 
-      showToast("📂 Previous session restored!", "success")
+            if (storedChunks.length === 0) return
+
+            const restoredChunks = storedChunks.map((chunk, index) => ({
+              blob: chunk.blob,
+              timestamp: chunk.timestamp,
+              duration: chunk.duration,
+              chunkNumber: chunk.chunkNumber,
+              startOffset:
+                chunk.startOffset ?? storedChunks.slice(0, index).reduce((acc, previous) => acc + previous.duration, 0),
+              sources: chunk.sources,
+              channelLayout: chunk.channelLayout,
+              tracks: chunk.tracks,
+              leadIn: chunk.leadIn,
+              leadInSeconds: chunk.leadInSeconds,
+              sourceActivity: chunk.sourceActivity,
+              voiceActivity: chunk.voiceActivity,
+              trimmed: chunk.trimmed,
+            }))
+            setAudioChunks(restoredChunks)
+            const lastChunk = restoredChunks[restoredChunks.length - 1]
+            chunkStartOffsetRef.current = lastChunk.startOffset + lastChunk.duration
+            const nextChunkNumber = storedChunks[storedChunks.length - 1].chunkNumber + 1
+            currentChunkNumberRef.current = nextChunkNumber
+            setCurrentChunkNumber(nextChunkNumber)
+          })
+          .catch((error) => console.error("Failed to restore session audio:", error))
+      }
+
+      showToast(
+        sessionData.recordingActive ? "🩹 Interrupted recording found!" : "📂 Previous session restored!",
+        "success",
+      )
     }
+
+    requestPersistentStorage()
   }, [])
 
+  const updateChannelLayoutSettings = (settings: Partial<ChannelLayoutSettings>) => {
+    const newSettings = { ...channelLayoutSettings, ...settings }
+    setChannelLayoutSettings(newSettings)
+    saveChannelLayoutSettings(newSettings)
+  }
+
+  // Mixer changes apply to the running gain nodes straight away, and become what this session records with
+  const handleSourceMixChange = (mix: SourceMix) => {
+    const saved = saveSourceMix(mix)
+    setSourceMix(saved)
+
+    // The gain nodes live in the recording's own context, so they ramp on its clock
+    ;(Object.entries(sourceGainsRef.current) as [AudioSourceId, GainNode][]).forEach(([source, node]) => {
+      if (node.context.state !== "closed") {
+        node.gain.setTargetAtTime(getSourceGain(saved[source]), node.context.currentTime, 0.02)
+      }
+    })
+    if (isRecording) setSessionSourceMix(saved)
+  }
+
   // Save user name to localStorage
   const handleUserNameChange = (value: string) => {
     setUserName(value)
@@ -462,20 +585,52 @@ export default function RecorderUI() {
 
   // Save session data whenever important state changes
   useEffect(() => {
-    if (transcript.length > 0 || finalTranscripts.length > 0 || audioChunks.length > 0) {
+    if (isRecording || transcript.length > 0 || finalTranscripts.length > 0 || audioChunks.length > 0) {
       const sessionData: SessionData = {
+        sessionId,
         liveTranscript: transcript,
         finalTranscripts,
+        finalSegments,
+        transcriptSources,
         audioChunks,
         totalDuration: duration,
         captureMode,
         userName,
         timestamp: new Date().toISOString(),
+        recordingActive: isRecording,
+        sourceMix: sessionSourceMix || undefined,
+        pauses,
       }
 
       saveSessionData(sessionData)
     }
-  }, [transcript, finalTranscripts, audioChunks, duration, captureMode, userName])
+  }, [
+    sessionId,
+    isRecording,
+    transcript,
+    finalTranscripts,
+    finalSegments,
+    transcriptSources,
+    audioChunks,
+    duration,
+    captureMode,
+    userName,
+    sessionSourceMix,
+    pauses,
+  ])
+
+  useEffect(() => {
+    durationRef.current = duration
+  }, [duration])
+
+  useEffect(() => {
+    audioSettingsRef.current = audioSettings
+  }, [audioSettings])
+
+  // A microphone picked while recording is switched to straight away
+  useEffect(() => {
+    microphoneRef.current?.refresh()
+  }, [audioSettings.inputDeviceId])
 
   // Fix hydration mismatch
   useEffect(() => {
@@ -498,6 +653,11 @@ export default function RecorderUI() {
     }
 
     // Cleanup streams
+    microphoneRef.current?.stop()
+    microphoneRef.current = null
+    sourceGainsRef.current = {}
+    sourceMeterRef.current = null
+    clipHoldRef.current = {}
     if (micStreamRef.current) {
       micStreamRef.current.getTracks().forEach((track) => track.stop())
       micStreamRef.current = null
@@ -508,20 +668,28 @@ export default function RecorderUI() {
       desktopStreamRef.current = null
     }
 
+    activityMonitorRef.current?.stop()
+    activityMonitorRef.current = null
+    activeRecognizersRef.current.clear()
+
     analyserRef.current = null
     audioContextRef.current = null
     dataArrayRef.current = null
     setAudioLevel(0)
+    setSourceLevels({})
+    setClippingSources({})
     setSpeechRecognitionActive(false)
 
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.stop()
-      } catch (error) {
-        console.error("Error stopping speech recognition:", error)
+    ;[recognitionRef, desktopRecognitionRef].forEach((ref) => {
+      if (ref.current) {
+        try {
+          ref.current.stop()
+        } catch (error) {
+          console.error("Error stopping speech recognition:", error)
+        }
+        ref.current = null
       }
-      recognitionRef.current = null
-    }
+    })
   }, [])
 
   const visualizeAudio = useCallback(() => {
@@ -530,7 +698,20 @@ export default function RecorderUI() {
     analyserRef.current.getByteTimeDomainData(dataArrayRef.current)
     const sum = dataArrayRef.current.reduce((acc, val) => acc + Math.abs(val - 128), 0)
     const avg = sum / dataArrayRef.current.length
-    setAudioLevel(avg * 5)
+    setAudioLevel((avg * 5) / levelThresholdScaleRef.current)
+
+    // Per-source meters; a clip keeps its indicator lit for a moment so it can be seen
+    if (sourceMeterRef.current) {
+      const levels = sourceMeterRef.current.read()
+      const now = performance.now()
+      const clipping: Partial<Record<AudioSourceId, boolean>> = {}
+      ;(Object.entries(levels) as [AudioSourceId, SourceLevel][]).forEach(([source, { peak }]) => {
+        if (peak >= CLIP_LEVEL) clipHoldRef.current[source] = now + CLIP_HOLD_MS
+        clipping[source] = (clipHoldRef.current[source] || 0) > now
+      })
+      setSourceLevels(levels)
+      setClippingSources(clipping)
+    }
 
     animationFrameRef.current = requestAnimationFrame(visualizeAudio)
   }, [])
@@ -604,7 +785,7 @@ export default function RecorderUI() {
       console.error("Speech recognition error:", event.error)
       if (event.error === "no-speech") {
         setTimeout(() => {
-          if (recognitionRef.current === recognition && isRecordingRef.current) {
+          if (recognitionRef.current === recognition && isRecordingRef.current && !isPausedRef.current) {
             try {
               recognition.start()
             } catch (e) {
@@ -616,7 +797,7 @@ export default function RecorderUI() {
     }
 
     recognition.onend = () => {
-      if (recognitionRef.current === recognition && isRecordingRef.current) {
+      if (recognitionRef.current === recognition && isRecordingRef.current && !isPausedRef.current) {
         setTimeout(() => {
           try {
             recognition.start()
@@ -630,29 +811,51 @@ export default function RecorderUI() {
     return recognition
   }, [])
 
+  // Session time on the activity monitor's clock, falling back to the recording timer
+  const getSessionTime = () => activityMonitorRef.current?.now() ?? durationRef.current
+
+  // A finished live caption belongs to the source that carried the most energy while it was spoken.
+  // Every recognizer hears the same speech, so a caption is only kept by the recognizer of its source.
+  const addLiveCaption = useCallback((text: string, spokenFrom: number | null, recognizer: AudioSourceId) => {
+    const now = activityMonitorRef.current?.now() ?? durationRef.current
+    const start = spokenFrom ?? Math.max(0, now - 3)
+    const source = activityMonitorRef.current?.getDominantSource(start, now) ?? "microphone"
+
+    if (source !== recognizer && activeRecognizersRef.current.has(source)) return
+
+    const newEntry: TranscriptEntry = {
+      id: `${source === "system" ? "ai" : "user"}-${Date.now()}-${Math.random()}`,
+      timestamp: new Date().toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      }),
+      speaker: source === "system" ? "ai" : "user",
+      text,
+      source: source === "system" ? "system" : "microphone",
+      confidence: 0.9,
+      offset: start,
+    }
+    setTranscript((prev) => [...prev, newEntry])
+    if (source === "system") {
+      showToast("AI response detected!", "success")
+    }
+  }, [])
+
   // Setup microphone recognition
   const setupMicRecognition = useCallback(
     async (micStream: MediaStream) => {
       try {
         micStreamRef.current = micStream
+        let utteranceStart: number | null = null
 
         const handleSpeechResult = (text: string, isFinal: boolean) => {
           if (isFinal && text.length > 0) {
-            const newEntry: TranscriptEntry = {
-              id: `user-${Date.now()}-${Math.random()}`,
-              timestamp: new Date().toLocaleTimeString([], {
-                hour: "2-digit",
-                minute: "2-digit",
-                second: "2-digit",
-              }),
-              speaker: "user",
-              text: text,
-              source: "microphone",
-              confidence: 0.9,
-            }
-            setTranscript((prev) => [...prev, newEntry])
+            addLiveCaption(text, utteranceStart, "microphone")
+            utteranceStart = null
             setCurrentTranscript("")
           } else if (!isFinal && text.length > 0) {
+            utteranceStart ??= getSessionTime()
             setCurrentTranscript(text)
           }
         }
@@ -660,14 +863,14 @@ export default function RecorderUI() {
         const recognition = setupSpeechRecognition(handleSpeechResult, audioSettings.language)
         recognitionRef.current = recognition
         recognition.start()
+        activeRecognizersRef.current.add("microphone")
 
         setSpeechRecognitionActive(true)
-        setupAudioProcessing(micStream)
       } catch (error) {
         console.error("Failed to setup speech recognition for microphone:", error)
       }
     },
-    [setupSpeechRecognition, audioSettings.language, setupAudioProcessing],
+    [setupSpeechRecognition, audioSettings.language, addLiveCaption],
   )
 
   // Setup desktop recognition
@@ -675,48 +878,31 @@ export default function RecorderUI() {
     async (desktopStream: MediaStream) => {
       try {
         desktopStreamRef.current = desktopStream
+        let utteranceStart: number | null = null
 
         const handleSpeechResult = (partialText: string, isFinal: boolean) => {
           const text = partialText.trim()
-          if (isFinal && text.length > 10) {
-            const aiPatterns = [
-              /^(I|Here|Let me|Based on|According to|The answer is|Sure|Of course|Certainly)/i,
-              /\b(help|assist|explain|understand|provide|suggest|recommend)\b/i,
-              /\b(AI|assistant|model|system)\b/i,
-            ]
-
-            const isLikelyAI = aiPatterns.some((pattern) => pattern.test(text)) || text.length > 30
-
-            if (isLikelyAI) {
-              const newEntry: TranscriptEntry = {
-                id: `ai-${Date.now()}-${Math.random()}`,
-                timestamp: new Date().toLocaleTimeString([], {
-                  hour: "2-digit",
-                  minute: "2-digit",
-                  second: "second",
-                }),
-                speaker: "ai",
-                text: text,
-                source: "system",
-                confidence: 0.8,
-              }
-              setTranscript((prev) => [...prev, newEntry])
-              showToast("AI response detected!", "success")
-            }
+          if (isFinal && text.length > 0) {
+            addLiveCaption(text, utteranceStart, "system")
+            utteranceStart = null
+          } else if (!isFinal && text.length > 0) {
+            utteranceStart ??= getSessionTime()
           }
         }
 
         const desktopRecognition = setupSpeechRecognition(handleSpeechResult, audioSettings.language)
+        desktopRecognitionRef.current = desktopRecognition
         desktopRecognition.start()
+        activeRecognizersRef.current.add("system")
         setIsListeningForAI(true)
       } catch (error) {
         console.error("Failed to setup speech recognition for desktop:", error)
       }
     },
-    [setupSpeechRecognition, audioSettings.language],
+    [setupSpeechRecognition, audioSettings.language, addLiveCaption],
   )
 
-  const startDesktopCapture = async () => {
+  const startDesktopCapture = async (sampleRate: number) => {
     try {
       // Safari doesn't support getDisplayMedia with audio
       if (browserInfo.isSafari) {
@@ -730,7 +916,7 @@ export default function RecorderUI() {
           echoCancellation: false,
           noiseSuppression: false,
           autoGainControl: false,
-          sampleRate: 48000,
+          sampleRate,
           channelCount: 2,
         },
         video: {
@@ -757,46 +943,99 @@ export default function RecorderUI() {
     }
   }
 
-  // Save current chunk and start new one
-  const saveCurrentChunk = useCallback(() => {
-    if (currentChunkDataRef.current.length > 0 && mediaRecorderRef.current) {
-      const chunkBlob = new Blob(currentChunkDataRef.current, {
-        type: mediaRecorderRef.current.mimeType || "audio/webm",
-      })
-
-      const newChunk: AudioChunk = {
-        blob: chunkBlob,
-        timestamp: new Date().toLocaleTimeString(),
-        duration: CHUNK_DURATION,
-        chunkNumber: currentChunkNumber,
+  // Encode a chunk cut from the PCM tap and store it
+  // `monitor` is passed in because the final chunk is saved after cleanup has released the ref
+  const saveCurrentChunk = useCallback(
+    (pcm: PcmChunk, monitor: SourceActivityMonitor | null = null, bitRate = 192): Promise<void> => {
+      const frames = pcm.endFrame - pcm.startFrame
+      if (frames < pcm.sampleRate * MIN_CHUNK_SECONDS) {
+        console.log(`⏭️ Skipping ${(frames / pcm.sampleRate).toFixed(2)}s of audio at the end of the recording`)
+        return chunkSaveQueueRef.current
       }
 
-      setAudioChunks((prev) => [...prev, newChunk])
-      currentChunkDataRef.current = []
+      // Number and place the chunk now; encoding happens in the MP3 worker and may finish out of order
+      const chunkSeconds = Math.round((frames / pcm.sampleRate) * 100) / 100
+      const chunkNumber = currentChunkNumberRef.current
+      const startOffset = chunkStartOffsetRef.current
+      const channelLayout = channelLayoutRef.current
+      const sourceActivity = monitor?.getActivitySpans(startOffset, startOffset + chunkSeconds)
+      chunkStartOffsetRef.current = startOffset + chunkSeconds
+      currentChunkNumberRef.current = chunkNumber + 1
       setChunkDuration(0)
-      setCurrentChunkNumber((prev) => prev + 1)
+      setCurrentChunkNumber(chunkNumber + 1)
+
+      // Silent chunks are marked to be left out of transcription, and long pauses trimmed from the upload
+      const { activity: voiceActivity, trimmed } = analyzeVoiceActivity(
+        pcm.mix,
+        pcm.sampleRate,
+        voiceActivitySettingsRef.current,
+        levelThresholdScaleRef.current,
+      )
+      if (voiceActivity.skipped) {
+        console.log(`🤫 Chunk ${chunkNumber} is silent, it won't be transcribed`)
+      } else if (voiceActivity.trimmedSeconds > 0) {
+        console.log(`✂️ Trimmed ${voiceActivity.trimmedSeconds}s of silence from chunk ${chunkNumber}'s upload`)
+      }
 
-      showToast(`📦 Chunk ${currentChunkNumber} saved (${CHUNK_DURATION}s)`, "success")
-    }
-  }, [currentChunkNumber])
+      const trackSources = Object.keys(pcm.tracks) as AudioSourceId[]
+      const encoded = Promise.all([
+        encodeMp3(pcm.mix, pcm.sampleRate, bitRate),
+        pcm.leadIn.length > 0 ? encodeMp3(pcm.leadIn, pcm.sampleRate, bitRate) : undefined,
+        Promise.all(trackSources.map((source) => encodeMp3([pcm.tracks[source]!], pcm.sampleRate, 128))),
+        trimmed ? encodeMp3(trimmed, pcm.sampleRate, bitRate) : undefined,
+      ])
+
+      // Chunks are added in recording order, whichever finishes encoding first
+      chunkSaveQueueRef.current = chunkSaveQueueRef.current
+        .then(() => encoded)
+        .then(([blob, leadIn, trackBlobs, trimmedBlob]) => {
+          const tracks: SourceTrackBlobs = {}
+          trackSources.forEach((source, index) => {
+            tracks[source] = trackBlobs[index]
+          })
 
-  // Restart recording for next chunk
-  const restartRecordingForNextChunk = useCallback(() => {
-    if (isRecordingRef.current && mediaRecorderRef.current) {
-      console.log(`🔄 Restarting recording for chunk ${currentChunkNumber + 1}`)
+          const newChunk: AudioChunk = {
+            blob,
+            timestamp: new Date().toLocaleTimeString(),
+            duration: chunkSeconds,
+            chunkNumber,
+            startOffset,
+            sources: monitor?.sources,
+            channelLayout,
+            tracks,
+            leadIn,
+            leadInSeconds: leadIn ? pcm.leadIn[0].length / pcm.sampleRate : undefined,
+            sourceActivity,
+            voiceActivity,
+            trimmed: trimmedBlob,
+          }
 
-      // Start new recording immediately
-      try {
-        mediaRecorderRef.current.start(1000)
-        console.log(`✅ Started recording chunk ${currentChunkNumber + 1}`)
-      } catch (error) {
-        console.error("Failed to restart recording:", error)
-        showToast("❌ Failed to restart recording", "error")
-      }
-    }
-  }, [currentChunkNumber])
+          setAudioChunks((prev) => [...prev, newChunk])
+
+          // Persist the audio so history and reloads keep it
+          saveAudioChunk({ sessionId: sessionIdRef.current, ...newChunk }).catch((error) => {
+            console.error(`Failed to store chunk ${chunkNumber}:`, error)
+            showToast(`⚠️ Chunk ${chunkNumber} could not be stored locally`, "error")
+          })
+
+          showToast(
+            voiceActivity.skipped
+              ? `🤫 Chunk ${chunkNumber} saved (${Math.round(chunkSeconds)}s, silent)`
+              : `📦 Chunk ${chunkNumber} saved (${Math.round(chunkSeconds)}s)`,
+            "success",
+          )
+        })
+        .catch((error) => {
+          console.error(`Failed to encode chunk ${chunkNumber}:`, error)
+          showToast(`❌ Chunk ${chunkNumber} could not be encoded`, "error")
+        })
+      return chunkSaveQueueRef.current
+    },
+    [],
+  )
 
-  const startRecording = async () => {
+  // `resume` continues the current session (same id, chunk numbering, duration and transcript)
+  const startRecording = async ({ resume = false }: { resume?: boolean } = {}) => {
     setError(null)
 
     // Check browser compatibility
@@ -808,40 +1047,52 @@ export default function RecorderUI() {
     }
 
     // Save current session to history before starting new one
-    const currentSessionData = loadSessionData()
+    const currentSessionData = resume ? null : loadSessionData()
     if (currentSessionData) {
       const sessionData: SessionData = {
+        sessionId,
         liveTranscript: transcript,
         finalTranscripts,
+        finalSegments,
+        transcriptSources,
         audioChunks,
         totalDuration: duration,
         captureMode,
         userName,
         timestamp: new Date().toISOString(),
+        sourceMix: sessionSourceMix || undefined,
+        pauses,
       }
       saveSessionToHistory(sessionData)
       showToast("📚 Previous session saved to history", "success")
     }
 
-    // Clear current session
-    clearSessionData()
+    if (!resume) {
+      // Clear current session
+      clearSessionData()
+
+      const newSessionId = createSessionId()
+      sessionIdRef.current = newSessionId
+      setSessionId(newSessionId)
+      currentChunkNumberRef.current = 1
+      chunkStartOffsetRef.current = 0
+    }
 
     try {
       let micStream: MediaStream | null = null
       let desktopStream: MediaStream | null = null
 
+      // Saved settings, with anything this browser can't do swapped for what it can
+      const capabilities = await getAudioCapabilities()
+      const captureSettings = resolveAudioSettings(audioSettings, capabilities)
+      const micConstraints = getMicrophoneConstraints(captureSettings, capabilities)
+      const thresholdScale = getLevelThresholdScale(captureSettings.sensitivity)
+      levelThresholdScaleRef.current = thresholdScale
+
       // Get microphone stream
       if (captureMode === "microphone" || captureMode === "both") {
         try {
-          micStream = await navigator.mediaDevices.getUserMedia({
-            audio: {
-              sampleRate: browserInfo.isSafari ? 44100 : 48000, // Safari prefers 44.1kHz
-              channelCount: 2,
-              echoCancellation: audioSettings.echoCancellation,
-              noiseSuppression: audioSettings.noiseSuppression,
-              autoGainControl: audioSettings.autoGain,
-            },
-          })
+          micStream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints })
           await setupMicRecognition(micStream)
           showToast("✅ Microphone access granted", "success")
         } catch (err) {
@@ -858,7 +1109,7 @@ export default function RecorderUI() {
       // Get desktop audio stream (not supported in Safari)
       if ((captureMode === "desktop" || captureMode === "both") && !browserInfo.isSafari) {
         try {
-          desktopStream = await startDesktopCapture()
+          desktopStream = await startDesktopCapture(captureSettings.sampleRate)
           await setupDesktopRecognition(desktopStream)
         } catch (error) {
           console.error("Desktop audio capture failed:", error)
@@ -867,15 +1118,7 @@ export default function RecorderUI() {
             setCaptureMode("microphone")
           } else if (captureMode === "desktop") {
             setCaptureMode("microphone")
-            micStream = await navigator.mediaDevices.getUserMedia({
-              audio: {
-                sampleRate: browserInfo.isSafari ? 44100 : 48000,
-                channelCount: 2,
-                echoCancellation: audioSettings.echoCancellation,
-                noiseSuppression: audioSettings.noiseSuppression,
-                autoGainControl: audioSettings.autoGain,
-              },
-            })
+            micStream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints })
             await setupMicRecognition(micStream)
           }
         }
@@ -887,29 +1130,87 @@ export default function RecorderUI() {
         if (!AudioContextClass) {
           throw new Error("AudioContext not supported in this browser")
         }
+        if (!isPcmTapSupported()) {
+          throw new Error("AudioWorklet is not supported in this browser. Please update it to record.")
+        }
 
-        const audioContext = new AudioContextClass({
-          sampleRate: browserInfo.isSafari ? 44100 : 48000,
-        })
+        const audioContext = new AudioContextClass({ sampleRate: captureSettings.sampleRate })
+        recordingContextRef.current = audioContext
         const destination = audioContext.createMediaStreamDestination()
+        // Measures each source before mixing so speech can be attributed to where it came from
+        const activityMonitor = new SourceActivityMonitor(audioContext, thresholdScale)
+        const sourceMeter = new SourceLevelMeter(audioContext)
+
+        // Stereo keeps the sources apart: microphone on the left channel, system audio on the right
+        const channelLayout: ChannelLayout =
+          micStream && desktopStream && channelLayoutSettings.layout === "stereo" ? "stereo" : "mixed"
+        channelLayoutRef.current = channelLayout
+        let output: AudioNode
+        if (channelLayout === "stereo") {
+          destination.channelCount = 2
+          output = audioContext.createChannelMerger(2)
+        } else {
+          output = audioContext.createGain()
+        }
+        output.connect(destination)
+
+        // Every source also gets its own tap, so its track is cut at the same frames as the mix
+        const sourceNodes: Partial<Record<AudioSourceId, AudioNode>> = {}
 
         if (micStream) {
-          const micSource = audioContext.createMediaStreamSource(micStream)
+          // Unplugging the microphone (or picking another) swaps the device behind this node
+          const microphone = new SwappableMicrophone(
+            audioContext,
+            micStream,
+            () =>
+              getMicrophoneConstraints(
+                { ...captureSettings, inputDeviceId: audioSettingsRef.current.inputDeviceId },
+                capabilities,
+              ),
+            (stream) => {
+              micStreamRef.current = stream
+              showToast(`🎙️ Switched to ${stream.getAudioTracks()[0]?.label || "the default microphone"}`, "success")
+            },
+          )
+          microphoneRef.current = microphone
+          const micSource = microphone.output
           const micGain = audioContext.createGain()
-          micGain.gain.value = 1.0
+          micGain.gain.value = getSourceGain(sourceMix.microphone)
           micSource.connect(micGain)
-          micGain.connect(destination)
+          micGain.connect(output, 0, 0)
+          // Activity, meters and the source's own track all follow the gain, so a muted source is silent in each
+          activityMonitor.addSource("microphone", micGain)
+          sourceMeter.addSource("microphone", micGain)
+          sourceNodes.microphone = micGain
+          sourceGainsRef.current.microphone = micGain
         }
 
         if (desktopStream) {
           const desktopSource = audioContext.createMediaStreamSource(desktopStream)
           const desktopGain = audioContext.createGain()
-          desktopGain.gain.value = 0.8
+          desktopGain.gain.value = getSourceGain(sourceMix.system)
           desktopSource.connect(desktopGain)
-          desktopGain.connect(destination)
+          desktopGain.connect(output, 0, channelLayout === "stereo" ? 1 : 0)
+          activityMonitor.addSource("system", desktopGain)
+          sourceMeter.addSource("system", desktopGain)
+          sourceNodes.system = desktopGain
+          sourceGainsRef.current.system = desktopGain
+        }
+        sourceMeterRef.current = sourceMeter
+
+        const mixTap = await PcmTap.create(audioContext, output, channelLayout === "stereo" ? 2 : 1)
+        const sourceTaps: Partial<Record<AudioSourceId, PcmTap>> = {}
+        if (micStream && desktopStream) {
+          for (const [source, node] of Object.entries(sourceNodes) as [AudioSourceId, AudioNode][]) {
+            sourceTaps[source] = await PcmTap.create(audioContext, node, 1)
+          }
         }
+        const chunker = new PcmChunker(audioContext, mixTap, sourceTaps, chunkSettings.overlapSeconds)
+        chunkerRef.current = chunker
 
         const mixedStream = destination.stream
+        // The level meter and silence-aware chunk boundaries follow what is actually recorded
+        setupAudioProcessing(mixedStream)
 
         // Set up MediaRecorder with Safari-compatible formats
         const supportedFormats = browserInfo.isSafari
@@ -924,32 +1225,57 @@ export default function RecorderUI() {
           }
         }
 
+        // One recorder runs for the whole run; chunks come from the PCM tap, not from this recorder
         mediaRecorderRef.current = new MediaRecorder(mixedStream, {
           mimeType: selectedFormat,
-          audioBitsPerSecond: browserInfo.isSafari ? 128000 : 192000, // Lower bitrate for Safari
+          audioBitsPerSecond: captureSettings.bitRate * 1000,
         })
-
-        currentChunkDataRef.current = []
+        // Browsers may round the bitrate to what their encoder supports
+        const recorderBitRate = mediaRecorderRef.current.audioBitsPerSecond
+        if (recorderBitRate && recorderBitRate !== captureSettings.bitRate * 1000) {
+          console.warn(
+            `⚠️ Recording at ${Math.round(recorderBitRate / 1000)} kbps instead of ${captureSettings.bitRate}`,
+          )
+        }
+        console.log(
+          `🎛️ Capturing at ${audioContext.sampleRate} Hz, ${captureSettings.bitRate} kbps, sensitivity ${captureSettings.sensitivity}%`,
+        )
+        const chunkBitRate = captureSettings.bitRate
+        const run = currentChunkNumberRef.current
+        const runStartOffset = chunkStartOffsetRef.current
+        const runSessionId = sessionIdRef.current
+        const recordingData: Blob[] = []
 
         mediaRecorderRef.current.addEventListener("dataavailable", (event) => {
           if (event.data.size > 0) {
-            currentChunkDataRef.current.push(event.data)
+            const sequence = recordingData.length
+            recordingData.push(event.data)
+
+            // Write every slice straight away so a crash or reload loses at most one second
+            saveRecordingSlice({
+              sessionId: runSessionId,
+              chunkNumber: run,
+              startOffset: runStartOffset,
+              sequence,
+              blob: event.data,
+            }).catch((error) => console.error("Failed to store recording slice:", error))
           }
         })
 
-        mediaRecorderRef.current.addEventListener("stop", () => {
-          console.log(`🛑 MediaRecorder stopped for chunk ${currentChunkNumber}`)
-          // Save the current chunk
-          saveCurrentChunk()
+        mediaRecorderRef.current.addEventListener("stop", async () => {
+          console.log(`🛑 MediaRecorder stopped after chunk ${currentChunkNumberRef.current - 1}`)
 
-          // If still recording, restart for next chunk
-          if (isRecordingRef.current) {
-            setTimeout(() => {
-              restartRecordingForNextChunk()
-            }, 100)
-          } else {
-            // Final stop - close audio context
-            audioContext.close()
+          // The final chunk is cut from the tap; the continuous recording is kept for gapless downloads
+          const finalChunk = await chunker.stop()
+          saveCurrentChunk(finalChunk, activityMonitor, chunkBitRate)
+          audioContext.close()
+          if (recordingContextRef.current === audioContext) recordingContextRef.current = null
+
+          if (recordingData.length > 0) {
+            const blob = new Blob(recordingData, { type: recordingData[0].type || selectedFormat })
+            saveRecording({ sessionId: runSessionId, run, startOffset: runStartOffset, blob })
+              .then(() => deleteRecordingSlices(runSessionId, run))
+              .catch((error) => console.error("Failed to store the recording:", error))
           }
         })
 
@@ -958,32 +1284,70 @@ export default function RecorderUI() {
           setError(`Recording error: ${event.error?.message || "Unknown error"}`)
         })
 
-        mediaRecorderRef.current.start(1000) // Record in 1-second chunks
-        console.log(`🎵 Started recording chunk ${currentChunkNumber}`)
+        mediaRecorderRef.current.start(1000) // Record in 1-second slices
+        chunker.start()
+        activityMonitor.start(chunkStartOffsetRef.current)
+        activityMonitorRef.current = activityMonitor
+        setSessionSourceMix(sourceMix)
+        chunkBitRateRef.current = chunkBitRate
+        console.log(`🎵 Started recording chunk ${currentChunkNumberRef.current}`)
       }
 
       setIsRecording(true)
       isRecordingRef.current = true
-      setDuration(0)
+      setIsPaused(false)
+      isPausedRef.current = false
       setChunkDuration(0)
-      setCurrentChunkNumber(1)
-
-      // Reset current session state
-      setTranscript([])
-      setFinalTranscripts([])
-      setAudioChunks([])
+      setCurrentChunkNumber(currentChunkNumberRef.current)
       setCurrentTranscript("")
 
-      // Start chunk timer - automatically save chunks every 30 seconds
+      if (!resume) {
+        // Reset current session state
+        setDuration(0)
+        setTranscript([])
+        setFinalTranscripts([])
+        setFinalSegments([])
+        setTranscriptSources([])
+        setAudioChunks([])
+        setPauses([])
+      } else {
+        // A session interrupted while paused resumes here, which ends that pause
+        const resumedAt = new Date().toISOString()
+        setPauses((prev) => prev.map((pause) => (pause.resumedAt ? pause : { ...pause, resumedAt })))
+      }
+
+      // Start chunk timer - roll over at the target length, or at the first pause near it
+      const boundaryDetector = new ChunkBoundaryDetector(chunkSettings, thresholdScale)
       chunkIntervalRef.current = setInterval(() => {
-        if (isRecordingRef.current && mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-          console.log(`⏰ 30 seconds reached, stopping chunk ${currentChunkNumber}`)
-          // Stop current recording to trigger the save and restart cycle
-          mediaRecorderRef.current.stop()
+        const chunker = chunkerRef.current
+        if (isRecordingRef.current && !isPausedRef.current && chunker) {
+          const elapsed = chunker.elapsedSeconds
+          const level =
+            analyserRef.current && dataArrayRef.current
+              ? readAnalyserLevel(analyserRef.current, dataArrayRef.current)
+              : null
+          const boundary = boundaryDetector.shouldRoll(elapsed, level)
+          if (boundary) {
+            console.log(
+              `⏰ Chunk boundary (${boundary}) at ${elapsed.toFixed(1)}s, cutting chunk ${currentChunkNumberRef.current}`,
+            )
+            boundaryDetector.reset()
+            // The recorder keeps running; the next chunk starts at the exact frame this one ends
+            const monitor = activityMonitorRef.current
+            chunker
+              .cut()
+              .then((chunk) => saveCurrentChunk(chunk, monitor, chunkBitRateRef.current))
+              .catch((error) => console.error("Failed to cut chunk:", error))
+          }
         }
-      }, CHUNK_DURATION * 1000)
+      }, CHUNK_BOUNDARY_POLL_MS)
 
-      showToast(`🚀 Recording started with ${captureMode} capture! Auto-chunking every ${CHUNK_DURATION}s`, "success")
+      showToast(
+        resume
+          ? `▶️ Recording resumed at chunk ${currentChunkNumberRef.current}`
+          : `🚀 Recording started with ${captureMode} capture! Auto-chunking every ${chunkSettings.chunkSeconds}s`,
+        "success",
+      )
     } catch (err) {
       console.error("Error starting recording:", err)
       setError(`❌ Failed to start recording: ${err.message}`)
@@ -996,7 +1360,19 @@ export default function RecorderUI() {
     console.log("🛑 Stopping recording...")
     isRecordingRef.current = false
 
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
+    // Stopping while paused ends the session there; that pause isn't a gap in it
+    if (isPausedRef.current) {
+      isPausedRef.current = false
+      setPauses((prev) => prev.filter((pause) => pause.resumedAt))
+      // The taps only answer the final flush while their context runs; its clock was stopped at the pause
+      recordingContextRef.current?.resume()
+    }
+    setIsPaused(false)
+
+    // Cut the final chunk before the streams are released, then end the continuous recording
+    chunkerRef.current?.stop()
+    chunkerRef.current = null
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
       mediaRecorderRef.current.stop()
     }
 
@@ -1015,26 +1391,137 @@ export default function RecorderUI() {
     showToast("🛑 Recording stopped", "success")
   }
 
+  // Hold the recording without ending the session: the recorder, chunk timer, duration and live captions stop, and
+  // the audio clock is suspended so the next chunk carries on from the same frame after resuming
+  const pauseRecording = async () => {
+    if (!isRecordingRef.current || isPausedRef.current) return
+    isPausedRef.current = true
+    setIsPaused(true)
+
+    const pause: RecordingPause = { offset: getSessionTime(), pausedAt: new Date().toISOString() }
+    setPauses((prev) => [...prev, pause])
+
+    if (mediaRecorderRef.current?.state === "recording") {
+      mediaRecorderRef.current.pause()
+    }
+    // Recognition can't be paused; onend won't restart it while paused, and resume starts it again
+    ;[recognitionRef.current, desktopRecognitionRef.current].forEach((recognition) => {
+      try {
+        recognition?.stop()
+      } catch (error) {
+        console.error("Error pausing speech recognition:", error)
+      }
+    })
+    setCurrentTranscript("")
+
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current)
+    }
+    setAudioLevel(0)
+    setSourceLevels({})
+    setClippingSources({})
+
+    try {
+      await Promise.all([recordingContextRef.current?.suspend(), audioContextRef.current?.suspend()])
+    } catch (error) {
+      console.error("Failed to suspend audio:", error)
+    }
+    console.log(`⏸️ Paused at ${pause.offset.toFixed(1)}s, in chunk ${currentChunkNumberRef.current}`)
+    showToast("⏸️ Recording paused", "success")
+  }
+
+  const resumeRecording = async () => {
+    if (!isRecordingRef.current || !isPausedRef.current) return
+
+    try {
+      await Promise.all([recordingContextRef.current?.resume(), audioContextRef.current?.resume()])
+    } catch (error) {
+      console.error("Failed to resume audio:", error)
+    }
+    // Stopped while the contexts were resuming
+    if (!isRecordingRef.current) return
+
+    isPausedRef.current = false
+    setIsPaused(false)
+    const resumedAt = new Date().toISOString()
+    setPauses((prev) => prev.map((pause) => (pause.resumedAt ? pause : { ...pause, resumedAt })))
+
+    if (mediaRecorderRef.current?.state === "paused") {
+      mediaRecorderRef.current.resume()
+    }
+    ;[recognitionRef.current, desktopRecognitionRef.current].forEach((recognition) => {
+      try {
+        recognition?.start()
+      } catch (error) {
+        console.log("Recognition restart failed:", error)
+      }
+    })
+    visualizeAudio()
+
+    console.log(`▶️ Resumed in chunk ${currentChunkNumberRef.current}`)
+    showToast(`▶️ Recording resumed at chunk ${currentChunkNumberRef.current}`, "success")
+  }
+
+  const handleTogglePause = () => {
+    if (isPaused) {
+      resumeRecording()
+    } else {
+      pauseRecording()
+    }
+  }
+
   const handleToggleRecording = () => {
     if (isRecording) {
       stopRecording()
     } else {
+      setInterruptedSession(null)
       startRecording()
     }
   }
 
+  // Continue an interrupted session where it left off
+  const handleResumeInterruptedSession = () => {
+    setInterruptedSession(null)
+    startRecording({ resume: true })
+  }
+
+  // Keep the recovered audio and transcript as a finished session
+  const handleFinalizeInterruptedSession = () => {
+    saveSessionToHistory({
+      sessionId,
+      liveTranscript: transcript,
+      finalTranscripts,
+      finalSegments,
+      transcriptSources,
+      audioChunks,
+      totalDuration: duration,
+      captureMode,
+      userName,
+      timestamp: new Date().toISOString(),
+      sourceMix: sessionSourceMix || undefined,
+      pauses,
+    })
+    setInterruptedSession(null)
+    showToast("📚 Recovered session saved to history", "success")
+  }
+
   // Reset session function
   const handleResetSession = () => {
     // Save current session to history before resetting
     if (transcript.length > 0 || finalTranscripts.length > 0 || audioChunks.length > 0) {
       const sessionData: SessionData = {
+        sessionId,
         liveTranscript: transcript,
         finalTranscripts,
+        finalSegments,
+        transcriptSources,
         audioChunks,
         totalDuration: duration,
         captureMode,
         userName,
         timestamp: new Date().toISOString(),
+        sourceMix: sessionSourceMix || undefined,
+        pauses,
       }
       saveSessionToHistory(sessionData)
       showToast("📚 Session saved to history before reset", "success")
@@ -1042,53 +1529,143 @@ export default function RecorderUI() {
 
     setAudioChunks([])
     setFinalTranscripts([])
+    setFinalSegments([])
+    setTranscriptSources([])
     setTranscript([])
     setCurrentTranscript("")
     setDuration(0)
     setChunkDuration(0)
+    setSessionSourceMix(null)
+    setPauses([])
+    currentChunkNumberRef.current = 1
+    chunkStartOffsetRef.current = 0
     setCurrentChunkNumber(1)
+    const newSessionId = createSessionId()
+    sessionIdRef.current = newSessionId
+    setSessionId(newSessionId)
     clearSessionData()
     showToast("🗑️ Session reset!", "success")
   }
 
   // Handle transcript completion from FinalTranscript component
-  const handleTranscriptComplete = (transcript: string, chunkIndex: number) => {
+  const handleTranscriptComplete = (
+    transcript: string,
+    chunkIndex: number,
+    segments: TranscriptSegment[],
+    source: TranscriptionSource,
+  ) => {
     setFinalTranscripts((prev) => {
       const newTranscripts = [...prev]
       newTranscripts[chunkIndex] = transcript
       return newTranscripts
     })
+    setFinalSegments((prev) => {
+      const newSegments = [...prev]
+      newSegments[chunkIndex] = segments
+      return newSegments
+    })
+    setTranscriptSources((prev) => {
+      const newSources = [...prev]
+      newSources[chunkIndex] = source
+      return newSources
+    })
   }
 
-  // Download merged audio
-  const handleDownloadAudio = async () => {
-    if (audioChunks.length === 0) {
-      showToast("No audio recorded to download.", "error")
+  // Open the export dialog; clicking again while it encodes cancels
+  const handleDownloadAudioClick = () => {
+    if (audioExportAbortRef.current) {
+      audioExportAbortRef.current.abort()
       return
     }
+    setAudioExportDialogOpen(true)
+  }
 
-    try {
-      showToast("Merging audio chunks...", "loading")
-      const mergedBlob = await mergeAudioBlobs(audioChunks)
+  // Recordings of this session in the container they were captured in, one file per recording run
+  const downloadOriginalRecordings = async (baseName: string) => {
+    const recordings = await getSessionRecordings(sessionIdRef.current)
+    if (recordings.length === 0) {
+      showToast("No original recording stored for this session.", "error")
+      return
+    }
 
-      const url = URL.createObjectURL(mergedBlob)
+    recordings.forEach((recording, index) => {
+      const part = recordings.length > 1 ? `-part${index + 1}` : ""
+      const url = URL.createObjectURL(recording.blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `complete-recording-${new Date().toISOString().replace(/[:.]/g, "-")}.mp3`
+      a.download = `${baseName}${part}.${getRecordingExtension(recording.blob)}`
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
+    })
+    showToast("Original recording download started!", "success")
+  }
+
+  const handleDownloadAudio = async (choice: AudioExportChoice) => {
+    if (audioChunks.length === 0) {
+      showToast("No audio recorded to download.", "error")
+      return
+    }
+
+    const baseName = `complete-recording-${new Date().toISOString().replace(/[:.]/g, "-")}`
+    if (choice.format === "original") {
+      downloadOriginalRecordings(baseName).catch((error) => {
+        console.error("Failed to download the original recording:", error)
+        showToast("Failed to download the original recording", "error")
+      })
+      return
+    }
 
-      showToast("Complete audio download started!", "success")
+    const { format, sampleRate, bitRate, mono } = choice
+    const abortController = new AbortController()
+    audioExportAbortRef.current = abortController
+    setAudioExportProgress(0)
+    const fileName = `${baseName}.${AUDIO_EXPORT_FORMATS[format].extension}`
+
+    try {
+      // Where supported, the audio is written straight to a file as it's encoded instead of being collected in memory
+      const fileHandle = await pickExportFile(fileName, format)
+      const sink = fileHandle ? await createFileSink(fileHandle) : createBlobSink(AUDIO_EXPORT_FORMATS[format].mimeType)
+
+      showToast("Exporting audio...", "loading")
+      const exportedBlob = await exportAudioChunks(audioChunks, sink, {
+        format,
+        sampleRate,
+        bitRate,
+        mono,
+        onProgress: setAudioExportProgress,
+        signal: abortController.signal,
+      })
+
+      if (exportedBlob) {
+        const url = URL.createObjectURL(exportedBlob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = fileName
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+        showToast("Complete audio download started!", "success")
+      } else {
+        showToast(`💾 Audio saved to ${fileHandle?.name}`, "success")
+      }
     } catch (error) {
-      console.error("Failed to merge audio:", error)
-      showToast("Failed to merge audio chunks", "error")
+      if (isAbortError(error)) {
+        showToast("Audio export cancelled", "success")
+        return
+      }
+      console.error("Failed to export audio:", error)
+      showToast("Failed to export audio", "error")
+    } finally {
+      audioExportAbortRef.current = null
+      setAudioExportProgress(null)
     }
   }
 
   const handleDownloadTranscript = () => {
-    const transcriptText = formatLiveTranscriptForContext(transcript, userName)
+    const transcriptText = formatLiveTranscriptForContext(transcript, userName, pauses)
     const blob = new Blob([transcriptText], { type: "text/plain" })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
@@ -1102,7 +1679,7 @@ export default function RecorderUI() {
 
   // Timer effects
   useEffect(() => {
-    if (isRecording) {
+    if (isRecording && !isPaused) {
       intervalRef.current = setInterval(() => {
         setDuration((prev) => prev + 1)
         setChunkDuration((prev) => prev + 1)
@@ -1118,13 +1695,13 @@ export default function RecorderUI() {
         clearInterval(intervalRef.current)
       }
     }
-  }, [isRecording])
+  }, [isRecording, isPaused])
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       isRecordingRef.current = false
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
         mediaRecorderRef.current.stop()
       }
       if (chunkIntervalRef.current) {
@@ -1158,7 +1735,7 @@ export default function RecorderUI() {
           <div className="text-center space-y-2">
             <h1 className="text-3xl sm:text-4xl font-bold text-slate-800 dark:text-slate-100">Sesame Recorder</h1>
             <p className="text-slate-600 dark:text-slate-400">
-              Record, transcribe, and analyze your AI conversations with automatic 30-second chunking.
+              Record, transcribe, and analyze your AI conversations with automatic chunking.
             </p>
             {browserInfo.isSafari && (
               <div className="flex items-center justify-center space-x-2 text-sm text-orange-600 dark:text-orange-400">
@@ -1190,6 +1767,33 @@ export default function RecorderUI() {
           </TabsList>
 
           <TabsContent value="recorder" className="space-y-6">
+            {/* Interrupted Session Recovery */}
+            {interruptedSession && !isRecording && (
+              <Alert className="border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20">
+                <LifeBuoy className="h-4 w-4" />
+                <AlertTitle>Recover interrupted session</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p>
+                    The last recording was interrupted. Recovered {interruptedSession.chunkCount} audio chunks
+                    {interruptedSession.recoveredChunks > 0 &&
+                      ` (${interruptedSession.recoveredChunks} rebuilt from unsaved audio)`}
+                    , {formatDuration(interruptedSession.totalDuration)} recorded and{" "}
+                    {interruptedSession.transcriptEntries} live transcript entries.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Button onClick={handleResumeInterruptedSession} size="sm">
+                      <Play className="h-3 w-3 mr-1" />
+                      Resume Recording
+                    </Button>
+                    <Button onClick={handleFinalizeInterruptedSession} size="sm" variant="outline">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Finalize Session
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* User Name Input */}
             <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm">
               <CardContent className="p-4">
@@ -1255,6 +1859,37 @@ export default function RecorderUI() {
                     </div>
                   </div>
 
+                  {/* Stereo split, only meaningful when both sources are captured */}
+                  {captureMode === "both" && (
+                    <div className="bg-slate-100 dark:bg-slate-800/50 rounded-lg p-4 w-full max-w-md space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs text-slate-600 dark:text-slate-400">
+                          Stereo split (mic left / system right)
+                        </Label>
+                        <Switch
+                          checked={channelLayoutSettings.layout === "stereo"}
+                          disabled={isRecording}
+                          onCheckedChange={(checked) =>
+                            updateChannelLayoutSettings({ layout: checked ? "stereo" : "mixed" })
+                          }
+                        />
+                      </div>
+                      {channelLayoutSettings.layout === "stereo" && (
+                        <div className="flex items-center justify-between">
+                          <Label className="text-xs text-slate-600 dark:text-slate-400">
+                            Transcribe channels separately
+                          </Label>
+                          <Switch
+                            checked={channelLayoutSettings.transcribeChannelsSeparately}
+                            onCheckedChange={(checked) =>
+                              updateChannelLayoutSettings({ transcribeChannelsSeparately: checked })
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Safari Desktop Warning */}
                   {browserInfo.isSafari && (captureMode === "desktop" || captureMode === "both") && (
                     <Alert>
@@ -1279,26 +1914,46 @@ export default function RecorderUI() {
                     </Button>
                   )}
 
-                  {/* Main Recording Button */}
-                  <Button
-                    onClick={handleToggleRecording}
-                    size="lg"
-                    className={`h-24 w-24 rounded-full text-white shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-100 focus-visible:ring-4 focus-visible:ring-offset-2 focus-visible:ring-offset-background ${
-                      isRecording
-                        ? "bg-red-500 hover:bg-red-600 animate-pulse ring-red-300"
-                        : "bg-emerald-500 hover:bg-emerald-600 ring-emerald-300"
-                    }`}
-                  >
-                    {isRecording ? <MicOff className="h-8 w-8" /> : <Mic className="h-8 w-8" />}
-                  </Button>
+                  {/* Main Recording Button, with pause/resume beside it while recording */}
+                  <div className="flex items-center space-x-4">
+                    <Button
+                      onClick={handleToggleRecording}
+                      size="lg"
+                      title={isRecording ? "Stop and end the session" : "Start recording"}
+                      className={`h-24 w-24 rounded-full text-white shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-100 focus-visible:ring-4 focus-visible:ring-offset-2 focus-visible:ring-offset-background ${
+                        isRecording
+                          ? `bg-red-500 hover:bg-red-600 ring-red-300 ${isPaused ? "" : "animate-pulse"}`
+                          : "bg-emerald-500 hover:bg-emerald-600 ring-emerald-300"
+                      }`}
+                    >
+                      {isRecording ? <MicOff className="h-8 w-8" /> : <Mic className="h-8 w-8" />}
+                    </Button>
+                    {isRecording && (
+                      <Button
+                        onClick={handleTogglePause}
+                        variant="outline"
+                        size="lg"
+                        title={isPaused ? "Resume recording" : "Pause recording"}
+                        className="h-14 w-14 rounded-full shadow transition-all duration-300"
+                      >
+                        {isPaused ? <Play className="h-6 w-6" /> : <Pause className="h-6 w-6" />}
+                      </Button>
+                    )}
+                  </div>
 
                   {/* Status and Duration */}
                   <div className="text-center space-y-2">
                     <Badge
-                      variant={isRecording ? "destructive" : "secondary"}
+                      variant={isRecording && !isPaused ? "destructive" : "secondary"}
                       className="text-sm px-3 py-1 transition-colors"
                     >
-                      {isRecording ? `Recording (${captureMode})` : isReady ? "Ready to Record" : "Finished"}
+                      {isRecording
+                        ? isPaused
+                          ? `Paused (${captureMode})`
+                          : `Recording (${captureMode})`
+                        : isReady
+                          ? "Ready to Record"
+                          : "Finished"}
                     </Badge>
                     {speechRecognitionActive && (
                       <Badge variant="outline" className="text-xs ml-2">
@@ -1319,7 +1974,7 @@ export default function RecorderUI() {
                         <div className="flex items-center space-x-1">
                           <span className="text-sm">Chunk {currentChunkNumber}:</span>
                           <span className="font-mono text-sm">
-                            {formatDuration(chunkDuration)}/{CHUNK_DURATION}s
+                            {formatDuration(chunkDuration)}/{chunkSettings.chunkSeconds}s
                           </span>
                         </div>
                       )}
@@ -1347,10 +2002,21 @@ export default function RecorderUI() {
                     <div className="flex items-center justify-center mt-2 text-sm text-slate-500 dark:text-slate-400">
                       <Waves className="h-4 w-4 mr-1" />
                       <span className="transition-opacity duration-300">
-                        {isRecording ? "Live Audio Processing..." : "Audio visualization"}
+                        {isRecording ? (isPaused ? "Paused" : "Live Audio Processing...") : "Audio visualization"}
                       </span>
                     </div>
                   </div>
+
+                  {/* Source Mixer */}
+                  <div className="w-full max-w-md">
+                    <SourceMixer
+                      sources={getCaptureSources(captureMode)}
+                      mix={sourceMix}
+                      onMixChange={handleSourceMixChange}
+                      levels={sourceLevels}
+                      clipping={clippingSources}
+                    />
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -1394,39 +2060,63 @@ export default function RecorderUI() {
                         </div>
                       )}
 
-                      {transcript.map((entry) => (
-                        <div
-                          key={entry.id}
-                          className="space-y-1 animate-in fade-in slide-in-from-bottom-2 duration-300"
-                        >
-                          <div className="flex items-center space-x-2">
-                            <Badge
-                              variant={entry.speaker === "user" ? "default" : "secondary"}
-                              className="text-xs uppercase"
+                      {interleavePauses(transcript, pauses).map((item) => {
+                        if (item.type === "pause") {
+                          return (
+                            <div
+                              key={`pause-${item.pause.pausedAt}`}
+                              className="flex items-center space-x-2 text-xs text-slate-500 dark:text-slate-400"
                             >
-                              {entry.speaker === "user" ? userName || "USER" : "AI ASSISTANT"}
-                            </Badge>
-                            <Badge variant="outline" className="text-xs">
-                              {entry.source === "microphone" ? "mic" : entry.source === "system" ? "desktop" : "manual"}
-                            </Badge>
-                            {entry.confidence && (
+                              <Separator className="flex-1" />
+                              <Pause className="h-3 w-3" />
+                              <span>
+                                {formatPause(item.pause)} at {formatDuration(Math.floor(item.pause.offset))}
+                              </span>
+                              <Separator className="flex-1" />
+                            </div>
+                          )
+                        }
+                        const entry = item.entry
+                        return (
+                          <div
+                            key={entry.id}
+                            className="space-y-1 animate-in fade-in slide-in-from-bottom-2 duration-300"
+                          >
+                            <div className="flex items-center space-x-2">
+                              <Badge
+                                variant={entry.speaker === "user" ? "default" : "secondary"}
+                                className="text-xs uppercase"
+                              >
+                                {entry.speaker === "user" ? userName || "USER" : "AI ASSISTANT"}
+                              </Badge>
                               <Badge variant="outline" className="text-xs">
-                                {Math.round(entry.confidence * 100)}%
+                                {entry.source === "microphone"
+                                  ? "mic"
+                                  : entry.source === "system"
+                                    ? "desktop"
+                                    : "manual"}
                               </Badge>
-                            )}
-                            <span className="text-xs text-slate-500 dark:text-slate-400">{entry.timestamp}</span>
+                              {entry.confidence && (
+                                <Badge variant="outline" className="text-xs">
+                                  {Math.round(entry.confidence * 100)}%
+                                </Badge>
+                              )}
+                              <span className="text-xs text-slate-500 dark:text-slate-400">{entry.timestamp}</span>
+                            </div>
+                            <p className="text-slate-700 dark:text-slate-200 leading-relaxed">{entry.text}</p>
+                            <Separator className="my-2" />
                           </div>
-                          <p className="text-slate-700 dark:text-slate-200 leading-relaxed">{entry.text}</p>
-                          <Separator className="my-2" />
-                        </div>
-                      ))}
+                        )
+                      })}
 
                       {transcript.length === 0 && !currentTranscript && (
                         <div className="text-center text-slate-400 dark:text-slate-500 py-12 flex flex-col items-center justify-center">
                           <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
                           <p>Start recording to see live transcription here.</p>
                           <p className="text-xs mt-2">
-                            Audio will be automatically processed in {CHUNK_DURATION}-second chunks
+                            {chunkSettings.boundaryMode === "silence"
+                              ? `Audio will be automatically processed in ${chunkSettings.chunkSeconds}–${getMaxChunkSeconds(chunkSettings)}-second chunks, cut at pauses`
+                              : `Audio will be automatically processed in ${chunkSettings.chunkSeconds}-second chunks`}
                           </p>
                           {browserInfo.isSafari && (
                             <p className="text-xs mt-2 text-orange-600 dark:text-orange-400">
@@ -1450,15 +2140,35 @@ export default function RecorderUI() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <Button
-                    onClick={handleDownloadAudio}
+                    onClick={handleDownloadAudioClick}
                     disabled={audioChunks.length === 0}
                     className="w-full justify-start transition-opacity hover:bg-slate-100 dark:hover:bg-slate-800"
                     variant="outline"
                   >
-                    <FileAudio className="h-4 w-4 mr-2" />
-                    Download Complete Audio
-                    <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">MP3</span>
+                    {audioExportProgress !== null ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Encoding audio... {Math.round(audioExportProgress * 100)}%
+                        <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">Cancel</span>
+                      </>
+                    ) : (
+                      <>
+                        <FileAudio className="h-4 w-4 mr-2" />
+                        Download Complete Audio
+                        <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">MP3 · WAV · FLAC</span>
+                      </>
+                    )}
                   </Button>
+                  {audioExportProgress !== null && <Progress value={audioExportProgress * 100} className="h-1" />}
+                  <AudioExportDialog
+                    open={audioExportDialogOpen}
+                    onOpenChange={setAudioExportDialogOpen}
+                    defaultSampleRate={audioSettings.sampleRate}
+                    defaultBitRate={audioSettings.bitRate}
+                    originalAvailable={!isRecording}
+                    originalUnavailableReason="The original recording is available once recording stops."
+                    onExport={handleDownloadAudio}
+                  />
 
                   <Button
                     onClick={handleDownloadTranscript}
@@ -1504,6 +2214,10 @@ export default function RecorderUI() {
                       <span>API Keys:</span>
                       <span className="font-mono">{geminiApiKeys.length}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Provider:</span>
+                      <span className="font-mono">{TRANSCRIPTION_PROVIDER_NAMES[transcriptionProviderId]}</span>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -1516,24 +2230,46 @@ export default function RecorderUI() {
                 onTranscriptComplete={handleTranscriptComplete}
                 autoStart={true}
                 userName={userName}
-                liveTranscriptContext={formatLiveTranscriptForContext(transcript, userName)}
+                liveTranscript={transcript}
                 onResetSession={handleResetSession}
                 geminiApiKeys={geminiApiKeys}
+                providerId={transcriptionProviderId}
+                existingTranscripts={finalTranscripts}
+                existingSegments={finalSegments}
+                existingSources={transcriptSources}
+                outputDeviceId={audioSettings.outputDeviceId}
               />
             </div>
           </TabsContent>
 
           <TabsContent value="history" className="space-y-6">
-            <RecordingHistory />
+            <RecordingHistory audioSettings={audioSettings} />
           </TabsContent>
 
           <TabsContent value="settings" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Audio Settings */}
-              <AudioSettings onSettingsChange={setAudioSettings} />
+              <div className="space-y-6">
+                {/* Audio Settings */}
+                <AudioSettings onSettingsChange={setAudioSettings} disabled={isRecording} />
+
+                {/* Chunking */}
+                <ChunkSettings onSettingsChange={setChunkSettings} disabled={isRecording} />
+
+                {/* Silence Detection */}
+                <VoiceActivitySettings
+                  onSettingsChange={(settings) => {
+                    voiceActivitySettingsRef.current = settings
+                  }}
+                />
+              </div>
 
-              {/* Gemini Settings */}
-              <GeminiSettings onApiKeysChange={setGeminiApiKeys} />
+              {/* Transcription Provider */}
+              <div className="space-y-6">
+                <TranscriptionProviderSettings onProviderChange={setTranscriptionProviderId} />
+
+                {/* Gemini Settings */}
+                <GeminiSettings onApiKeysChange={setGeminiApiKeys} />
+              </div>
             </div>
           </TabsContent>
         </Tabs>
@@ -0,0 +1,191 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Download } from "lucide-react"
+import type { AudioExportFormat } from "@/lib/audio-export"
+
+export interface AudioExportChoice {
+  format: AudioExportFormat | "original" // "original" downloads the recordings as captured, without re-encoding
+  sampleRate: number
+  bitRate: number // MP3 only
+  mono: boolean
+}
+
+interface AudioExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultSampleRate: number
+  defaultBitRate: number
+  originalAvailable: boolean
+  originalUnavailableReason?: string
+  // Called from the Export click, so the handler may open a save dialog before it awaits anything
+  onExport: (choice: AudioExportChoice) => void
+}
+
+const SAMPLE_RATES = [22050, 44100, 48000]
+const BIT_RATES = [64, 128, 192, 256, 320]
+
+export function AudioExportDialog({
+  open,
+  onOpenChange,
+  defaultSampleRate,
+  defaultBitRate,
+  originalAvailable,
+  originalUnavailableReason,
+  onExport,
+}: AudioExportDialogProps) {
+  const [choice, setChoice] = useState<AudioExportChoice>({
+    format: "mp3",
+    sampleRate: defaultSampleRate,
+    bitRate: defaultBitRate,
+    mono: false,
+  })
+
+  // Start from the current audio settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setChoice((prev) => ({
+      ...prev,
+      format: prev.format === "original" && !originalAvailable ? "mp3" : prev.format,
+      sampleRate: defaultSampleRate,
+      bitRate: defaultBitRate,
+    }))
+  }, [open, defaultSampleRate, defaultBitRate, originalAvailable])
+
+  const updateChoice = <K extends keyof AudioExportChoice>(key: K, value: AudioExportChoice[K]) => {
+    setChoice((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleExport = () => {
+    onOpenChange(false)
+    onExport(choice)
+  }
+
+  const isOriginal = choice.format === "original"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Audio</DialogTitle>
+          <DialogDescription>Choose a format for the complete recording.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs text-slate-600 dark:text-slate-400">Format</Label>
+            <Select
+              value={choice.format}
+              onValueChange={(value) => updateChoice("format", value as AudioExportChoice["format"])}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mp3">MP3 (compressed)</SelectItem>
+                <SelectItem value="wav">WAV (from the MP3 chunks)</SelectItem>
+                <SelectItem value="flac">FLAC (from the MP3 chunks, smaller)</SelectItem>
+                <SelectItem value="original" disabled={!originalAvailable}>
+                  Original (as recorded, no re-encoding)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {!originalAvailable && originalUnavailableReason && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">{originalUnavailableReason}</p>
+            )}
+          </div>
+
+          {isOriginal ? (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Each recording run is saved in the browser&apos;s own format (usually WebM/Opus), one file per run. Sample
+              rate, bit rate and mono don&apos;t apply.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Encoded from the MP3 chunks sent for transcription, so WAV and FLAC keep their compression artifacts.
+                {originalAvailable && " For the audio as it was captured, choose Original."}
+              </p>
+
+              {choice.format === "mp3" && (
+                <div className="space-y-2">
+                  <Label className="text-xs text-slate-600 dark:text-slate-400">Bit Rate</Label>
+                  <Select
+                    value={choice.bitRate.toString()}
+                    onValueChange={(value) => updateChoice("bitRate", Number.parseInt(value))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...new Set([...BIT_RATES, choice.bitRate])]
+                        .sort((a, b) => a - b)
+                        .map((bitRate) => (
+                          <SelectItem key={bitRate} value={bitRate.toString()}>
+                            {bitRate} kbps
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-xs text-slate-600 dark:text-slate-400">Sample Rate</Label>
+                <Select
+                  value={choice.sampleRate.toString()}
+                  onValueChange={(value) => updateChoice("sampleRate", Number.parseInt(value))}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...SAMPLE_RATES, choice.sampleRate])]
+                      .sort((a, b) => a - b)
+                      .map((sampleRate) => (
+                        <SelectItem key={sampleRate} value={sampleRate.toString()}>
+                          {sampleRate / 1000} kHz
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm">Mono</Label>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Mix stereo recordings down to one channel
+                  </p>
+                </div>
+                <Switch checked={choice.mono} onCheckedChange={(checked) => updateChoice("mono", checked)} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,44 +1,118 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
 import { Switch } from "@/components/ui/switch"
-import { Settings, Mic, Volume2, Languages } from "lucide-react"
+import { Settings, Mic, Volume2, Languages, Headphones } from "lucide-react"
+import {
+  BIT_RATE_OPTIONS,
+  DEFAULT_AUDIO_SETTINGS,
+  SAMPLE_RATE_OPTIONS,
+  getAudioCapabilities,
+  loadAudioSettings,
+  saveAudioSettings,
+  type AudioCapabilities,
+  type AudioSettings as AudioSettingsType,
+  type ProcessingConstraint,
+} from "@/lib/audio-settings"
+import {
+  isOutputSelectionSupported,
+  listAudioDevices,
+  startLevelPreview,
+  type AudioDeviceLists,
+} from "@/lib/audio-devices"
 
 interface AudioSettingsProps {
-  onSettingsChange: (settings: AudioSettings) => void
+  onSettingsChange: (settings: AudioSettingsType) => void
+  disabled?: boolean // capture settings apply when a recording starts
 }
 
-export interface AudioSettings {
-  sampleRate: number
-  bitRate: number
-  autoGain: boolean
-  noiseSuppression: boolean
-  echoCancellation: boolean
-  language: string
-  sensitivity: number
-}
+const PROCESSING_SWITCHES: {
+  key: "autoGain" | "noiseSuppression" | "echoCancellation"
+  constraint: ProcessingConstraint
+  label: string
+}[] = [
+  { key: "autoGain", constraint: "autoGainControl", label: "Auto Gain Control" },
+  { key: "noiseSuppression", constraint: "noiseSuppression", label: "Noise Suppression" },
+  { key: "echoCancellation", constraint: "echoCancellation", label: "Echo Cancellation" },
+]
+
+// Radix selects can't hold an empty value, so the system default gets its own
+const SYSTEM_DEFAULT = "system-default"
+
+export function AudioSettings({ onSettingsChange, disabled }: AudioSettingsProps) {
+  const [settings, setSettings] = useState<AudioSettingsType>(DEFAULT_AUDIO_SETTINGS)
+  const [capabilities, setCapabilities] = useState<AudioCapabilities | null>(null)
+  const [devices, setDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] })
+  const [previewLevel, setPreviewLevel] = useState<number | null>(null) // 0-1 while the preview runs
+  const [outputSelectable, setOutputSelectable] = useState(false)
+  const stopPreviewRef = useRef<(() => void) | null>(null)
+
+  const refreshDevices = () => {
+    listAudioDevices()
+      .then(setDevices)
+      .catch((error) => console.error("Failed to list audio devices:", error))
+  }
+
+  // Load saved settings from localStorage on mount, and find out what this browser can do
+  useEffect(() => {
+    setSettings(loadAudioSettings())
+    getAudioCapabilities()
+      .then(setCapabilities)
+      .catch((error) => console.error("Failed to detect audio capabilities:", error))
+
+    setOutputSelectable(isOutputSelectionSupported())
+    refreshDevices()
+    navigator.mediaDevices?.addEventListener("devicechange", refreshDevices)
+    return () => {
+      navigator.mediaDevices?.removeEventListener("devicechange", refreshDevices)
+      stopPreviewRef.current?.()
+    }
+  }, [])
+
+  const stopPreview = () => {
+    stopPreviewRef.current?.()
+    stopPreviewRef.current = null
+    setPreviewLevel(null)
+  }
 
-export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
-  const [settings, setSettings] = useState<AudioSettings>({
-    sampleRate: 44100,
-    bitRate: 128,
-    autoGain: true,
-    noiseSuppression: true,
-    echoCancellation: true,
-    language: "en-US",
-    sensitivity: 50,
-  })
-
-  const updateSetting = <K extends keyof AudioSettings>(key: K, value: AudioSettings[K]) => {
-    const newSettings = { ...settings, [key]: value }
+  const startPreview = async (deviceId: string) => {
+    stopPreview()
+    try {
+      stopPreviewRef.current = await startLevelPreview(deviceId, setPreviewLevel)
+      // Device names are only listed once microphone access has been granted
+      refreshDevices()
+    } catch (error) {
+      console.error("Failed to open the microphone for preview:", error)
+      setPreviewLevel(null)
+    }
+  }
+
+  // The recording needs the microphone to itself
+  useEffect(() => {
+    if (disabled) stopPreview()
+  }, [disabled])
+
+  const updateSetting = <K extends keyof AudioSettingsType>(key: K, value: AudioSettingsType[K]) => {
+    const newSettings = saveAudioSettings({ ...settings, [key]: value })
     setSettings(newSettings)
     onSettingsChange(newSettings)
   }
 
+  const selectInputDevice = (value: string) => {
+    const deviceId = value === SYSTEM_DEFAULT ? "" : value
+    updateSetting("inputDeviceId", deviceId)
+    if (previewLevel !== null) startPreview(deviceId)
+  }
+
+  const isSampleRateSupported = (sampleRate: number) =>
+    !capabilities || capabilities.sampleRates.length === 0 || capabilities.sampleRates.includes(sampleRate)
+
   return (
     <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm transition-colors duration-300">
       <CardHeader>
@@ -48,6 +122,78 @@ export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Devices */}
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Headphones className="h-4 w-4" />
+            <Label className="text-sm font-medium">Devices</Label>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label className="text-xs text-slate-600 dark:text-slate-400">Microphone</Label>
+              <div className="flex items-center space-x-2">
+                <Select value={settings.inputDeviceId || SYSTEM_DEFAULT} onValueChange={selectInputDevice}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SYSTEM_DEFAULT}>System default</SelectItem>
+                    {devices.inputs.map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label || `Microphone ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                    {settings.inputDeviceId &&
+                      !devices.inputs.some((device) => device.deviceId === settings.inputDeviceId) && (
+                        <SelectItem value={settings.inputDeviceId} disabled>
+                          Saved microphone (not connected)
+                        </SelectItem>
+                      )}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 shrink-0"
+                  disabled={disabled}
+                  onClick={() => (previewLevel === null ? startPreview(settings.inputDeviceId) : stopPreview())}
+                >
+                  {previewLevel === null ? "Test" : "Stop"}
+                </Button>
+              </div>
+              {previewLevel !== null && <Progress value={Math.min(100, previewLevel * 300)} className="h-1 mt-2" />}
+              {disabled && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  Switching microphones while recording keeps the session going
+                </p>
+              )}
+            </div>
+
+            {outputSelectable && (
+              <div>
+                <Label className="text-xs text-slate-600 dark:text-slate-400">Playback</Label>
+                <Select
+                  value={settings.outputDeviceId || SYSTEM_DEFAULT}
+                  onValueChange={(value) => updateSetting("outputDeviceId", value === SYSTEM_DEFAULT ? "" : value)}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SYSTEM_DEFAULT}>System default</SelectItem>
+                    {devices.outputs.map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label || `Speaker ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Quality Settings */}
         <div className="space-y-4">
           <div className="flex items-center space-x-2">
@@ -61,16 +207,29 @@ export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
               <Select
                 value={settings.sampleRate.toString()}
                 onValueChange={(value) => updateSetting("sampleRate", Number.parseInt(value))}
+                disabled={disabled}
               >
                 <SelectTrigger className="h-8">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="22050">22.05 kHz</SelectItem>
-                  <SelectItem value="44100">44.1 kHz</SelectItem>
-                  <SelectItem value="48000">48 kHz</SelectItem>
+                  {SAMPLE_RATE_OPTIONS.map((sampleRate) => (
+                    <SelectItem
+                      key={sampleRate}
+                      value={sampleRate.toString()}
+                      disabled={!isSampleRateSupported(sampleRate)}
+                    >
+                      {sampleRate / 1000} kHz{!isSampleRateSupported(sampleRate) && " (not supported)"}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {!isSampleRateSupported(settings.sampleRate) && (
+                <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                  This browser can&apos;t record at {settings.sampleRate / 1000} kHz; the nearest supported rate is
+                  used.
+                </p>
+              )}
             </div>
 
             <div>
@@ -78,15 +237,17 @@ export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
               <Select
                 value={settings.bitRate.toString()}
                 onValueChange={(value) => updateSetting("bitRate", Number.parseInt(value))}
+                disabled={disabled}
               >
                 <SelectTrigger className="h-8">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="64">64 kbps</SelectItem>
-                  <SelectItem value="128">128 kbps</SelectItem>
-                  <SelectItem value="192">192 kbps</SelectItem>
-                  <SelectItem value="320">320 kbps</SelectItem>
+                  {BIT_RATE_OPTIONS.map((bitRate) => (
+                    <SelectItem key={bitRate} value={bitRate.toString()}>
+                      {bitRate} kbps
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -101,26 +262,22 @@ export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
           </div>
 
           <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <Label className="text-xs text-slate-600 dark:text-slate-400">Auto Gain Control</Label>
-              <Switch checked={settings.autoGain} onCheckedChange={(checked) => updateSetting("autoGain", checked)} />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <Label className="text-xs text-slate-600 dark:text-slate-400">Noise Suppression</Label>
-              <Switch
-                checked={settings.noiseSuppression}
-                onCheckedChange={(checked) => updateSetting("noiseSuppression", checked)}
-              />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <Label className="text-xs text-slate-600 dark:text-slate-400">Echo Cancellation</Label>
-              <Switch
-                checked={settings.echoCancellation}
-                onCheckedChange={(checked) => updateSetting("echoCancellation", checked)}
-              />
-            </div>
+            {PROCESSING_SWITCHES.map(({ key, constraint, label }) => {
+              const supported = !capabilities || capabilities.constraints[constraint]
+              return (
+                <div key={key} className="flex items-center justify-between">
+                  <Label className="text-xs text-slate-600 dark:text-slate-400">
+                    {label}
+                    {!supported && " (not supported)"}
+                  </Label>
+                  <Switch
+                    checked={supported && settings[key]}
+                    onCheckedChange={(checked) => updateSetting(key, checked)}
+                    disabled={disabled || !supported}
+                  />
+                </div>
+              )
+            })}
           </div>
         </div>
 
@@ -134,7 +291,11 @@ export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
           <div className="space-y-3">
             <div>
               <Label className="text-xs text-slate-600 dark:text-slate-400">Language</Label>
-              <Select value={settings.language} onValueChange={(value) => updateSetting("language", value)}>
+              <Select
+                value={settings.language}
+                onValueChange={(value) => updateSetting("language", value)}
+                disabled={disabled}
+              >
                 <SelectTrigger className="h-8">
                   <SelectValue />
                 </SelectTrigger>
@@ -161,7 +322,11 @@ export function AudioSettings({ onSettingsChange }: AudioSettingsProps) {
                 min={0}
                 step={5}
                 className="w-full"
+                disabled={disabled}
               />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Higher picks up quieter speech for the level meter, pause detection and speaker activity
+              </p>
             </div>
           </div>
         </div>
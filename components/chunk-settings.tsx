@@ -0,0 +1,121 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Scissors } from "lucide-react"
+import {
+  DEFAULT_CHUNK_SETTINGS,
+  MAX_CHUNK_SECONDS,
+  MAX_EXTENSION_SECONDS,
+  MAX_OVERLAP_SECONDS,
+  MIN_CHUNK_SECONDS,
+  getMaxChunkSeconds,
+  loadChunkSettings,
+  saveChunkSettings,
+  type ChunkSettings as ChunkSettingsType,
+} from "@/lib/chunk-boundaries"
+
+interface ChunkSettingsProps {
+  onSettingsChange: (settings: ChunkSettingsType) => void
+  disabled?: boolean // chunking can't change while a recording is running
+}
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m${seconds % 60 ? ` ${seconds % 60}s` : ""}` : `${seconds}s`
+
+export function ChunkSettings({ onSettingsChange, disabled }: ChunkSettingsProps) {
+  const [settings, setSettings] = useState<ChunkSettingsType>(DEFAULT_CHUNK_SETTINGS)
+
+  // Load saved chunking from localStorage on mount
+  useEffect(() => {
+    setSettings(loadChunkSettings())
+  }, [])
+
+  const updateSetting = <K extends keyof ChunkSettingsType>(key: K, value: ChunkSettingsType[K]) => {
+    const newSettings = saveChunkSettings({ ...settings, [key]: value })
+    setSettings(newSettings)
+    onSettingsChange(newSettings)
+  }
+
+  return (
+    <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm transition-colors duration-300">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Scissors className="h-5 w-5" />
+          <span>Chunking</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">
+            Chunk length: {formatSeconds(settings.chunkSeconds)}
+          </Label>
+          <Slider
+            value={[settings.chunkSeconds]}
+            onValueChange={([value]) => updateSetting("chunkSeconds", value)}
+            min={MIN_CHUNK_SECONDS}
+            max={MAX_CHUNK_SECONDS}
+            step={5}
+            disabled={disabled}
+            className="w-full"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-slate-600 dark:text-slate-400">Cut chunks at a pause in speech</Label>
+          <Switch
+            checked={settings.boundaryMode === "silence"}
+            disabled={disabled}
+            onCheckedChange={(checked) => updateSetting("boundaryMode", checked ? "silence" : "fixed")}
+          />
+        </div>
+
+        {settings.boundaryMode === "silence" && (
+          <div>
+            <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">
+              Wait for a pause up to: {formatSeconds(settings.maxExtensionSeconds)} past the target
+            </Label>
+            <Slider
+              value={[settings.maxExtensionSeconds]}
+              onValueChange={([value]) => updateSetting("maxExtensionSeconds", value)}
+              min={0}
+              max={MAX_EXTENSION_SECONDS}
+              step={1}
+              disabled={disabled}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        <div>
+          <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">
+            Overlap: {settings.overlapSeconds > 0 ? formatSeconds(settings.overlapSeconds) : "off"}
+          </Label>
+          <Slider
+            value={[settings.overlapSeconds]}
+            onValueChange={([value]) => updateSetting("overlapSeconds", value)}
+            min={0}
+            max={MAX_OVERLAP_SECONDS}
+            step={1}
+            disabled={disabled}
+            className="w-full"
+          />
+        </div>
+
+        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3 text-xs text-slate-600 dark:text-slate-400 space-y-1">
+          <p>• Shorter chunks give final transcripts sooner; longer chunks give the model more context</p>
+          <p>• Overlap keeps the end of the previous chunk with each chunk so words at the seam are heard in full</p>
+          <p>
+            •{" "}
+            {settings.boundaryMode === "silence"
+              ? `Chunks end at the first pause after ~${formatSeconds(settings.chunkSeconds)}, never later than ${formatSeconds(getMaxChunkSeconds(settings))}`
+              : `Chunks end exactly every ${formatSeconds(settings.chunkSeconds)}, even mid-word`}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
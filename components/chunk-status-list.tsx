@@ -0,0 +1,249 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { History, Loader2, MessageSquareText, RefreshCw, RotateCcw } from "lucide-react"
+import {
+  formatTranscriptionSource,
+  type TranscriptionProviderId,
+  type TranscriptionSource,
+  type TranscriptionTarget,
+} from "@/lib/transcription-providers"
+import type { ChunkJobState } from "@/lib/transcription-queue"
+import type { TranscriptionError } from "@/lib/transcription-errors"
+import type { TranscriptSegment } from "@/lib/transcript-segments"
+
+// One transcription of a chunk; re-runs add versions instead of replacing the old one
+export interface ChunkVersion {
+  transcript: string
+  segments: TranscriptSegment[]
+  source?: TranscriptionSource
+  instructions?: string
+  createdAt: string
+}
+
+// How to run a chunk again
+export interface ChunkRerunOptions {
+  providerId: TranscriptionProviderId
+  model?: string
+  instructions?: string
+}
+
+interface ChunkStatus {
+  duration: number
+  startOffset: number
+  skipped: boolean // silent, never sent
+  state?: ChunkJobState
+  error?: TranscriptionError
+  transcript?: string
+  source?: TranscriptionSource // of the transcript, or of the attempt that failed
+  versions: ChunkVersion[]
+  activeVersion?: number
+}
+
+interface ChunkStatusListProps {
+  chunks: ChunkStatus[]
+  targets: TranscriptionTarget[]
+  defaultTarget: TranscriptionTarget
+  onRetry: (chunkIndex: number) => void
+  onRerun: (chunkIndex: number, options: ChunkRerunOptions) => void
+  onUseVersion: (chunkIndex: number, versionIndex: number) => void
+}
+
+type ChunkRowState = ChunkJobState | "pending" | "skipped"
+
+const ROW_STATE_STYLES: Record<ChunkRowState, string> = {
+  pending: "text-slate-400 dark:text-slate-500",
+  skipped: "text-slate-400 dark:text-slate-500",
+  queued: "text-slate-500 dark:text-slate-400",
+  running: "text-purple-700 border-purple-400 dark:text-purple-300",
+  done: "text-green-700 border-green-400 dark:text-green-400",
+  failed: "text-red-600 border-red-400 dark:text-red-400",
+  stopped: "text-slate-400 border-dashed border-slate-300 dark:text-slate-500",
+}
+
+const targetId = (target: { providerId: TranscriptionProviderId; model?: string }) =>
+  `${target.providerId}:${target.model || ""}`
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+function ChunkStatusRow({
+  chunkIndex,
+  chunk,
+  targets,
+  defaultTarget,
+  onRetry,
+  onRerun,
+  onUseVersion,
+}: Omit<ChunkStatusListProps, "chunks"> & { chunkIndex: number; chunk: ChunkStatus }) {
+  const [selectedTarget, setSelectedTarget] = useState(targetId(defaultTarget))
+  const [showPrompt, setShowPrompt] = useState(false)
+  const [instructions, setInstructions] = useState(chunk.versions[chunk.activeVersion ?? -1]?.instructions || "")
+  const [showVersions, setShowVersions] = useState(false)
+
+  const state: ChunkRowState = chunk.state || (chunk.transcript ? "done" : chunk.skipped ? "skipped" : "pending")
+  const isBusy = state === "queued" || state === "running"
+  const target = targets.find((entry) => targetId(entry) === selectedTarget) || defaultTarget
+
+  const rerun = (withInstructions?: string) =>
+    onRerun(chunkIndex, {
+      providerId: target.providerId,
+      model: target.model,
+      instructions: withInstructions?.trim() || undefined,
+    })
+
+  return (
+    <div className="py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-medium w-16">Chunk {chunkIndex + 1}</span>
+        <span className="text-slate-500 font-mono">
+          {formatTime(chunk.startOffset)}–{formatTime(chunk.startOffset + chunk.duration)}
+        </span>
+        <Badge variant="outline" className={`text-[10px] ${ROW_STATE_STYLES[state]}`} title={chunk.error?.message}>
+          {state}
+          {state === "running" && <Loader2 className="h-2 w-2 ml-1 animate-spin" />}
+        </Badge>
+        {chunk.source && (state === "done" || state === "failed") && (
+          <span className="text-slate-500 truncate max-w-[200px]">{formatTranscriptionSource(chunk.source)}</span>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          {(state === "failed" || state === "stopped") && (
+            <Button onClick={() => onRetry(chunkIndex)} variant="outline" size="sm" className="h-6 px-2 text-xs">
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry
+            </Button>
+          )}
+          <Select value={selectedTarget} onValueChange={setSelectedTarget} disabled={isBusy}>
+            <SelectTrigger className="h-6 w-[170px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map((entry) => (
+                <SelectItem key={targetId(entry)} value={targetId(entry)} className="text-xs">
+                  {entry.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => rerun(instructions)}
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={isBusy}
+            title={`Transcribe chunk ${chunkIndex + 1} again with ${target.label}`}
+          >
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Re-transcribe
+          </Button>
+          <Button
+            onClick={() => setShowPrompt((prev) => !prev)}
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            title="Edit prompt and rerun"
+          >
+            <MessageSquareText className="h-3 w-3" />
+          </Button>
+          {chunk.versions.length > 1 && (
+            <Button
+              onClick={() => setShowVersions((prev) => !prev)}
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1 text-xs"
+              title="Compare versions"
+            >
+              <History className="h-3 w-3 mr-1" />
+              {chunk.versions.length}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {chunk.error && state === "failed" && (
+        <p className="text-xs text-red-600 dark:text-red-400">{chunk.error.message}</p>
+      )}
+
+      {showPrompt && (
+        <div className="space-y-2">
+          <Textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="Extra instructions, e.g. names and terms that were misheard, or the language spoken"
+            className="text-xs min-h-[60px]"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-slate-500">
+              {target.providerId === "offline-whisper"
+                ? "Offline Whisper doesn't take instructions"
+                : "Added to the prompt together with the usual context"}
+            </span>
+            <Button onClick={() => rerun(instructions)} size="sm" className="h-6 px-2 text-xs" disabled={isBusy}>
+              <RefreshCw className="h-3 w-3 mr-1" />
+              Rerun with prompt
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showVersions && (
+        <div className="space-y-2">
+          {chunk.versions.map((version, versionIndex) => (
+            <div
+              key={versionIndex}
+              className={`rounded border p-2 text-xs space-y-1 ${
+                versionIndex === chunk.activeVersion
+                  ? "border-purple-300 dark:border-purple-700"
+                  : "border-slate-200 dark:border-slate-700"
+              }`}
+            >
+              <div className="flex items-center gap-2 text-slate-500">
+                <span className="font-medium">v{versionIndex + 1}</span>
+                {version.source && <span>{formatTranscriptionSource(version.source)}</span>}
+                <span>{new Date(version.createdAt).toLocaleTimeString()}</span>
+                {versionIndex === chunk.activeVersion ? (
+                  <Badge variant="outline" className="ml-auto text-[10px]">
+                    In use
+                  </Badge>
+                ) : (
+                  <Button
+                    onClick={() => onUseVersion(chunkIndex, versionIndex)}
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-5 px-2 text-xs"
+                    disabled={isBusy}
+                  >
+                    Use this version
+                  </Button>
+                )}
+              </div>
+              {version.instructions && <p className="italic text-slate-500">Prompt: {version.instructions}</p>}
+              <p className="whitespace-pre-wrap text-slate-700 dark:text-slate-200 max-h-32 overflow-y-auto">
+                {version.transcript}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Status of every chunk, with retry, re-transcribe and edit-prompt actions and the versions of each transcript
+export function ChunkStatusList({ chunks, ...rowProps }: ChunkStatusListProps) {
+  return (
+    <div className="max-h-80 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700 rounded-lg border border-slate-200 dark:border-slate-700 px-3">
+      {chunks.map((chunk, chunkIndex) => (
+        <ChunkStatusRow key={chunkIndex} chunkIndex={chunkIndex} chunk={chunk} {...rowProps} />
+      ))}
+    </div>
+  )
+}
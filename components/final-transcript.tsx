@@ -1,29 +1,103 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Download, Loader2, Clock, ExternalLink, Sparkles, Zap, RotateCcw } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { transcribeMP3WithGemini } from "@/lib/gemini-actions"
+import { SessionAudioPlayer, type SessionAudioPlayerHandle } from "@/components/session-audio-player"
+import { ChunkStatusList, type ChunkRerunOptions, type ChunkVersion } from "@/components/chunk-status-list"
+import { convertToMp3 } from "@/lib/audio-utils"
+import {
+  buildLiveTranscriptWindow,
+  buildPreviousTranscriptTail,
+  loadTranscriptContextLevel,
+} from "@/lib/transcription-context"
+import {
+  formatSegmentsWithTimestamps,
+  formatTimestamp,
+  formatUtterancesAsText,
+  toSessionSegments,
+  type TranscriptSegment,
+} from "@/lib/transcript-segments"
+import {
+  createTranscriptionProvider,
+  listTranscriptionTargets,
+  formatTranscriptionSource,
+  getTranscriptionSource,
+  transcribeWithRetries,
+  type TranscriptionProviderId,
+  type TranscriptionResult,
+  type TranscriptionSource,
+} from "@/lib/transcription-providers"
+import { getTranscriptionChannels, type ChannelLayout, type SourceActivitySpan } from "@/lib/source-tracks"
+import { joinTranscripts, stitchUtterances, withLeadIn } from "@/lib/transcript-stitching"
+import { TranscriptionQueue, type ChunkJobState } from "@/lib/transcription-queue"
+import { countHealthyApiKeys } from "@/lib/api-key-pool"
+import {
+  TRANSCRIPTION_ERROR_LABELS,
+  TranscriptionFailure,
+  createTranscriptionError,
+  isFatalTranscriptionError,
+  toTranscriptionError,
+  type TranscriptionError,
+} from "@/lib/transcription-errors"
+import {
+  restoreTrimmedTimes,
+  summarizeVoiceActivity,
+  withTrimmedSilences,
+  type ChunkVoiceActivity,
+} from "@/lib/voice-activity"
 
 interface AudioChunk {
   blob: Blob
   timestamp: string
   duration: number
   chunkNumber: number
+  startOffset?: number
+  channelLayout?: ChannelLayout
+  sourceActivity?: SourceActivitySpan[]
+  leadIn?: Blob // overlap before the chunk, prepended for transcription
+  leadInSeconds?: number
+  voiceActivity?: ChunkVoiceActivity
+  trimmed?: Blob // uploaded instead of `blob` when long pauses were cut out
+}
+
+interface LiveTranscriptEntry {
+  speaker: "user" | "ai"
+  text: string
+  offset?: number
+}
+
+// A chunk's transcription, before it is stitched to the previous chunk
+interface ChunkTranscription {
+  result: TranscriptionResult
+  leadInSeconds: number
+  chunkStart: number
+  source: TranscriptionSource
+  instructions?: string
 }
 
 interface FinalTranscriptProps {
   audioChunks: AudioChunk[]
-  onTranscriptComplete: (transcript: string, chunkIndex: number) => void
+  onTranscriptComplete: (
+    transcript: string,
+    chunkIndex: number,
+    segments: TranscriptSegment[],
+    source: TranscriptionSource,
+  ) => void
   autoStart?: boolean
   userName?: string
-  liveTranscriptContext?: string
+  liveTranscript?: LiveTranscriptEntry[]
   onResetSession?: () => void
   geminiApiKeys: string[]
+  providerId?: TranscriptionProviderId
+  existingTranscripts?: string[]
+  existingSegments?: TranscriptSegment[][]
+  existingSources?: TranscriptionSource[]
+  outputDeviceId?: string // speaker for session playback
 }
 
 export function FinalTranscript({
@@ -31,21 +105,45 @@ export function FinalTranscript({
   onTranscriptComplete,
   autoStart = false,
   userName,
-  liveTranscriptContext,
+  liveTranscript = [],
   onResetSession,
   geminiApiKeys: propApiKeys,
+  providerId = "gemini",
+  existingTranscripts,
+  existingSegments,
+  existingSources,
+  outputDeviceId,
 }: FinalTranscriptProps) {
   const [isTranscribing, setIsTranscribing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [error, setError] = useState<string | null>(null)
+  // The latest chunk failure, shown above the chunks
+  const [error, setError] = useState<{ chunkIndex: number; failure: TranscriptionError } | null>(null)
   const [completedTranscripts, setCompletedTranscripts] = useState<string[]>([])
+  const [completedSegments, setCompletedSegments] = useState<TranscriptSegment[][]>([])
+  const [completedSources, setCompletedSources] = useState<TranscriptionSource[]>([])
   const [transcriptionStatus, setTranscriptionStatus] = useState("")
-  const [currentChunkIndex, setCurrentChunkIndex] = useState(0)
+  const [chunkStates, setChunkStates] = useState<Record<number, ChunkJobState>>({})
+  const [chunkErrors, setChunkErrors] = useState<Record<number, TranscriptionError>>({})
+  // Every transcription of a chunk, oldest first, and which one is in use
+  const [chunkVersions, setChunkVersions] = useState<Record<number, ChunkVersion[]>>({})
+  const [activeVersions, setActiveVersions] = useState<Record<number, number>>({})
   const [processedChunks, setProcessedChunks] = useState<Set<number>>(new Set())
   const [apiKeyUsage, setApiKeyUsage] = useState<{ [key: number]: number }>({})
   const [geminiApiKeys, setGeminiApiKeys] = useState<string[]>([])
-
-  const processingRef = useRef(false)
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  // Read while chunks are processed in a loop, where state would be stale
+  const completedTranscriptsRef = useRef<string[]>([])
+  const liveTranscriptRef = useRef(liveTranscript)
+  liveTranscriptRef.current = liveTranscript
+  const playerRef = useRef<SessionAudioPlayerHandle>(null)
+  const segmentElementsRef = useRef<Record<string, HTMLDivElement | null>>({})
+  // Gemini key index each chunk was last sent with
+  const chunkKeysRef = useRef<Record<number, number>>({})
+  // Provider, model and prompt for chunks queued to run again; cleared once their new version is in
+  const rerunOptionsRef = useRef<Record<number, ChunkRerunOptions>>({})
+  // Provider and model of each chunk's last failed attempt, shown next to its error
+  const failedSourcesRef = useRef<Record<number, TranscriptionSource>>({})
 
   // Load API keys from localStorage on mount
   useEffect(() => {
@@ -71,6 +169,43 @@ export function FinalTranscript({
     }
   }, [propApiKeys])
 
+  // Treat transcripts restored with the session as done so their chunks are not sent again
+  useEffect(() => {
+    if (!existingTranscripts || existingTranscripts.length === 0) return
+
+    const restoredIndices = existingTranscripts
+      .map((transcript, index) => (transcript ? index : -1))
+      .filter((index) => index >= 0 && !processedChunks.has(index))
+
+    if (restoredIndices.length === 0) return
+
+    restoredIndices.forEach((index) => {
+      completedTranscriptsRef.current[index] = existingTranscripts[index]
+    })
+    setCompletedTranscripts((prev) => {
+      const newTranscripts = [...prev]
+      restoredIndices.forEach((index) => {
+        newTranscripts[index] = existingTranscripts[index]
+      })
+      return newTranscripts
+    })
+    setCompletedSegments((prev) => {
+      const newSegments = [...prev]
+      restoredIndices.forEach((index) => {
+        newSegments[index] = existingSegments?.[index] || []
+      })
+      return newSegments
+    })
+    setCompletedSources((prev) => {
+      const newSources = [...prev]
+      restoredIndices.forEach((index) => {
+        if (existingSources?.[index]) newSources[index] = existingSources[index]
+      })
+      return newSources
+    })
+    setProcessedChunks((prev) => new Set([...prev, ...restoredIndices]))
+  }, [existingTranscripts, existingSegments, existingSources, processedChunks])
+
   const showToast = (message: string, type: "success" | "error" | "loading" = "success") => {
     const notification = document.createElement("div")
     notification.className = `fixed top-4 right-4 z-50 p-4 rounded-lg shadow-lg text-white transition-all duration-300 ${
@@ -93,203 +228,298 @@ export function FinalTranscript({
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
   }
 
-  // Get API key for current chunk using rotation
-  const getApiKeyForChunk = (chunkIndex: number): string => {
-    if (geminiApiKeys.length === 0) {
-      throw new Error("No Gemini API keys configured")
-    }
-
-    const keyIndex = chunkIndex % geminiApiKeys.length
-    const apiKey = geminiApiKeys[keyIndex]
-
+  const trackKeyUsage = (keyIndex: number, chunkIndex: number) => {
+    chunkKeysRef.current[chunkIndex] = keyIndex
     // Track usage
     setApiKeyUsage((prev) => ({
       ...prev,
       [keyIndex]: (prev[keyIndex] || 0) + 1,
     }))
-
-    console.log(`🔑 Using API key ${keyIndex + 1}/${geminiApiKeys.length} for chunk ${chunkIndex + 1}`)
-    return apiKey
   }
 
-  // Convert WebM to MP3 for better Gemini compatibility
-  const convertToMp3 = async (audioBlob: Blob): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = async () => {
-        try {
-          const arrayBuffer = reader.result as ArrayBuffer
-          const audioContext = new (window.AudioContext || window.webkitAudioContext)({
-            sampleRate: 48000,
-          })
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-
-          const numberOfChannels = audioBuffer.numberOfChannels
-          const leftChannel = audioBuffer.getChannelData(0)
-          const rightChannel = numberOfChannels > 1 ? audioBuffer.getChannelData(1) : leftChannel
-
-          const leftPCM = new Int16Array(leftChannel.length)
-          const rightPCM = new Int16Array(rightChannel.length)
-
-          for (let i = 0; i < leftChannel.length; i++) {
-            leftPCM[i] = Math.max(-32768, Math.min(32767, leftChannel[i] * 32767))
-            rightPCM[i] = Math.max(-32768, Math.min(32767, rightChannel[i] * 32767))
-          }
-
-          const mp3encoder = new (window as any).lamejs.Mp3Encoder(
-            numberOfChannels,
-            audioBuffer.sampleRate,
-            192, // High quality
-          )
-
-          const mp3Data = []
-          const sampleBlockSize = 1152
+  // Provider for final transcription; Gemini spreads chunks over the healthy keys in the key pool
+  const provider = useMemo(
+    () => createTranscriptionProvider(providerId, geminiApiKeys, trackKeyUsage),
+    [providerId, geminiApiKeys],
+  )
+  const isProviderConfigured = provider.isConfigured()
+  // What a chunk can be run again with
+  const rerunTargets = useMemo(() => listTranscriptionTargets(geminiApiKeys, providerId), [geminiApiKeys, providerId])
+
+  // Which API key a chunk went to, for status messages
+  const describeChunkRoute = (chunkIndex: number, providerName = provider.name) =>
+    chunkKeysRef.current[chunkIndex] !== undefined
+      ? `with API key ${chunkKeysRef.current[chunkIndex] + 1}`
+      : `via ${providerName}`
+
+  // Session offset of a chunk; older chunks without a stored offset are placed after the previous ones
+  const getChunkStartOffset = (chunkIndex: number): number => {
+    const chunk = audioChunks[chunkIndex]
+    if (chunk?.startOffset !== undefined) return chunk.startOffset
+    return audioChunks.slice(0, chunkIndex).reduce((acc, c) => acc + c.duration, 0)
+  }
 
-          for (let i = 0; i < leftPCM.length; i += sampleBlockSize) {
-            const leftChunk = leftPCM.subarray(i, i + sampleBlockSize)
-            const rightChunk = rightPCM.subarray(i, i + sampleBlockSize)
-            const mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk)
-            if (mp3buf.length > 0) {
-              mp3Data.push(mp3buf)
-            }
-          }
+  // Upload and transcription of one chunk, run in parallel with others by the queue. Context from the previous
+  // chunk's transcript is only included when that chunk has already finished.
+  const transcribeChunk = async (chunkIndex: number): Promise<ChunkTranscription | null> => {
+    const chunk = audioChunks[chunkIndex]
+    // Chunks run again on request may use another provider or model, and may be done or silent already
+    const rerun = rerunOptionsRef.current[chunkIndex]
+    if (!chunk || (completedTranscriptsRef.current[chunkIndex] && !rerun)) return null
+    if (chunk.voiceActivity?.skipped && !rerun) {
+      console.log(`🤫 Skipping chunk ${chunkIndex + 1} (Chunk #${chunk.chunkNumber}): no speech detected`)
+      return null
+    }
 
-          const mp3buf = mp3encoder.flush()
-          if (mp3buf.length > 0) {
-            mp3Data.push(mp3buf)
-          }
+    // What is uploaded: the chunk (with long pauses trimmed, if they were) and the end of the previous one in
+    // front, when it was recorded with overlap
+    const upload = withLeadIn(withTrimmedSilences(chunk))
+    const chunkProvider = rerun
+      ? createTranscriptionProvider(rerun.providerId, geminiApiKeys, trackKeyUsage, rerun.model)
+      : provider
+    delete chunkKeysRef.current[chunkIndex]
+    console.log(`🚀 Processing chunk ${chunkIndex + 1}/${audioChunks.length} (Chunk #${chunk.chunkNumber})`)
+    setTranscriptionStatus(
+      `Processing chunk ${chunkIndex + 1}/${audioChunks.length} ${describeChunkRoute(chunkIndex, chunkProvider.name)}...`,
+    )
+
+    // Stereo chunks can go out as one mono file per source; otherwise convert to MP3 unless the provider
+    // works on the recorded audio directly
+    const channels = await getTranscriptionChannels(upload)
+    let audioBlob: Blob
+    if (
+      channels ||
+      chunkProvider.audioFormat === "original" ||
+      upload.blob.type.includes("mp3") ||
+      upload.blob.type.includes("mpeg")
+    ) {
+      audioBlob = upload.blob
+    } else {
+      audioBlob = await convertToMp3(upload.blob, 192)
+    }
 
-          const mp3Blob = new Blob(mp3Data, { type: "audio/mpeg" })
-          resolve(mp3Blob)
-        } catch (error) {
-          reject(error)
-        }
-      }
-      reader.onerror = reject
-      reader.readAsArrayBuffer(audioBlob)
+    // Context: live captions for this chunk's time window and the end of the previous chunk's transcript
+    const contextLevel = loadTranscriptContextLevel()
+    const chunkStart = getChunkStartOffset(chunkIndex)
+    const liveTranscriptContext = buildLiveTranscriptWindow(
+      liveTranscriptRef.current,
+      userName,
+      chunkStart,
+      chunkStart + chunk.duration,
+      contextLevel,
+    )
+    const previousTranscriptTail = buildPreviousTranscriptTail(
+      completedTranscriptsRef.current[chunkIndex - 1],
+      contextLevel,
+    )
+
+    // Retryable failures, e.g. a rate limit, are sent again after as long as the provider asked for
+    const result = await transcribeWithRetries(chunkProvider, {
+      audio: audioBlob,
+      chunkIndex,
+      durationSeconds: upload.duration,
+      userName,
+      liveTranscriptContext,
+      previousTranscriptTail,
+      sourceActivity: upload.sourceActivity,
+      channels,
+      leadInSeconds: upload.leadInSeconds,
+      instructions: rerun?.instructions,
+      speechSeconds: chunk.voiceActivity?.speechSeconds,
+      onStatus: (status) => setTranscriptionStatus(`Chunk ${chunkIndex + 1}/${audioChunks.length}: ${status}`),
     })
+    if (!result.success) {
+      failedSourcesRef.current[chunkIndex] = getTranscriptionSource(chunkProvider, result.model)
+      throw new TranscriptionFailure(result.error || createTranscriptionError("unknown"))
+    }
+    return {
+      result,
+      leadInSeconds: upload.leadInSeconds,
+      chunkStart,
+      source: getTranscriptionSource(chunkProvider, result.model),
+      instructions: rerun?.instructions,
+    }
   }
 
-  const processAudioChunk = async (chunkIndex: number) => {
-    if (processedChunks.has(chunkIndex) || chunkIndex >= audioChunks.length) {
-      return
-    }
+  // Called by the queue in chunk order, so the previous chunk's transcript is final when the seam is stitched
+  const commitChunk = (chunkIndex: number, transcription: ChunkTranscription | null) => {
+    setProcessedChunks((prev) => new Set([...prev, chunkIndex]))
+    if (!transcription) return
 
+    const { result, leadInSeconds, chunkStart, source, instructions } = transcription
     const chunk = audioChunks[chunkIndex]
-    console.log(`🚀 Processing chunk ${chunkIndex + 1}/${audioChunks.length} (Chunk #${chunk.chunkNumber})`)
+    // Drop the words the lead-in repeats from the previous chunk's transcript
+    const utterances = restoreTrimmedTimes(
+      stitchUtterances(result.utterances || [], leadInSeconds, completedTranscriptsRef.current[chunkIndex - 1]),
+      chunk?.voiceActivity,
+    )
+    const transcript = result.utterances?.length ? formatUtterancesAsText(utterances) : result.transcript!
+    const segments = toSessionSegments(utterances, chunkIndex, chunkStart)
+    delete rerunOptionsRef.current[chunkIndex]
+
+    // Keep earlier versions to compare with; a transcript restored with the session becomes the first one
+    const previousTranscript = completedTranscriptsRef.current[chunkIndex]
+    const versions = chunkVersions[chunkIndex]?.length
+      ? chunkVersions[chunkIndex]
+      : previousTranscript
+        ? [
+            {
+              transcript: previousTranscript,
+              segments: completedSegments[chunkIndex] || [],
+              source: completedSources[chunkIndex],
+              createdAt: chunk?.timestamp || new Date().toISOString(),
+            },
+          ]
+        : []
+    const newVersions = [
+      ...versions,
+      { transcript, segments, source, instructions, createdAt: new Date().toISOString() },
+    ]
+    setChunkVersions((prev) => ({ ...prev, [chunkIndex]: newVersions }))
+    setActiveVersions((prev) => ({ ...prev, [chunkIndex]: newVersions.length - 1 }))
+
+    // Update completed transcripts
+    completedTranscriptsRef.current[chunkIndex] = transcript
+    setCompletedTranscripts((prev) => {
+      const newTranscripts = [...prev]
+      newTranscripts[chunkIndex] = transcript
+      return newTranscripts
+    })
+    setCompletedSegments((prev) => {
+      const newSegments = [...prev]
+      newSegments[chunkIndex] = segments
+      return newSegments
+    })
+    setCompletedSources((prev) => {
+      const newSources = [...prev]
+      newSources[chunkIndex] = source
+      return newSources
+    })
 
-    try {
-      setCurrentChunkIndex(chunkIndex)
-      setTranscriptionStatus(
-        `Processing chunk ${chunkIndex + 1}/${audioChunks.length} with API key ${(chunkIndex % geminiApiKeys.length) + 1}...`,
-      )
-      setProgress((chunkIndex / audioChunks.length) * 100)
-
-      // Convert to MP3
-      let mp3Blob: Blob
-      if (chunk.blob.type.includes("mp3") || chunk.blob.type.includes("mpeg")) {
-        mp3Blob = chunk.blob
-      } else {
-        mp3Blob = await convertToMp3(chunk.blob)
-      }
+    onTranscriptComplete(transcript, chunkIndex, segments, source)
+    showToast(
+      `✅ Chunk ${chunkIndex + 1} transcribed ${describeChunkRoute(chunkIndex, source.providerName)}!`,
+      "success",
+    )
+  }
 
-      // Convert to base64
-      const arrayBuffer = await mp3Blob.arrayBuffer()
-      const base64Audio = Buffer.from(arrayBuffer).toString("base64")
-
-      // Get API key for this chunk (with rotation)
-      const apiKey = getApiKeyForChunk(chunkIndex)
-
-      // Send to Gemini with retry logic
-      let result
-      let retryCount = 0
-      const maxRetries = 2
-
-      while (retryCount <= maxRetries) {
-        try {
-          result = await transcribeMP3WithGemini(
-            base64Audio,
-            mp3Blob.size,
-            apiKey,
-            userName,
-            liveTranscriptContext,
-            chunkIndex,
-          )
-          break // Success, exit retry loop
-        } catch (apiError) {
-          retryCount++
-          if (retryCount > maxRetries) {
-            throw apiError
-          }
-          console.log(`Retry ${retryCount}/${maxRetries} for chunk ${chunkIndex + 1}`)
-          await new Promise((resolve) => setTimeout(resolve, 2000)) // Wait 2 seconds before retry
+  // Put an earlier version of a chunk's transcript back in use
+  const selectChunkVersion = (chunkIndex: number, versionIndex: number) => {
+    const version = chunkVersions[chunkIndex]?.[versionIndex]
+    if (!version) return
+
+    const source = version.source || getTranscriptionSource(provider)
+    completedTranscriptsRef.current[chunkIndex] = version.transcript
+    setCompletedTranscripts((prev) => {
+      const newTranscripts = [...prev]
+      newTranscripts[chunkIndex] = version.transcript
+      return newTranscripts
+    })
+    setCompletedSegments((prev) => {
+      const newSegments = [...prev]
+      newSegments[chunkIndex] = version.segments
+      return newSegments
+    })
+    setCompletedSources((prev) => {
+      const newSources = [...prev]
+      newSources[chunkIndex] = source
+      return newSources
+    })
+    setActiveVersions((prev) => ({ ...prev, [chunkIndex]: versionIndex }))
+
+    onTranscriptComplete(version.transcript, chunkIndex, version.segments, source)
+    showToast(`🔁 Chunk ${chunkIndex + 1} switched to version ${versionIndex + 1}`, "success")
+  }
+
+  // The queue outlives renders; its callbacks go through this ref to reach the current props and state
+  const queueHandlersRef = useRef({ transcribeChunk, commitChunk, concurrency: provider.maxConcurrency })
+  queueHandlersRef.current = { transcribeChunk, commitChunk, concurrency: provider.maxConcurrency }
+  const queueRef = useRef<TranscriptionQueue<ChunkTranscription | null> | null>(null)
+  const getQueue = () => {
+    queueRef.current ??= new TranscriptionQueue<ChunkTranscription | null>({
+      concurrency: () => queueHandlersRef.current.concurrency(),
+      run: (chunkIndex) => queueHandlersRef.current.transcribeChunk(chunkIndex),
+      commit: (chunkIndex, transcription) => queueHandlersRef.current.commitChunk(chunkIndex, transcription),
+      shouldStop: (error) => isFatalTranscriptionError(toTranscriptionError(error)),
+      onStateChange: (chunkIndex, state, error) => {
+        setChunkStates((prev) => ({ ...prev, [chunkIndex]: state }))
+        if (state === "failed") {
+          const failure = toTranscriptionError(error)
+          console.error(`❌ Chunk ${chunkIndex + 1} failed (${failure.code}):`, error)
+          setChunkErrors((prev) => ({ ...prev, [chunkIndex]: failure }))
+          setError({ chunkIndex, failure })
+          showToast(`❌ Chunk ${chunkIndex + 1} failed: ${TRANSCRIPTION_ERROR_LABELS[failure.code]}`, "error")
         }
-      }
+      },
+      onIdle: () => {
+        setIsTranscribing(false)
+        setTranscriptionStatus("All chunks processed!")
+      },
+    })
+    return queueRef.current
+  }
 
-      if (!result.success) {
-        throw new Error(result.error || "Gemini transcription failed")
-      }
+  // Queue new chunks automatically; they run as many at a time as the provider allows
+  useEffect(() => {
+    if (audioChunks.length === 0 || !autoStart || !isProviderConfigured) return
 
-      // Update completed transcripts
-      setCompletedTranscripts((prev) => {
-        const newTranscripts = [...prev]
-        newTranscripts[chunkIndex] = result.transcript!
-        return newTranscripts
-      })
+    const queue = getQueue()
+    const unprocessedChunks = audioChunks
+      .map((_, index) => index)
+      .filter((index) => !processedChunks.has(index) && queue.getState(index) === undefined)
 
-      setProcessedChunks((prev) => new Set([...prev, chunkIndex]))
-      onTranscriptComplete(result.transcript!, chunkIndex)
-
-      showToast(
-        `✅ Chunk ${chunkIndex + 1} transcribed with API key ${(chunkIndex % geminiApiKeys.length) + 1}!`,
-        "success",
-      )
-    } catch (error) {
-      console.error(`❌ Chunk ${chunkIndex + 1} failed:`, error)
-      setError(`Chunk ${chunkIndex + 1} failed: ${error.message}`)
-      showToast(`❌ Chunk ${chunkIndex + 1} failed`, "error")
+    if (unprocessedChunks.length > 0) {
+      setIsTranscribing(true)
+      setError(null)
+      queue.enqueue(unprocessedChunks)
     }
+  }, [audioChunks.length, autoStart, processedChunks, isProviderConfigured, provider])
+
+  const retryChunk = (chunkIndex: number) => {
+    setIsTranscribing(true)
+    setError(null)
+    getQueue().enqueue([chunkIndex])
   }
 
-  // Process new chunks automatically
-  useEffect(() => {
-    if (audioChunks.length > 0 && autoStart && !processingRef.current && geminiApiKeys.length > 0) {
-      const unprocessedChunks = audioChunks.map((_, index) => index).filter((index) => !processedChunks.has(index))
-
-      if (unprocessedChunks.length > 0) {
-        processingRef.current = true
-        setIsTranscribing(true)
-        setError(null)
-
-        // Process all unprocessed chunks
-        const processChunks = async () => {
-          for (const chunkIndex of unprocessedChunks) {
-            await processAudioChunk(chunkIndex)
-            // Small delay between chunks
-            await new Promise((resolve) => setTimeout(resolve, 1000))
-          }
+  // Transcribe a chunk again, done or not, keeping what it has now as an earlier version
+  const rerunChunk = (chunkIndex: number, options: ChunkRerunOptions) => {
+    rerunOptionsRef.current[chunkIndex] = options
+    setIsTranscribing(true)
+    setError(null)
+    getQueue().requeue([chunkIndex])
+  }
 
-          setIsTranscribing(false)
-          setTranscriptionStatus("All chunks processed!")
-          setProgress(100)
-          processingRef.current = false
-        }
+  // Send failed and stopped chunks again, e.g. after fixing an API key
+  const retryUnfinishedChunks = () => {
+    const unfinished = Object.entries(chunkStates)
+      .filter(([, state]) => state === "failed" || state === "stopped")
+      .map(([chunkIndex]) => Number(chunkIndex))
+    if (unfinished.length === 0) return
 
-        processChunks()
-      }
-    }
-  }, [audioChunks.length, autoStart, processedChunks, geminiApiKeys.length])
+    setIsTranscribing(true)
+    setError(null)
+    getQueue().enqueue(unfinished)
+  }
 
   const handleResetSession = () => {
+    completedTranscriptsRef.current = []
     setCompletedTranscripts([])
+    setCompletedSegments([])
+    setCompletedSources([])
+    setPlaybackTime(null)
     setProcessedChunks(new Set())
-    setCurrentChunkIndex(0)
-    setProgress(0)
+    queueRef.current?.clear()
+    setChunkStates({})
+    setChunkErrors({})
+    setChunkVersions({})
+    setActiveVersions({})
+    rerunOptionsRef.current = {}
+    failedSourcesRef.current = {}
     setError(null)
     setTranscriptionStatus("")
     setIsTranscribing(false)
     setApiKeyUsage({})
-    processingRef.current = false
+    chunkKeysRef.current = {}
 
     if (onResetSession) {
       onResetSession()
@@ -304,11 +534,15 @@ export function FinalTranscript({
       return
     }
 
-    const combinedTranscript = completedTranscripts
-      .filter((t) => t && t.trim().length > 0)
-      .join("\n\n--- Next Segment ---\n\n")
+    // Prefer the structured segments so the download carries session timestamps
+    const combinedTranscript = joinTranscripts(
+      completedTranscripts.map((transcript, index) =>
+        completedSegments[index]?.length ? formatSegmentsWithTimestamps(completedSegments[index]) : transcript,
+      ),
+    )
 
-    const fullTranscript = `Complete Audio Transcript (Gemini 2.5 Flash)\nGenerated: ${new Date().toLocaleString()}\nTotal Segments: ${completedTranscripts.filter((t) => t).length}\nUser: ${userName || "User"}\nAPI Keys Used: ${geminiApiKeys.length}\n\n=== COMPLETE TRANSCRIPT ===\n\n${combinedTranscript}`
+    const providersUsed = [...new Set(completedSources.filter(Boolean).map(formatTranscriptionSource))]
+    const fullTranscript = `Complete Audio Transcript\nTranscribed with: ${providersUsed.join(", ") || provider.name}\nGenerated: ${new Date().toLocaleString()}\nTotal Segments: ${completedTranscripts.filter((t) => t).length}\nUser: ${userName || "User"}\n\n=== COMPLETE TRANSCRIPT ===\n\n${combinedTranscript}`
 
     const blob = new Blob([fullTranscript], { type: "text/plain" })
     const url = URL.createObjectURL(blob)
@@ -323,8 +557,51 @@ export function FinalTranscript({
     showToast("Complete transcript downloaded!", "success")
   }
 
-  // Format transcript for better display
-  const formatTranscriptForDisplay = (text: string) => {
+  // Format transcript for better display. Lines are clickable and jump the player to where they were spoken:
+  // structured segments to their own timestamp, plain-text lines to the start of their chunk.
+  const formatTranscriptForDisplay = (text: string, chunkIndex: number) => {
+    const segments = completedSegments[chunkIndex]
+
+    if (segments?.length) {
+      return segments.map((segment, index) => {
+        const isUser = segment.speaker === userName || segment.speaker === "User"
+        const segmentKey = `${chunkIndex}-${index}`
+        const isActive = segmentKey === activeSegmentKey
+
+        return (
+          <div
+            key={index}
+            ref={(element) => {
+              segmentElementsRef.current[segmentKey] = element
+            }}
+            onClick={() => playerRef.current?.seek(segment.absoluteStart, true)}
+            className={`mb-3 p-3 rounded-lg cursor-pointer transition-colors ${
+              isActive
+                ? "bg-purple-100 dark:bg-purple-900/40 ring-1 ring-purple-400"
+                : "bg-slate-50 dark:bg-slate-800/50 hover:bg-slate-100 dark:hover:bg-slate-700/50"
+            }`}
+          >
+            <div className="flex items-center space-x-2 mb-2">
+              <Badge variant={isUser ? "default" : "secondary"} className="text-xs">
+                {segment.speaker}
+              </Badge>
+              <span className="text-xs font-mono text-slate-500 dark:text-slate-400">
+                {formatTimestamp(segment.absoluteStart)}
+              </span>
+              {segment.language && (
+                <Badge variant="outline" className="text-xs">
+                  {segment.language}
+                </Badge>
+              )}
+            </div>
+            <p className="text-slate-700 dark:text-slate-200 leading-relaxed">{segment.text}</p>
+          </div>
+        )
+      })
+    }
+
+    const seekToChunk = () => playerRef.current?.seek(getChunkStartOffset(chunkIndex), true)
+
     return text
       .split("\n")
       .map((line, index) => {
@@ -339,7 +616,11 @@ export function FinalTranscript({
           const isUser = speakerName === userName || speakerName === "User"
 
           return (
-            <div key={index} className="mb-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+            <div
+              key={index}
+              onClick={seekToChunk}
+              className="mb-3 p-3 rounded-lg cursor-pointer bg-slate-50 dark:bg-slate-800/50 hover:bg-slate-100 dark:hover:bg-slate-700/50"
+            >
               <div className="flex items-center space-x-2 mb-2">
                 <Badge variant={isUser ? "default" : "secondary"} className="text-xs">
                   {speakerName}
@@ -351,7 +632,11 @@ export function FinalTranscript({
         }
 
         return (
-          <p key={index} className="text-slate-700 dark:text-slate-200 leading-relaxed mb-2">
+          <p
+            key={index}
+            onClick={seekToChunk}
+            className="text-slate-700 dark:text-slate-200 leading-relaxed mb-2 cursor-pointer"
+          >
             {trimmedLine}
           </p>
         )
@@ -359,9 +644,38 @@ export function FinalTranscript({
       .filter(Boolean)
   }
 
+  // The utterance being spoken at the current playback position
+  const activeSegmentKey = useMemo(() => {
+    if (playbackTime === null) return null
+
+    let activeKey: string | null = null
+    completedSegments.forEach((segments, chunkIndex) => {
+      segments?.forEach((segment, index) => {
+        if (segment.absoluteStart <= playbackTime && playbackTime < segment.absoluteEnd + 1) {
+          activeKey = `${chunkIndex}-${index}`
+        }
+      })
+    })
+    return activeKey
+  }, [completedSegments, playbackTime])
+
+  // Keep the highlighted utterance in view while playing
+  useEffect(() => {
+    if (isPlaying && activeSegmentKey) {
+      segmentElementsRef.current[activeSegmentKey]?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+    }
+  }, [activeSegmentKey, isPlaying])
+
   const totalWords = completedTranscripts
     .filter((t) => t)
     .reduce((acc, transcript) => acc + transcript.split(" ").length, 0)
+  const silenceSavings = summarizeVoiceActivity(audioChunks)
+  const jobStates = Object.values(chunkStates)
+  const countJobs = (state: ChunkJobState) => jobStates.filter((jobState) => jobState === state).length
+  const progress =
+    jobStates.length > 0
+      ? ((countJobs("done") + countJobs("failed") + countJobs("stopped")) / jobStates.length) * 100
+      : 0
 
   return (
     <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm transition-colors duration-300">
@@ -387,8 +701,20 @@ export function FinalTranscript({
         {error && (
           <Alert variant="destructive">
             <AlertDescription>
-              {error}
-              {error.includes("API key") && (
+              Chunk {error.chunkIndex + 1} failed: {error.failure.message}
+              {countJobs("stopped") > 0 && (
+                <div className="mt-2 flex items-center space-x-2">
+                  <span>
+                    {countJobs("stopped")} chunk{countJobs("stopped") > 1 ? "s were" : " was"} not sent, as{" "}
+                    {countJobs("stopped") > 1 ? "they" : "it"} would fail the same way.
+                  </span>
+                  <Button onClick={retryUnfinishedChunks} variant="outline" size="sm" className="h-6 text-xs">
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                </div>
+              )}
+              {provider.id === "gemini" && error.failure.code === "invalid-key" && (
                 <div className="mt-2">
                   <a
                     href="https://aistudio.google.com/app/apikey"
@@ -408,13 +734,15 @@ export function FinalTranscript({
           <div className="text-center text-slate-400 dark:text-slate-500 py-8">
             <Sparkles className="h-12 w-12 mx-auto mb-4 opacity-50 text-purple-400" />
             <p>Start recording to see automatic transcription</p>
-            <p className="text-xs mt-2">Audio will be processed in 30-second chunks automatically</p>
-            {geminiApiKeys.length > 1 && (
-              <p className="text-xs mt-1">Using {geminiApiKeys.length} API keys with rotation</p>
+            <p className="text-xs mt-2">Audio will be processed in chunks automatically</p>
+            {provider.id === "gemini" && geminiApiKeys.length > 1 && (
+              <p className="text-xs mt-1">Spreading chunks over {geminiApiKeys.length} API keys</p>
             )}
-            {geminiApiKeys.length === 0 && (
+            {!isProviderConfigured && (
               <p className="text-xs mt-2 text-orange-600 dark:text-orange-400">
-                Add Gemini API keys in Settings to enable transcription
+                {provider.id === "gemini"
+                  ? "Add Gemini API keys in Settings to enable transcription"
+                  : `Configure ${provider.name} in Settings to enable transcription`}
               </p>
             )}
           </div>
@@ -431,18 +759,43 @@ export function FinalTranscript({
                   <span className="flex items-center space-x-1">
                     <Clock className="h-3 w-3" />
                     <span>
-                      Chunk {currentChunkIndex + 1}/{audioChunks.length}
+                      {countJobs("running")} running • {countJobs("queued")} queued
                     </span>
                   </span>
                 </div>
                 <Progress value={progress} className="w-full" />
                 <div className="text-xs text-purple-600 dark:text-purple-400 text-center">
-                  {Math.round(progress)}% complete • Gemini 2.5 Flash AI processing
-                  {geminiApiKeys.length > 1 && ` • Rotating ${geminiApiKeys.length} API keys`}
+                  {Math.round(progress)}% complete • {provider.name} processing
+                  {provider.id === "gemini" &&
+                    geminiApiKeys.length > 1 &&
+                    ` • ${countHealthyApiKeys(geminiApiKeys)}/${geminiApiKeys.length} API keys healthy`}
                 </div>
               </div>
             )}
 
+            {/* Per-chunk status and actions */}
+            <ChunkStatusList
+              chunks={audioChunks.map((chunk, chunkIndex) => ({
+                duration: chunk.duration,
+                startOffset: getChunkStartOffset(chunkIndex),
+                skipped: !!chunk.voiceActivity?.skipped,
+                state: chunkStates[chunkIndex],
+                error: chunkErrors[chunkIndex],
+                transcript: completedTranscripts[chunkIndex],
+                source:
+                  chunkStates[chunkIndex] === "failed"
+                    ? failedSourcesRef.current[chunkIndex]
+                    : completedSources[chunkIndex],
+                versions: chunkVersions[chunkIndex] || [],
+                activeVersion: activeVersions[chunkIndex],
+              }))}
+              targets={rerunTargets}
+              defaultTarget={rerunTargets[0] || { providerId, label: provider.name }}
+              onRetry={retryChunk}
+              onRerun={rerunChunk}
+              onUseVersion={selectChunkVersion}
+            />
+
             {/* API Key Usage Stats */}
             {geminiApiKeys.length > 1 && Object.keys(apiKeyUsage).length > 0 && (
               <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 border border-blue-200 dark:border-blue-800">
@@ -460,6 +813,25 @@ export function FinalTranscript({
               </div>
             )}
 
+            {/* Silence Detection Stats */}
+            {silenceSavings.savedSeconds > 0 && (
+              <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
+                <div className="text-xs text-slate-600 dark:text-slate-400">
+                  <div className="font-medium mb-2">🤫 Silence Detection</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="flex justify-between">
+                      <span>API calls saved:</span>
+                      <span>{silenceSavings.skippedChunks}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Audio not sent:</span>
+                      <span>{formatTime(silenceSavings.savedSeconds)}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex items-center space-x-2">
               <Button
@@ -482,6 +854,15 @@ export function FinalTranscript({
               </Button>
             </div>
 
+            {/* Session Playback */}
+            <SessionAudioPlayer
+              ref={playerRef}
+              chunks={audioChunks}
+              onTimeUpdate={setPlaybackTime}
+              onPlayingChange={setIsPlaying}
+              outputDeviceId={outputDeviceId}
+            />
+
             {/* Completed Transcripts */}
             {completedTranscripts.some((t) => t) && (
               <div className="space-y-3">
@@ -496,10 +877,14 @@ export function FinalTranscript({
 
                       return (
                         <div key={index} className="space-y-2">
-                          {formatTranscriptForDisplay(transcript)}
-                          {index < completedTranscripts.length - 1 && completedTranscripts[index + 1] && (
-                            <div className="border-t border-slate-200 dark:border-slate-700 my-4"></div>
+                          {completedSources[index] && (
+                            <div className="flex justify-end">
+                              <Badge variant="outline" className="text-[10px] text-slate-500 dark:text-slate-400">
+                                Chunk {index + 1} • {formatTranscriptionSource(completedSources[index])}
+                              </Badge>
+                            </div>
                           )}
+                          {formatTranscriptForDisplay(transcript, index)}
                         </div>
                       )
                     })}
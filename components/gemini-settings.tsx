@@ -6,13 +6,65 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Sparkles, ExternalLink, Eye, EyeOff, Plus, Trash2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import {
+  Sparkles,
+  ExternalLink,
+  Eye,
+  EyeOff,
+  Plus,
+  Trash2,
+  MessageSquareText,
+  RotateCcw,
+  Cpu,
+  Loader2,
+  AudioLines,
+} from "lucide-react"
+import {
+  TRANSCRIPT_CONTEXT_PRESETS,
+  loadTranscriptContextLevel,
+  saveTranscriptContextLevel,
+  type TranscriptContextLevel,
+} from "@/lib/transcription-context"
+import {
+  getApiKeyHealth,
+  getApiKeyStats,
+  resetApiKeyHealth,
+  subscribeToApiKeyPool,
+  type ApiKeyHealth,
+} from "@/lib/api-key-pool"
+import {
+  DEFAULT_GEMINI_MODEL_SETTINGS,
+  GEMINI_MODELS,
+  MAX_OUTPUT_TOKENS,
+  MAX_TEMPERATURE,
+  MIN_OUTPUT_TOKENS,
+  getGeminiModelLabel,
+  loadGeminiModelSettings,
+  saveGeminiModelSettings,
+  type GeminiModelSettings,
+} from "@/lib/gemini-models"
 
 interface ApiKeyEntry {
   id: string
   key: string
 }
 
+const HEALTH_BADGES: Record<ApiKeyHealth, { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-green-600" },
+  "cooling-down": { label: "Cooling down", className: "bg-amber-500" },
+  invalid: { label: "Invalid", className: "bg-red-600" },
+}
+
+interface KeyTestResult {
+  status: "testing" | "ok" | "failed"
+  message: string
+}
+
+// Radix Select items can't have an empty value
+const NO_ESCALATION = "none"
+
 interface GeminiSettingsProps {
   onApiKeysChange: (apiKeys: string[]) => void
 }
@@ -20,6 +72,10 @@ interface GeminiSettingsProps {
 export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
   const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>([{ id: "1", key: "" }])
   const [showApiKeys, setShowApiKeys] = useState<{ [key: string]: boolean }>({})
+  const [contextLevel, setContextLevel] = useState<TranscriptContextLevel>("standard")
+  const [now, setNow] = useState(Date.now())
+  const [modelSettings, setModelSettings] = useState<GeminiModelSettings>(DEFAULT_GEMINI_MODEL_SETTINGS)
+  const [keyTests, setKeyTests] = useState<{ [key: string]: KeyTestResult }>({})
 
   // Load API keys from localStorage on mount
   useEffect(() => {
@@ -39,8 +95,57 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
         console.error("Failed to load API keys:", error)
       }
     }
+
+    setContextLevel(loadTranscriptContextLevel())
+    setModelSettings(loadGeminiModelSettings())
   }, [])
 
+  // Re-render when key health changes, and every second while a cooldown is counting down
+  useEffect(() => {
+    const unsubscribe = subscribeToApiKeyPool(() => setNow(Date.now()))
+    const interval = setInterval(() => {
+      if (apiKeys.some((entry) => entry.key.trim() && getApiKeyHealth(entry.key.trim()) === "cooling-down")) {
+        setNow(Date.now())
+      }
+    }, 1000)
+    return () => {
+      unsubscribe()
+      clearInterval(interval)
+    }
+  }, [apiKeys])
+
+  const handleContextLevelChange = (level: TranscriptContextLevel) => {
+    setContextLevel(level)
+    saveTranscriptContextLevel(level)
+  }
+
+  const updateModelSetting = <K extends keyof GeminiModelSettings>(key: K, value: GeminiModelSettings[K]) => {
+    setModelSettings(saveGeminiModelSettings({ ...modelSettings, [key]: value }))
+  }
+
+  // Send a short test clip to the selected model with one key
+  const testApiKey = async (id: string, key: string) => {
+    setKeyTests((prev) => ({ ...prev, [id]: { status: "testing", message: "" } }))
+    try {
+      const response = await fetch("/api/validate-gemini", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey: key, model: modelSettings.model }),
+      })
+      const data = await response.json()
+      setKeyTests((prev) => ({
+        ...prev,
+        [id]: response.ok ? { status: "ok", message: data.message } : { status: "failed", message: data.error },
+      }))
+    } catch (error) {
+      console.error("Failed to test API key:", error)
+      setKeyTests((prev) => ({
+        ...prev,
+        [id]: { status: "failed", message: "Could not reach the validation service" },
+      }))
+    }
+  }
+
   // Save API keys to localStorage and notify parent whenever keys change
   useEffect(() => {
     const validKeys = apiKeys.filter((entry) => entry.key.trim().length > 0).map((entry) => entry.key.trim())
@@ -56,6 +161,11 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
 
   const handleApiKeyChange = (id: string, value: string) => {
     setApiKeys((prev) => prev.map((entry) => (entry.id === id ? { ...entry, key: value } : entry)))
+    setKeyTests((prev) => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
   }
 
   const addApiKey = () => {
@@ -83,12 +193,47 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
 
   const validApiKeysCount = apiKeys.filter((entry) => entry.key.trim().length > 0).length
 
+  // Health badge and usage of a key, with a reset for keys that are cooling down or were rejected
+  const renderKeyHealth = (key: string) => {
+    const health = getApiKeyHealth(key, now)
+    const stats = getApiKeyStats(key)
+    const cooldownSeconds = stats.cooldownUntil ? Math.max(0, Math.ceil((stats.cooldownUntil - now) / 1000)) : 0
+
+    return (
+      <>
+        <Badge variant="default" className={`text-xs ${HEALTH_BADGES[health].className}`} title={stats.lastError}>
+          {HEALTH_BADGES[health].label}
+          {health === "cooling-down" && ` (${cooldownSeconds}s)`}
+        </Badge>
+        {stats.requests > 0 && (
+          <span className="text-xs text-slate-500">
+            {stats.successes}/{stats.requests} ok
+            {stats.rateLimits > 0 && ` • ${stats.rateLimits} rate limited`}
+          </span>
+        )}
+        {health !== "healthy" && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs ml-auto"
+            onClick={() => resetApiKeyHealth(key)}
+            title="Use this key again right away"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        )}
+      </>
+    )
+  }
+
   return (
     <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm transition-colors duration-300">
       <CardHeader>
         <CardTitle className="flex items-center space-x-2">
           <Sparkles className="h-5 w-5 text-purple-500" />
-          <span>Gemini 2.5 Pro Configuration</span>
+          <span>Gemini Configuration</span>
           {validApiKeysCount > 0 && (
             <Badge variant="default" className="ml-auto bg-green-600">
               {validApiKeysCount} Key{validApiKeysCount > 1 ? "s" : ""} Ready
@@ -100,7 +245,7 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
         {/* API Keys Section */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
-            <Label className="text-sm font-medium">Gemini 2.5 Pro API Keys (Max 5)</Label>
+            <Label className="text-sm font-medium">Gemini API Keys (Max 5)</Label>
             {apiKeys.length < 5 && (
               <Button onClick={addApiKey} size="sm" variant="outline" className="text-xs">
                 <Plus className="h-3 w-3 mr-1" />
@@ -115,11 +260,7 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
               <div key={entry.id} className="space-y-2">
                 <div className="flex items-center space-x-2">
                   <Label className="text-xs text-slate-600 dark:text-slate-400 min-w-[60px]">Key #{entry.id}</Label>
-                  {entry.key.trim().length > 0 && (
-                    <Badge variant="default" className="text-xs bg-green-600">
-                      Active
-                    </Badge>
-                  )}
+                  {entry.key.trim().length > 0 && renderKeyHealth(entry.key.trim())}
                 </div>
 
                 <div className="relative">
@@ -128,7 +269,7 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
                     placeholder={`Enter Gemini API key ${entry.id} (AIza...)`}
                     value={entry.key}
                     onChange={(e) => handleApiKeyChange(entry.id, e.target.value)}
-                    className="pr-24"
+                    className="pr-32"
                   />
                   <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1">
                     <Button
@@ -140,6 +281,23 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
                     >
                       {showApiKeys[entry.id] ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
                     </Button>
+                    {entry.key.trim() && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        disabled={keyTests[entry.id]?.status === "testing"}
+                        onClick={() => testApiKey(entry.id, entry.key.trim())}
+                        title={`Test this key with ${getGeminiModelLabel(modelSettings.model)}`}
+                      >
+                        {keyTests[entry.id]?.status === "testing" ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <AudioLines className="h-3 w-3" />
+                        )}
+                      </Button>
+                    )}
                     {entry.key && (
                       <Button
                         type="button"
@@ -164,26 +322,140 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
                     )}
                   </div>
                 </div>
+
+                {keyTests[entry.id] && keyTests[entry.id].status !== "testing" && (
+                  <p
+                    className={`text-xs ${
+                      keyTests[entry.id].status === "ok"
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400"
+                    }`}
+                  >
+                    {keyTests[entry.id].message}
+                  </p>
+                )}
               </div>
             ))}
           </div>
         </div>
 
+        {/* Model */}
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Cpu className="h-4 w-4" />
+            <Label className="text-sm font-medium">Model</Label>
+          </div>
+          <Select value={modelSettings.model} onValueChange={(value) => updateModelSetting("model", value)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GEMINI_MODELS.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-600 dark:text-slate-400">
+            {GEMINI_MODELS.find((model) => model.id === modelSettings.model)?.description}
+          </p>
+
+          <div>
+            <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">
+              Temperature: {modelSettings.temperature.toFixed(1)}
+            </Label>
+            <Slider
+              value={[modelSettings.temperature]}
+              onValueChange={([value]) => updateModelSetting("temperature", value)}
+              min={0}
+              max={MAX_TEMPERATURE}
+              step={0.1}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">
+              Max output tokens: {modelSettings.maxOutputTokens}
+            </Label>
+            <Slider
+              value={[modelSettings.maxOutputTokens]}
+              onValueChange={([value]) => updateModelSetting("maxOutputTokens", value)}
+              min={MIN_OUTPUT_TOKENS}
+              max={MAX_OUTPUT_TOKENS}
+              step={1024}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-slate-600 dark:text-slate-400 block">Send hard chunks to</Label>
+            <Select
+              value={modelSettings.escalationModel || NO_ESCALATION}
+              onValueChange={(value) => updateModelSetting("escalationModel", value === NO_ESCALATION ? "" : value)}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ESCALATION}>Off</SelectItem>
+                {GEMINI_MODELS.filter((model) => model.id !== modelSettings.model).map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-600 dark:text-slate-400">
+              A chunk whose response was cut off or unreadable, or whose transcript is far shorter than the speech in
+              it, is transcribed again with this model.
+            </p>
+          </div>
+        </div>
+
+        {/* Transcription Context */}
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <MessageSquareText className="h-4 w-4" />
+            <Label className="text-sm font-medium">Transcription Context</Label>
+          </div>
+          <Select
+            value={contextLevel}
+            onValueChange={(value) => handleContextLevelChange(value as TranscriptContextLevel)}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSCRIPT_CONTEXT_PRESETS) as TranscriptContextLevel[]).map((level) => (
+                <SelectItem key={level} value={level}>
+                  {TRANSCRIPT_CONTEXT_PRESETS[level].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-600 dark:text-slate-400">
+            {TRANSCRIPT_CONTEXT_PRESETS[contextLevel].description}. Live captions for each chunk and the end of the
+            previous chunk help Gemini keep names, spellings and split sentences consistent.
+          </p>
+        </div>
+
         {/* API Key Rotation Info */}
         {validApiKeysCount > 1 && (
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 border border-blue-200 dark:border-blue-800">
             <div className="space-y-3">
               <div className="flex items-center space-x-2">
                 <Sparkles className="h-4 w-4 text-blue-500" />
-                <span className="text-sm font-medium text-blue-700 dark:text-blue-300">API Key Rotation</span>
+                <span className="text-sm font-medium text-blue-700 dark:text-blue-300">API Key Pool</span>
               </div>
 
               <div className="text-xs text-blue-600 dark:text-blue-400 space-y-1">
-                <p>• Chunk 1 → API Key #1</p>
-                <p>• Chunk 2 → API Key #2</p>
-                <p>• Chunk 3 → API Key #3 (if available)</p>
-                <p>• Continues rotating through all valid keys</p>
-                <p>• Helps distribute API usage and avoid rate limits</p>
+                <p>• Each chunk goes to the least busy healthy key</p>
+                <p>• Chunks are transcribed in parallel, one per healthy key</p>
+                <p>• A rate-limited key cools down, for longer each time it is rate limited again</p>
+                <p>• Invalid keys are skipped until you reset them</p>
+                <p>• A chunk that fails because of its key is retried on another key</p>
               </div>
             </div>
           </div>
@@ -195,7 +467,7 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
             <div className="flex items-center space-x-2">
               <Sparkles className="h-4 w-4 text-purple-500" />
               <span className="text-sm font-medium text-purple-700 dark:text-purple-300">
-                How to get your Gemini 2.5 Pro API Keys
+                How to get your Gemini API Keys
               </span>
             </div>
 
@@ -222,7 +494,7 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
         {/* Features Overview */}
         <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg p-4">
           <div className="space-y-3">
-            <h4 className="text-sm font-medium">✨ Gemini 2.5 Pro Features</h4>
+            <h4 className="text-sm font-medium">✨ Gemini Features</h4>
 
             <div className="grid grid-cols-2 gap-3 text-xs">
               <div className="space-y-1">
@@ -254,8 +526,9 @@ export function GeminiSettings({ onApiKeysChange }: GeminiSettingsProps) {
             <div className="text-xs text-green-700 dark:text-green-300">
               <div className="font-medium mb-1">🚀 Ready for Advanced Transcription</div>
               <p>
-                {validApiKeysCount} Gemini 2.5 Pro API key{validApiKeysCount > 1 ? "s are" : " is"} configured and ready
-                to transcribe audio files with automatic rotation for optimal performance.
+                {validApiKeysCount} Gemini API key{validApiKeysCount > 1 ? "s are" : " is"} configured and ready to
+                transcribe audio files using {getGeminiModelLabel(modelSettings.model)}, with automatic rotation for
+                optimal performance.
               </p>
             </div>
           </div>
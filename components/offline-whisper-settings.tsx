@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Cpu, Download, Loader2, Trash2, CheckCircle } from "lucide-react"
+import {
+  DEFAULT_OFFLINE_WHISPER_SETTINGS,
+  OFFLINE_WHISPER_MODELS,
+  deleteCachedWhisperModel,
+  getCachedWhisperModels,
+  isOfflineWhisperSupported,
+  loadOfflineWhisperSettings,
+  loadWhisperModel,
+  saveOfflineWhisperSettings,
+  subscribeToModelProgress,
+  type ModelDownloadProgress,
+  type OfflineWhisperSettings as OfflineWhisperSettingsType,
+} from "@/lib/offline-whisper"
+
+export function OfflineWhisperSettings() {
+  const [settings, setSettings] = useState<OfflineWhisperSettingsType>(DEFAULT_OFFLINE_WHISPER_SETTINGS)
+  const [cachedModels, setCachedModels] = useState<string[]>([])
+  const [downloadProgress, setDownloadProgress] = useState<ModelDownloadProgress | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+  const [isSupported, setIsSupported] = useState(true)
+
+  const refreshCachedModels = useCallback(async () => {
+    try {
+      setCachedModels(await getCachedWhisperModels())
+    } catch (error) {
+      console.error("Failed to read cached models:", error)
+    }
+  }, [])
+
+  // Load settings and cache state on mount, and follow downloads started elsewhere (e.g. by a transcription)
+  useEffect(() => {
+    setSettings(loadOfflineWhisperSettings())
+    setIsSupported(isOfflineWhisperSupported())
+    refreshCachedModels()
+
+    return subscribeToModelProgress((progress) => {
+      setDownloadProgress(progress)
+      if (progress.total > 0 && progress.loaded >= progress.total) {
+        refreshCachedModels()
+      }
+    })
+  }, [refreshCachedModels])
+
+  const updateSetting = <K extends keyof OfflineWhisperSettingsType>(key: K, value: OfflineWhisperSettingsType[K]) => {
+    const newSettings = { ...settings, [key]: value }
+    setSettings(newSettings)
+    saveOfflineWhisperSettings(newSettings)
+  }
+
+  const downloadModel = async () => {
+    setIsDownloading(true)
+    setDownloadError(null)
+    setDownloadProgress(null)
+
+    try {
+      await loadWhisperModel(settings.model)
+      await refreshCachedModels()
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : "Download failed")
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const removeModel = async (model: string) => {
+    await deleteCachedWhisperModel(model)
+    await refreshCachedModels()
+  }
+
+  const selectedModel = OFFLINE_WHISPER_MODELS.find((model) => model.id === settings.model)
+  const isCached = cachedModels.includes(settings.model)
+  const cachedSizeMB = OFFLINE_WHISPER_MODELS.filter((model) => cachedModels.includes(model.id)).reduce(
+    (acc, model) => acc + model.sizeMB,
+    0,
+  )
+
+  if (!isSupported) {
+    return (
+      <p className="text-xs text-orange-600 dark:text-orange-400">
+        This browser doesn't support Web Workers, which offline transcription needs.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Cpu className="h-4 w-4" />
+        <Label className="text-sm font-medium">On-device Whisper</Label>
+        {isCached ? (
+          <Badge variant="default" className="ml-auto text-xs bg-green-600">
+            Downloaded
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="ml-auto text-xs">
+            Not downloaded
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-xs text-slate-600 dark:text-slate-400">Model</Label>
+          <Select value={settings.model} onValueChange={(value) => updateSetting("model", value)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OFFLINE_WHISPER_MODELS.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.label} · ~{model.sizeMB}MB
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs text-slate-600 dark:text-slate-400">Language</Label>
+          <Input
+            placeholder={selectedModel?.multilingual ? "Auto-detect (e.g. en)" : "English only"}
+            value={settings.language}
+            disabled={!selectedModel?.multilingual}
+            onChange={(e) => updateSetting("language", e.target.value.trim())}
+          />
+        </div>
+      </div>
+
+      {(isDownloading || (downloadProgress && downloadProgress.progress < 100)) &&
+        downloadProgress?.model === settings.model && (
+          <div className="space-y-1">
+            <Progress value={downloadProgress.progress} className="w-full" />
+            <div className="text-xs text-slate-600 dark:text-slate-400 text-center">
+              {(downloadProgress.loaded / (1024 * 1024)).toFixed(1)} /{" "}
+              {(downloadProgress.total / (1024 * 1024)).toFixed(1)} MB
+            </div>
+          </div>
+        )}
+
+      <div className="flex items-center space-x-2">
+        <Button
+          onClick={downloadModel}
+          variant="outline"
+          size="sm"
+          className="flex-1 text-xs"
+          disabled={isDownloading || isCached}
+        >
+          {isDownloading ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : isCached ? (
+            <CheckCircle className="h-3 w-3 mr-1" />
+          ) : (
+            <Download className="h-3 w-3 mr-1" />
+          )}
+          {isCached ? "Ready for offline use" : isDownloading ? "Downloading..." : "Download Model"}
+        </Button>
+      </div>
+
+      {downloadError && <p className="text-xs text-red-600 dark:text-red-400">{downloadError}</p>}
+
+      {cachedModels.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-slate-600 dark:text-slate-400">
+            <span>Cached models</span>
+            <span className="font-mono">~{cachedSizeMB}MB</span>
+          </div>
+          {OFFLINE_WHISPER_MODELS.filter((model) => cachedModels.includes(model.id)).map((model) => (
+            <div
+              key={model.id}
+              className="flex items-center justify-between bg-slate-50 dark:bg-slate-800/50 rounded-lg px-3 py-2 text-xs"
+            >
+              <span>{model.label}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+                onClick={() => removeModel(model.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3 text-xs text-slate-600 dark:text-slate-400 space-y-1">
+        <p>• Runs entirely in your browser; audio never leaves this device</p>
+        <p>• The model is downloaded once and cached for offline use</p>
+        <p>• Slower than cloud providers and without speaker separation</p>
+      </div>
+    </div>
+  )
+}
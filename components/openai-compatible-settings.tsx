@@ -0,0 +1,173 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Eye, EyeOff, Loader2, PlugZap, Server } from "lucide-react"
+import {
+  DEFAULT_OPENAI_COMPATIBLE_SETTINGS,
+  loadOpenAICompatibleSettings,
+  saveOpenAICompatibleSettings,
+  type OpenAICompatibleSettings as OpenAICompatibleSettingsType,
+} from "@/lib/transcription-providers"
+
+type ConnectionStatus = "idle" | "testing" | "ok" | "failed"
+
+export function OpenAICompatibleSettings() {
+  const [settings, setSettings] = useState<OpenAICompatibleSettingsType>(DEFAULT_OPENAI_COMPATIBLE_SETTINGS)
+  const [showApiKey, setShowApiKey] = useState(false)
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("idle")
+  const [connectionMessage, setConnectionMessage] = useState("")
+
+  // Load settings from localStorage on mount
+  useEffect(() => {
+    setSettings(loadOpenAICompatibleSettings())
+  }, [])
+
+  const updateSetting = <K extends keyof OpenAICompatibleSettingsType>(
+    key: K,
+    value: OpenAICompatibleSettingsType[K],
+  ) => {
+    const newSettings = { ...settings, [key]: value }
+    setSettings(newSettings)
+    saveOpenAICompatibleSettings(newSettings)
+    setConnectionStatus("idle")
+  }
+
+  // Most OpenAI-compatible servers list their models at GET /models
+  const testConnection = async () => {
+    const baseUrl = settings.baseUrl.trim().replace(/\/+$/, "")
+    setConnectionStatus("testing")
+    setConnectionMessage("")
+
+    try {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : undefined,
+      })
+
+      if (!response.ok) {
+        setConnectionStatus("failed")
+        setConnectionMessage(`Server returned ${response.status} ${response.statusText}`)
+        return
+      }
+
+      const data = await response.json()
+      const models: string[] = Array.isArray(data.data) ? data.data.map((model: { id: string }) => model.id) : []
+      setConnectionStatus("ok")
+      setConnectionMessage(
+        models.length > 0
+          ? `Connected. Available models: ${models.slice(0, 5).join(", ")}${models.length > 5 ? "…" : ""}`
+          : "Connected",
+      )
+    } catch (error) {
+      setConnectionStatus("failed")
+      setConnectionMessage(
+        `Could not reach ${baseUrl}. Check the URL and that the server allows CORS from this page. (${
+          error instanceof Error ? error.message : "Unknown error"
+        })`,
+      )
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Server className="h-4 w-4" />
+        <Label className="text-sm font-medium">OpenAI-compatible Server</Label>
+        {connectionStatus === "ok" && (
+          <Badge variant="default" className="ml-auto text-xs bg-green-600">
+            Connected
+          </Badge>
+        )}
+        {connectionStatus === "failed" && (
+          <Badge variant="destructive" className="ml-auto text-xs">
+            Unreachable
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-slate-600 dark:text-slate-400">Base URL</Label>
+        <Input
+          placeholder="http://192.168.1.20:8000/v1"
+          value={settings.baseUrl}
+          onChange={(e) => updateSetting("baseUrl", e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-slate-600 dark:text-slate-400">API Key (optional)</Label>
+        <div className="relative">
+          <Input
+            type={showApiKey ? "text" : "password"}
+            placeholder="Leave empty for servers without authentication"
+            value={settings.apiKey}
+            onChange={(e) => updateSetting("apiKey", e.target.value)}
+            className="pr-10"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="absolute right-2 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+            onClick={() => setShowApiKey((prev) => !prev)}
+          >
+            {showApiKey ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-xs text-slate-600 dark:text-slate-400">Model</Label>
+          <Input
+            placeholder="whisper-1"
+            value={settings.model}
+            onChange={(e) => updateSetting("model", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs text-slate-600 dark:text-slate-400">Language</Label>
+          <Input
+            placeholder="Auto-detect (e.g. en)"
+            value={settings.language}
+            onChange={(e) => updateSetting("language", e.target.value.trim())}
+          />
+        </div>
+      </div>
+
+      <Button
+        onClick={testConnection}
+        variant="outline"
+        size="sm"
+        className="w-full text-xs"
+        disabled={connectionStatus === "testing" || !settings.baseUrl.trim()}
+      >
+        {connectionStatus === "testing" ? (
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        ) : (
+          <PlugZap className="h-3 w-3 mr-1" />
+        )}
+        Test Connection
+      </Button>
+
+      {connectionMessage && (
+        <p
+          className={`text-xs ${
+            connectionStatus === "ok" ? "text-green-700 dark:text-green-300" : "text-red-600 dark:text-red-400"
+          }`}
+        >
+          {connectionMessage}
+        </p>
+      )}
+
+      <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3 text-xs text-slate-600 dark:text-slate-400 space-y-1">
+        <p>• Works with OpenAI, faster-whisper-server, whisper.cpp server, LocalAI and similar</p>
+        <p>• Audio is sent from your browser, so servers on your LAN are reachable</p>
+        <p>• Whisper doesn't separate speakers; lines are attributed to you</p>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,83 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import { Trash2, Download, Clock, FileText, User, Mic, Calendar, Eye, EyeOff } from "lucide-react"
+import {
+  Trash2,
+  Download,
+  Clock,
+  FileText,
+  User,
+  Mic,
+  Calendar,
+  Eye,
+  EyeOff,
+  FileAudio,
+  HardDrive,
+  Loader2,
+  Sparkles,
+  X,
+} from "lucide-react"
 import { toast } from "sonner"
+import { AudioExportDialog, type AudioExportChoice } from "@/components/audio-export-dialog"
+import {
+  clearAllAudio,
+  deleteSessionAudio,
+  getAudioStorageUsage,
+  getSessionAudioChunks,
+  getSessionAudioInfo,
+  getSessionRecordings,
+  type AudioStorageUsage,
+  type SessionAudioInfo,
+} from "@/lib/audio-store"
+import { convertToMp3 } from "@/lib/audio-utils"
+import {
+  AUDIO_EXPORT_FORMATS,
+  createBlobSink,
+  createFileSink,
+  exportAudioChunks,
+  getRecordingExtension,
+  pickExportFile,
+} from "@/lib/audio-export"
+import { isAbortError } from "@/lib/audio-encoder"
+import type { AudioSettings } from "@/lib/audio-settings"
+import { applyOutputDevice } from "@/lib/audio-devices"
+import { formatSourceMix, getCaptureSources, getTranscriptionChannels, type SourceMix } from "@/lib/source-tracks"
+import { joinTranscripts, stitchUtterances, withLeadIn } from "@/lib/transcript-stitching"
+import { formatPause, interleavePauses, type RecordingPause } from "@/lib/recording-pauses"
+import {
+  restoreTrimmedTimes,
+  summarizeVoiceActivity,
+  withTrimmedSilences,
+  type ChunkVoiceActivity,
+} from "@/lib/voice-activity"
+import { formatUtterancesAsText, toSessionSegments, type TranscriptSegment } from "@/lib/transcript-segments"
+import {
+  buildLiveTranscriptWindow,
+  buildPreviousTranscriptTail,
+  loadTranscriptContextLevel,
+} from "@/lib/transcription-context"
+import {
+  createTranscriptionProvider,
+  formatTranscriptionSource,
+  getTranscriptionSource,
+  transcribeWithRetries,
+  loadActiveProviderId,
+  type TranscriptionResult,
+  type TranscriptionSource,
+} from "@/lib/transcription-providers"
+import { TranscriptionQueue } from "@/lib/transcription-queue"
+import {
+  TranscriptionFailure,
+  createTranscriptionError,
+  isFatalTranscriptionError,
+  toTranscriptionError,
+  type TranscriptionError,
+} from "@/lib/transcription-errors"
 
 interface TranscriptEntry {
   id: string
@@ -16,6 +86,7 @@ interface TranscriptEntry {
   text: string
   source?: "microphone" | "system" | "manual"
   confidence?: number
+  offset?: number
 }
 
 interface AudioChunk {
@@ -23,6 +94,8 @@ interface AudioChunk {
   timestamp: string
   duration: number
   chunkNumber: number
+  startOffset?: number
+  voiceActivity?: ChunkVoiceActivity
 }
 
 interface SessionEntry {
@@ -35,18 +108,82 @@ interface SessionEntry {
   totalChunks: number
   liveTranscript: TranscriptEntry[]
   finalTranscripts: string[]
+  finalSegments?: TranscriptSegment[][]
+  transcriptSources?: TranscriptionSource[]
   audioChunks: AudioChunk[]
   totalWords: number
+  sourceMix?: SourceMix
+  pauses?: RecordingPause[]
 }
 
-export function RecordingHistory() {
+interface PlayableChunk {
+  chunkNumber: number
+  duration: number
+  url: string
+}
+
+interface RecordingHistoryProps {
+  audioSettings: AudioSettings // export defaults and playback device
+}
+
+export function RecordingHistory({ audioSettings }: RecordingHistoryProps) {
   const [sessions, setSessions] = useState<SessionEntry[]>([])
   const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set())
+  const [audioInfo, setAudioInfo] = useState<Record<string, SessionAudioInfo>>({})
+  const [storageUsage, setStorageUsage] = useState<AudioStorageUsage | null>(null)
+  const [playableChunks, setPlayableChunks] = useState<Record<string, PlayableChunk[]>>({})
+  const [busySessions, setBusySessions] = useState<Record<string, string>>({})
+  const [exportSession, setExportSession] = useState<SessionEntry | null>(null) // whose export dialog is open
+  const [exportHasRecording, setExportHasRecording] = useState(true) // the session's original recording is stored
+
+  const objectUrlsRef = useRef<string[]>([])
+  // Audio exports that can still be cancelled, by session id
+  const audioExportsRef = useRef<Record<string, AbortController>>({})
 
   useEffect(() => {
     loadSessions()
+    loadAudioInfo()
+
+    return () => {
+      objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url))
+      objectUrlsRef.current = []
+    }
   }, [])
 
+  // Sessions saved before original recordings were kept have no original to download
+  useEffect(() => {
+    if (!exportSession) return
+    let cancelled = false
+    getSessionRecordings(exportSession.id)
+      .then((recordings) => !cancelled && setExportHasRecording(recordings.length > 0))
+      .catch((error) => console.error("Failed to check for the original recording:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [exportSession])
+
+  const loadAudioInfo = async () => {
+    try {
+      const [info, usage] = await Promise.all([getSessionAudioInfo(), getAudioStorageUsage()])
+      setAudioInfo(info)
+      setStorageUsage(usage)
+    } catch (error) {
+      console.error("Failed to load audio storage info:", error)
+    }
+  }
+
+  const setSessionBusy = (sessionId: string, status: string | null) => {
+    setBusySessions((prev) => {
+      const next = { ...prev }
+      if (status) {
+        next[sessionId] = status
+      } else {
+        delete next[sessionId]
+      }
+      return next
+    })
+  }
+
   const loadSessions = () => {
     try {
       const saved = localStorage.getItem("sesame-session-history")
@@ -68,36 +205,297 @@ export function RecordingHistory() {
     }
   }
 
-  const deleteSession = (sessionId: string) => {
+  const deleteSession = async (sessionId: string) => {
     const updated = sessions.filter((s) => s.id !== sessionId)
     saveSessions(updated)
+
+    try {
+      await deleteSessionAudio(sessionId)
+    } catch (error) {
+      console.error("Failed to delete session audio:", error)
+    }
+    loadAudioInfo()
     toast.success("Session deleted")
   }
 
-  const clearAllSessions = () => {
+  const clearAllSessions = async () => {
     if (confirm("Are you sure you want to delete all session history? This cannot be undone.")) {
       saveSessions([])
+
+      try {
+        await clearAllAudio()
+      } catch (error) {
+        console.error("Failed to clear stored audio:", error)
+      }
+      setPlayableChunks({})
+      loadAudioInfo()
       toast.success("All sessions cleared")
     }
   }
 
+  const loadPlayableChunks = async (sessionId: string) => {
+    if (playableChunks[sessionId] || !audioInfo[sessionId]) return
+
+    try {
+      const storedChunks = await getSessionAudioChunks(sessionId)
+      const chunks = storedChunks.map((chunk) => {
+        const url = URL.createObjectURL(chunk.blob)
+        objectUrlsRef.current.push(url)
+        return { chunkNumber: chunk.chunkNumber, duration: chunk.duration, url }
+      })
+      setPlayableChunks((prev) => ({ ...prev, [sessionId]: chunks }))
+    } catch (error) {
+      console.error("Failed to load session audio:", error)
+      toast.error("Failed to load session audio")
+    }
+  }
+
+  // Recordings in the container they were captured in, one file per recording run
+  const downloadOriginalRecordings = async (session: SessionEntry, baseName: string) => {
+    try {
+      const recordings = await getSessionRecordings(session.id)
+      if (recordings.length === 0) {
+        toast.error("No original recording stored for this session")
+        return
+      }
+
+      recordings.forEach((recording, index) => {
+        const part = recordings.length > 1 ? `-part${index + 1}` : ""
+        const url = URL.createObjectURL(recording.blob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = `${baseName}${part}.${getRecordingExtension(recording.blob)}`
+        a.click()
+        URL.revokeObjectURL(url)
+      })
+      toast.success("Original recording downloaded")
+    } catch (error) {
+      console.error("Failed to download the original recording:", error)
+      toast.error("Failed to download the original recording")
+    }
+  }
+
+  const downloadSessionAudio = async (session: SessionEntry, choice: AudioExportChoice) => {
+    const baseName = `session-${session.sessionDate.replace(/[:/]/g, "-")}-${session.sessionTime.replace(/[:/]/g, "-")}`
+    if (choice.format === "original") {
+      downloadOriginalRecordings(session, baseName)
+      return
+    }
+
+    const { format, sampleRate, bitRate, mono } = choice
+    setSessionBusy(session.id, "Exporting audio...")
+    const abortController = new AbortController()
+    audioExportsRef.current[session.id] = abortController
+    const fileName = `${baseName}.${AUDIO_EXPORT_FORMATS[format].extension}`
+
+    try {
+      // The save dialog has to open before anything else is awaited
+      const fileHandle = await pickExportFile(fileName, format)
+
+      const storedChunks = await getSessionAudioChunks(session.id)
+      if (storedChunks.length === 0) {
+        toast.error("No audio stored for this session")
+        return
+      }
+
+      // Chunks are decoded and encoded one at a time, so long sessions don't have to fit in memory
+      const sink = fileHandle ? await createFileSink(fileHandle) : createBlobSink(AUDIO_EXPORT_FORMATS[format].mimeType)
+      const exportedBlob = await exportAudioChunks(storedChunks, sink, {
+        format,
+        sampleRate,
+        bitRate,
+        mono,
+        onProgress: (progress) => setSessionBusy(session.id, `Encoding audio... ${Math.round(progress * 100)}%`),
+        signal: abortController.signal,
+      })
+
+      if (exportedBlob) {
+        const url = URL.createObjectURL(exportedBlob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = fileName
+        a.click()
+        URL.revokeObjectURL(url)
+        toast.success("Session audio downloaded")
+      } else {
+        toast.success(`Session audio saved to ${fileHandle?.name}`)
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast("Audio export cancelled")
+        return
+      }
+      console.error("Failed to download session audio:", error)
+      toast.error("Failed to export session audio")
+    } finally {
+      delete audioExportsRef.current[session.id]
+      setSessionBusy(session.id, null)
+    }
+  }
+
+  const retranscribeSession = async (session: SessionEntry) => {
+    let apiKeys: string[] = []
+    try {
+      const saved = localStorage.getItem("gemini-api-keys")
+      const parsed = saved ? JSON.parse(saved) : []
+      apiKeys = Array.isArray(parsed) ? parsed.filter((key) => key && key.trim().length > 0) : []
+    } catch (error) {
+      console.error("Failed to load API keys:", error)
+    }
+
+    const provider = createTranscriptionProvider(loadActiveProviderId(), apiKeys)
+    if (!provider.isConfigured()) {
+      toast.error(
+        provider.id === "gemini"
+          ? "Add Gemini API keys in Settings to re-transcribe"
+          : `Configure ${provider.name} in Settings to re-transcribe`,
+      )
+      return
+    }
+
+    setSessionBusy(session.id, "Re-transcribing...")
+
+    try {
+      const storedChunks = await getSessionAudioChunks(session.id)
+      if (storedChunks.length === 0) {
+        toast.error("No audio stored for this session")
+        return
+      }
+
+      const contextLevel = loadTranscriptContextLevel()
+      const newTranscripts = [...session.finalTranscripts]
+      const newSegments = [...(session.finalSegments || [])]
+      const newSources = [...(session.transcriptSources || [])]
+      let failedChunks = 0
+      let lastFailure: TranscriptionError | undefined
+      let settledChunks = 0
+
+      // Chunks without a stored offset are placed after the previous ones
+      const chunkStarts: number[] = []
+      storedChunks.forEach((chunk, index) => {
+        chunkStarts[index] =
+          chunk.startOffset ?? (index > 0 ? chunkStarts[index - 1] + storedChunks[index - 1].duration : 0)
+      })
+
+      // Chunks are transcribed several at a time and stitched in order as they come back
+      await new Promise<void>((resolve) => {
+        const queue = new TranscriptionQueue<{ result: TranscriptionResult; leadInSeconds: number } | null>({
+          concurrency: provider.maxConcurrency,
+          run: async (index) => {
+            const chunk = storedChunks[index]
+            if (chunk.voiceActivity?.skipped) return null
+
+            const upload = withLeadIn(withTrimmedSilences(chunk))
+            const channels = await getTranscriptionChannels(upload)
+            const audioBlob =
+              channels ||
+              provider.audioFormat === "original" ||
+              upload.blob.type.includes("mp3") ||
+              upload.blob.type.includes("mpeg")
+                ? upload.blob
+                : await convertToMp3(upload.blob, 192)
+
+            const liveTranscriptContext = buildLiveTranscriptWindow(
+              session.liveTranscript,
+              session.userName,
+              chunkStarts[index],
+              chunkStarts[index] + chunk.duration,
+              contextLevel,
+            )
+            // Only there when the previous chunk already finished
+            const previousTranscriptTail = buildPreviousTranscriptTail(newTranscripts[index - 1], contextLevel)
+
+            const result = await transcribeWithRetries(provider, {
+              audio: audioBlob,
+              chunkIndex: index,
+              durationSeconds: upload.duration,
+              userName: session.userName,
+              liveTranscriptContext,
+              previousTranscriptTail,
+              sourceActivity: upload.sourceActivity,
+              channels,
+              leadInSeconds: upload.leadInSeconds,
+              speechSeconds: chunk.voiceActivity?.speechSeconds,
+            })
+
+            if (!result.success) {
+              throw new TranscriptionFailure(
+                result.error || createTranscriptionError("unknown", `${provider.name} transcription failed`),
+              )
+            }
+            return { result, leadInSeconds: upload.leadInSeconds }
+          },
+          commit: (index, transcription) => {
+            if (!transcription) return
+            const { result, leadInSeconds } = transcription
+            const utterances = restoreTrimmedTimes(
+              stitchUtterances(result.utterances || [], leadInSeconds, newTranscripts[index - 1]),
+              storedChunks[index].voiceActivity,
+            )
+            newTranscripts[index] = result.utterances?.length ? formatUtterancesAsText(utterances) : result.transcript!
+            newSegments[index] = toSessionSegments(utterances, index, chunkStarts[index])
+            newSources[index] = getTranscriptionSource(provider, result.model)
+          },
+          shouldStop: (error) => isFatalTranscriptionError(toTranscriptionError(error)),
+          onStateChange: (index, state, error) => {
+            if (state === "failed") {
+              failedChunks++
+              lastFailure = toTranscriptionError(error)
+              console.error(`❌ Re-transcription of chunk ${index + 1} failed (${lastFailure.code}):`, error)
+            }
+            if (state === "stopped") failedChunks++
+            if (state === "done" || state === "failed" || state === "stopped") {
+              settledChunks++
+              setSessionBusy(session.id, `Re-transcribing... ${settledChunks}/${storedChunks.length} chunks`)
+            }
+          },
+          onIdle: resolve,
+        })
+        queue.enqueue(storedChunks.map((_, index) => index))
+      })
+
+      const updatedSession: SessionEntry = {
+        ...session,
+        finalTranscripts: newTranscripts,
+        finalSegments: newSegments,
+        transcriptSources: newSources,
+        totalWords: newTranscripts.filter((t) => t).reduce((acc, transcript) => acc + transcript.split(" ").length, 0),
+      }
+      saveSessions(sessions.map((s) => (s.id === session.id ? updatedSession : s)))
+
+      if (failedChunks > 0) {
+        toast.error(`${failedChunks} chunk(s) failed to re-transcribe`, { description: lastFailure?.message })
+      } else {
+        toast.success("Session re-transcribed")
+      }
+    } catch (error) {
+      console.error("Failed to re-transcribe session:", error)
+      toast.error("Failed to re-transcribe session")
+    } finally {
+      setSessionBusy(session.id, null)
+    }
+  }
+
   const downloadSessionTranscript = (session: SessionEntry) => {
-    const liveTranscriptText = session.liveTranscript
-      .map((entry) => `${entry.speaker === "user" ? session.userName || "User" : "AI Assistant"}: ${entry.text}`)
+    const liveTranscriptText = interleavePauses(session.liveTranscript, session.pauses)
+      .map((item) =>
+        item.type === "pause"
+          ? `--- ${formatPause(item.pause)} ---`
+          : `${item.entry.speaker === "user" ? session.userName || "User" : "AI Assistant"}: ${item.entry.text}`,
+      )
       .join("\n")
 
-    const finalTranscriptText = session.finalTranscripts
-      .filter((t) => t && t.trim().length > 0)
-      .join("\n\n--- Next Segment ---\n\n")
+    const finalTranscriptText = joinTranscripts(session.finalTranscripts)
 
     const fullTranscript = `Session Recording Transcript
 Date: ${session.sessionDate}
 Time: ${session.sessionTime}
 User: ${session.userName || "Unknown"}
-Capture Mode: ${session.captureMode}
+Capture Mode: ${session.captureMode}${session.sourceMix ? `\nSource Mix: ${formatSourceMix(session.sourceMix, getCaptureSources(session.captureMode))}` : ""}
 Duration: ${formatDuration(session.totalDuration)}
 Chunks: ${session.totalChunks}
 Total Words: ${session.totalWords}
+Transcribed with: ${[...new Set((session.transcriptSources || []).filter(Boolean).map(formatTranscriptionSource))].join(", ") || "Unknown"}
 
 === LIVE TRANSCRIPT ===
 
@@ -118,6 +516,10 @@ ${finalTranscriptText}`
   }
 
   const toggleSessionExpansion = (sessionId: string) => {
+    if (!expandedSessions.has(sessionId)) {
+      loadPlayableChunks(sessionId)
+    }
+
     setExpandedSessions((prev) => {
       const newSet = new Set(prev)
       if (newSet.has(sessionId)) {
@@ -195,6 +597,15 @@ ${finalTranscriptText}`
               <Badge variant="secondary" className="ml-2">
                 {sessions.length} sessions
               </Badge>
+              {storageUsage && (
+                <Badge variant="outline" className="ml-2 text-xs font-normal">
+                  <HardDrive className="h-3 w-3 mr-1" />
+                  {formatFileSize(storageUsage.audioBytes)} audio
+                  {storageUsage.quota
+                    ? ` • ${formatFileSize(storageUsage.usage || 0)} of ${formatFileSize(storageUsage.quota)} used`
+                    : ""}
+                </Badge>
+              )}
             </div>
             {sessions.length > 0 && (
               <Button
@@ -226,6 +637,9 @@ ${finalTranscriptText}`
         <div className="space-y-4">
           {sessions.map((session) => {
             const isExpanded = expandedSessions.has(session.id)
+            const sessionAudio = audioInfo[session.id]
+            const busyStatus = busySessions[session.id]
+            const silenceSavings = summarizeVoiceActivity(session.audioChunks || [])
 
             return (
               <Card
@@ -244,6 +658,47 @@ ${finalTranscriptText}`
                     </div>
 
                     <div className="flex items-center space-x-2">
+                      {busyStatus && (
+                        <span className="flex items-center text-xs text-slate-500">
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          {busyStatus}
+                          {audioExportsRef.current[session.id] && (
+                            <Button
+                              onClick={() => audioExportsRef.current[session.id]?.abort()}
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0 ml-1"
+                              title="Cancel export"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </span>
+                      )}
+                      {sessionAudio && (
+                        <>
+                          <Button
+                            onClick={() => retranscribeSession(session)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            disabled={!!busyStatus}
+                            title="Re-transcribe with Gemini"
+                          >
+                            <Sparkles className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            onClick={() => setExportSession(session)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            disabled={!!busyStatus}
+                            title="Download audio"
+                          >
+                            <FileAudio className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
                       <Button
                         onClick={() => toggleSessionExpansion(session.id)}
                         variant="ghost"
@@ -308,6 +763,27 @@ ${finalTranscriptText}`
                     <Badge variant="outline" className="text-xs">
                       {session.finalTranscripts.filter((t) => t).length} AI transcripts
                     </Badge>
+                    <Badge variant="outline" className="text-xs">
+                      {sessionAudio
+                        ? `${sessionAudio.chunkCount} audio chunks • ${formatFileSize(sessionAudio.bytes)}`
+                        : "No audio stored"}
+                    </Badge>
+                    {silenceSavings.savedSeconds > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        🤫 {silenceSavings.skippedChunks} API calls saved •{" "}
+                        {formatDuration(Math.round(silenceSavings.savedSeconds))} not sent
+                      </Badge>
+                    )}
+                    {session.pauses && session.pauses.length > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        ⏸️ {session.pauses.length} {session.pauses.length === 1 ? "pause" : "pauses"}
+                      </Badge>
+                    )}
+                    {session.sourceMix && (
+                      <Badge variant="outline" className="text-xs">
+                        🎚️ {formatSourceMix(session.sourceMix, getCaptureSources(session.captureMode))}
+                      </Badge>
+                    )}
                   </div>
 
                   {/* Expanded Content */}
@@ -315,6 +791,29 @@ ${finalTranscriptText}`
                     <>
                       <Separator className="my-4" />
 
+                      {/* Audio Playback */}
+                      {playableChunks[session.id] && playableChunks[session.id].length > 0 && (
+                        <div className="mb-4">
+                          <h4 className="text-sm font-medium mb-2">Audio</h4>
+                          <div className="space-y-2">
+                            {playableChunks[session.id].map((chunk) => (
+                              <div key={chunk.chunkNumber} className="flex items-center space-x-3">
+                                <span className="text-xs text-slate-500 min-w-[64px]">Chunk {chunk.chunkNumber}</span>
+                                <audio
+                                  ref={(element) => {
+                                    if (element) applyOutputDevice(element, audioSettings.outputDeviceId)
+                                  }}
+                                  controls
+                                  preload="none"
+                                  src={chunk.url}
+                                  className="h-8 w-full"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Live Transcript Preview */}
                       {session.liveTranscript.length > 0 && (
                         <div className="mb-4">
@@ -370,6 +869,16 @@ ${finalTranscriptText}`
           })}
         </div>
       )}
+
+      <AudioExportDialog
+        open={!!exportSession}
+        onOpenChange={(open) => !open && setExportSession(null)}
+        defaultSampleRate={audioSettings.sampleRate}
+        defaultBitRate={audioSettings.bitRate}
+        originalAvailable={exportHasRecording}
+        originalUnavailableReason="No original recording is stored for this session."
+        onExport={(choice) => exportSession && downloadSessionAudio(exportSession, choice)}
+      />
     </div>
   )
 }
@@ -0,0 +1,343 @@
+"use client"
+
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Badge } from "@/components/ui/badge"
+import { Play, Pause, RotateCcw, RotateCw, Keyboard } from "lucide-react"
+import { formatTimestamp } from "@/lib/transcript-segments"
+import { applyOutputDevice } from "@/lib/audio-devices"
+
+interface PlayerChunk {
+  blob: Blob
+  duration: number
+  startOffset?: number
+}
+
+interface SessionAudioPlayerProps {
+  chunks: PlayerChunk[]
+  onTimeUpdate?: (seconds: number) => void
+  onPlayingChange?: (isPlaying: boolean) => void
+  outputDeviceId?: string // "" or unset plays through the system default
+}
+
+export interface SessionAudioPlayerHandle {
+  seek: (seconds: number, autoPlay?: boolean) => void
+  togglePlay: () => void
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2]
+const SKIP_SECONDS = 5
+
+// Plays the session's chunks back to back as one timeline, without merging them into a single file
+export const SessionAudioPlayer = forwardRef<SessionAudioPlayerHandle, SessionAudioPlayerProps>(
+  function SessionAudioPlayer({ chunks, onTimeUpdate, onPlayingChange, outputDeviceId = "" }, ref) {
+    const [currentTime, setCurrentTime] = useState(0)
+    const [isPlaying, setIsPlaying] = useState(false)
+    const [playbackRate, setPlaybackRate] = useState(1)
+
+    const audioRef = useRef<HTMLAudioElement | null>(null)
+    const activeChunkRef = useRef(-1)
+    const pendingSeekRef = useRef<{ offset: number; autoPlay: boolean } | null>(null)
+    // Object URLs are cached per blob so new chunks arriving during playback don't invalidate the current one
+    const urlCacheRef = useRef(new Map<Blob, string>())
+
+    // Session timeline: chunks are placed at their stored offset, or after the previous chunk
+    const timeline = useMemo(() => {
+      let runningOffset = 0
+      const cache = urlCacheRef.current
+      return chunks.map((chunk) => {
+        const start = chunk.startOffset ?? runningOffset
+        runningOffset = start + chunk.duration
+
+        let url = cache.get(chunk.blob)
+        if (!url) {
+          url = URL.createObjectURL(chunk.blob)
+          cache.set(chunk.blob, url)
+        }
+        return { start, duration: chunk.duration, url }
+      })
+    }, [chunks])
+
+    useEffect(() => {
+      const cache = urlCacheRef.current
+      const currentBlobs = new Set(chunks.map((chunk) => chunk.blob))
+      cache.forEach((url, blob) => {
+        if (!currentBlobs.has(blob)) {
+          URL.revokeObjectURL(url)
+          cache.delete(blob)
+        }
+      })
+    }, [chunks])
+
+    useEffect(() => {
+      if (audioRef.current) applyOutputDevice(audioRef.current, outputDeviceId)
+    }, [outputDeviceId])
+
+    useEffect(() => {
+      const cache = urlCacheRef.current
+      return () => {
+        cache.forEach((url) => URL.revokeObjectURL(url))
+        cache.clear()
+      }
+    }, [])
+
+    const totalDuration =
+      timeline.length > 0 ? timeline[timeline.length - 1].start + timeline[timeline.length - 1].duration : 0
+
+    const findChunkIndex = useCallback(
+      (seconds: number) => {
+        const index = timeline.findIndex((entry) => seconds < entry.start + entry.duration)
+        return index === -1 ? timeline.length - 1 : index
+      },
+      [timeline],
+    )
+
+    const loadChunk = useCallback(
+      (chunkIndex: number, offset: number, autoPlay: boolean) => {
+        const audio = audioRef.current
+        if (!audio || !timeline[chunkIndex]) return
+
+        if (activeChunkRef.current === chunkIndex) {
+          audio.currentTime = offset
+          if (autoPlay) audio.play().catch((error) => console.error("Playback failed:", error))
+          return
+        }
+
+        activeChunkRef.current = chunkIndex
+        pendingSeekRef.current = { offset, autoPlay }
+        audio.src = timeline[chunkIndex].url
+        audio.playbackRate = playbackRate
+        audio.load()
+      },
+      [timeline, playbackRate],
+    )
+
+    const seek = useCallback(
+      (seconds: number, autoPlay = isPlaying) => {
+        if (timeline.length === 0) return
+
+        const target = Math.max(0, Math.min(seconds, totalDuration))
+        const chunkIndex = findChunkIndex(target)
+        loadChunk(chunkIndex, Math.max(0, target - timeline[chunkIndex].start), autoPlay)
+        setCurrentTime(target)
+        onTimeUpdate?.(target)
+      },
+      [timeline, totalDuration, isPlaying, findChunkIndex, loadChunk, onTimeUpdate],
+    )
+
+    const togglePlay = useCallback(() => {
+      const audio = audioRef.current
+      if (!audio || timeline.length === 0) return
+
+      if (activeChunkRef.current === -1) {
+        seek(currentTime, true)
+      } else if (audio.paused) {
+        audio.play().catch((error) => console.error("Playback failed:", error))
+      } else {
+        audio.pause()
+      }
+    }, [timeline, currentTime, seek])
+
+    const changePlaybackRate = useCallback((direction: 1 | -1) => {
+      setPlaybackRate((prev) => {
+        const index = PLAYBACK_RATES.indexOf(prev)
+        const nextIndex = Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index + direction))
+        return PLAYBACK_RATES[nextIndex]
+      })
+    }, [])
+
+    useImperativeHandle(ref, () => ({ seek, togglePlay }), [seek, togglePlay])
+
+    useEffect(() => {
+      if (audioRef.current) {
+        audioRef.current.playbackRate = playbackRate
+      }
+    }, [playbackRate])
+
+    useEffect(() => {
+      onPlayingChange?.(isPlaying)
+    }, [isPlaying, onPlayingChange])
+
+    // Start over when the chunk being played is no longer part of the session (e.g. session reset)
+    useEffect(() => {
+      const audio = audioRef.current
+      const activeChunk = timeline[activeChunkRef.current]
+      if (activeChunkRef.current !== -1 && (!audio || !activeChunk || audio.src !== activeChunk.url)) {
+        audio?.pause()
+        activeChunkRef.current = -1
+        pendingSeekRef.current = null
+        setCurrentTime(0)
+      }
+    }, [timeline])
+
+    // Keyboard shortcuts: Space/K play-pause, ←/J and →/L skip 5s, < and > change speed
+    useEffect(() => {
+      const handleKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null
+        if (
+          target &&
+          (target.isContentEditable ||
+            ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(target.tagName) ||
+            target.getAttribute("role") === "slider")
+        ) {
+          return
+        }
+        if (event.metaKey || event.ctrlKey || event.altKey || timeline.length === 0) return
+
+        switch (event.key) {
+          case " ":
+          case "k":
+            event.preventDefault()
+            togglePlay()
+            break
+          case "ArrowLeft":
+          case "j":
+            event.preventDefault()
+            seek(currentTime - SKIP_SECONDS)
+            break
+          case "ArrowRight":
+          case "l":
+            event.preventDefault()
+            seek(currentTime + SKIP_SECONDS)
+            break
+          case "<":
+            changePlaybackRate(-1)
+            break
+          case ">":
+            changePlaybackRate(1)
+            break
+        }
+      }
+
+      window.addEventListener("keydown", handleKeyDown)
+      return () => window.removeEventListener("keydown", handleKeyDown)
+    }, [timeline, currentTime, seek, togglePlay, changePlaybackRate])
+
+    const handleLoadedMetadata = () => {
+      const audio = audioRef.current
+      if (!audio) return
+
+      // MediaRecorder WebM files have no duration header; jumping far ahead makes the browser compute it
+      if (audio.duration === Infinity) {
+        audio.currentTime = Number.MAX_SAFE_INTEGER
+        return
+      }
+
+      applyPendingSeek()
+    }
+
+    const handleDurationChange = () => {
+      const audio = audioRef.current
+      if (audio && Number.isFinite(audio.duration) && pendingSeekRef.current) {
+        applyPendingSeek()
+      }
+    }
+
+    const applyPendingSeek = () => {
+      const audio = audioRef.current
+      const pending = pendingSeekRef.current
+      if (!audio || !pending) return
+
+      pendingSeekRef.current = null
+      audio.currentTime = pending.offset
+      if (pending.autoPlay) {
+        audio.play().catch((error) => console.error("Playback failed:", error))
+      }
+    }
+
+    const handleTimeUpdate = () => {
+      const audio = audioRef.current
+      const chunkIndex = activeChunkRef.current
+      if (!audio || pendingSeekRef.current || !timeline[chunkIndex]) return
+
+      const seconds = timeline[chunkIndex].start + audio.currentTime
+      setCurrentTime(seconds)
+      onTimeUpdate?.(seconds)
+    }
+
+    const handleEnded = () => {
+      const nextChunk = activeChunkRef.current + 1
+      if (nextChunk < timeline.length) {
+        loadChunk(nextChunk, 0, true)
+      } else {
+        setIsPlaying(false)
+      }
+    }
+
+    if (chunks.length === 0) return null
+
+    return (
+      <div className="space-y-2 bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3">
+        <audio
+          ref={audioRef}
+          preload="metadata"
+          onLoadedMetadata={handleLoadedMetadata}
+          onDurationChange={handleDurationChange}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={handleEnded}
+          className="hidden"
+        />
+
+        <div className="flex items-center space-x-2">
+          <Button
+            onClick={() => seek(currentTime - SKIP_SECONDS)}
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            title="Back 5s (←)"
+          >
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+          <Button onClick={togglePlay} size="sm" className="h-8 w-8 p-0" title="Play/Pause (Space)">
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button
+            onClick={() => seek(currentTime + SKIP_SECONDS)}
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            title="Forward 5s (→)"
+          >
+            <RotateCw className="h-3 w-3" />
+          </Button>
+
+          <span className="font-mono text-xs text-slate-600 dark:text-slate-300 min-w-[88px]">
+            {formatTimestamp(currentTime)} / {formatTimestamp(totalDuration)}
+          </span>
+
+          <Slider
+            value={[currentTime]}
+            min={0}
+            max={Math.max(totalDuration, 1)}
+            step={0.1}
+            onValueChange={([value]) => seek(value)}
+            className="flex-1"
+          />
+
+          <Button
+            onClick={() =>
+              setPlaybackRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length])
+            }
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs font-mono min-w-[52px]"
+            title="Playback speed (< / >)"
+          >
+            {playbackRate}×
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-1 text-[11px] text-slate-500 dark:text-slate-400">
+          <Keyboard className="h-3 w-3" />
+          <span>Space play/pause • ←/→ ±5s • &lt;/&gt; speed • click a line to jump</span>
+          <Badge variant="outline" className="ml-auto text-[10px]">
+            {chunks.length} chunks
+          </Badge>
+        </div>
+      </div>
+    )
+  },
+)
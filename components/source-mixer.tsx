@@ -0,0 +1,81 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Mic, Monitor, Volume2, VolumeX } from "lucide-react"
+import {
+  MAX_SOURCE_GAIN,
+  SOURCE_LABELS,
+  type AudioSourceId,
+  type SourceLevel,
+  type SourceMix,
+} from "@/lib/source-tracks"
+
+interface SourceMixerProps {
+  sources: AudioSourceId[]
+  mix: SourceMix
+  onMixChange: (mix: SourceMix) => void
+  levels: Partial<Record<AudioSourceId, SourceLevel>> // live, while recording
+  clipping: Partial<Record<AudioSourceId, boolean>>
+}
+
+// Gain, mute and a live meter for each capture source
+export function SourceMixer({ sources, mix, onMixChange, levels, clipping }: SourceMixerProps) {
+  const updateSource = (source: AudioSourceId, changes: Partial<SourceMix[AudioSourceId]>) => {
+    onMixChange({ ...mix, [source]: { ...mix[source], ...changes } })
+  }
+
+  return (
+    <div className="space-y-3">
+      {sources.map((source) => {
+        const settings = mix[source]
+        const level = levels[source]?.level || 0
+        const Icon = source === "microphone" ? Mic : Monitor
+
+        return (
+          <div key={source} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Icon className="h-4 w-4 text-slate-500" />
+              <Label className="text-xs text-slate-600 dark:text-slate-400 w-24 shrink-0">
+                {SOURCE_LABELS[source]}
+              </Label>
+              <Slider
+                value={[Math.round(settings.gain * 100)]}
+                onValueChange={([value]) => updateSource(source, { gain: value / 100 })}
+                min={0}
+                max={MAX_SOURCE_GAIN * 100}
+                step={5}
+                disabled={settings.muted}
+                className="flex-1"
+              />
+              <span className="text-xs text-slate-500 w-10 text-right">{Math.round(settings.gain * 100)}%</span>
+              <Button
+                onClick={() => updateSource(source, { muted: !settings.muted })}
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                title={settings.muted ? `Unmute ${SOURCE_LABELS[source]}` : `Mute ${SOURCE_LABELS[source]}`}
+              >
+                {settings.muted ? <VolumeX className="h-3 w-3 text-red-500" /> : <Volume2 className="h-3 w-3" />}
+              </Button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="flex-1 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-75 ${clipping[source] ? "bg-red-500" : "bg-emerald-400"}`}
+                  style={{ width: `${Math.min(100, level * 300)}%` }}
+                />
+              </div>
+              <span
+                className={`text-[10px] font-semibold w-8 ${clipping[source] ? "text-red-500" : "text-transparent"}`}
+              >
+                CLIP
+              </span>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
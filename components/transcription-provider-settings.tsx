@@ -0,0 +1,76 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AudioWaveform } from "lucide-react"
+import { OpenAICompatibleSettings } from "@/components/openai-compatible-settings"
+import { OfflineWhisperSettings } from "@/components/offline-whisper-settings"
+import {
+  TRANSCRIPTION_PROVIDER_NAMES,
+  loadActiveProviderId,
+  saveActiveProviderId,
+  type TranscriptionProviderId,
+} from "@/lib/transcription-providers"
+
+interface TranscriptionProviderSettingsProps {
+  onProviderChange: (providerId: TranscriptionProviderId) => void
+}
+
+const PROVIDER_DESCRIPTIONS: Record<TranscriptionProviderId, string> = {
+  gemini: "Speaker-labelled transcripts from Google Gemini. Configure API keys below.",
+  "openai-compatible": "Any server exposing /audio/transcriptions, e.g. a self-hosted Whisper on your network.",
+  "offline-whisper": "Whisper running on this device. No API key or network needed once the model is downloaded.",
+}
+
+export function TranscriptionProviderSettings({ onProviderChange }: TranscriptionProviderSettingsProps) {
+  const [providerId, setProviderId] = useState<TranscriptionProviderId>("gemini")
+
+  // Load the active provider from localStorage on mount
+  useEffect(() => {
+    setProviderId(loadActiveProviderId())
+  }, [])
+
+  const handleProviderChange = (value: TranscriptionProviderId) => {
+    setProviderId(value)
+    saveActiveProviderId(value)
+    onProviderChange(value)
+  }
+
+  return (
+    <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm transition-colors duration-300">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <AudioWaveform className="h-5 w-5 text-indigo-500" />
+          <span>Transcription Provider</span>
+          <Badge variant="outline" className="ml-auto">
+            {TRANSCRIPTION_PROVIDER_NAMES[providerId]}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Final transcripts are produced by</Label>
+          <Select value={providerId} onValueChange={(value) => handleProviderChange(value as TranscriptionProviderId)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSCRIPTION_PROVIDER_NAMES) as TranscriptionProviderId[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {TRANSCRIPTION_PROVIDER_NAMES[id]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-600 dark:text-slate-400">{PROVIDER_DESCRIPTIONS[providerId]}</p>
+        </div>
+
+        {providerId === "openai-compatible" && <OpenAICompatibleSettings />}
+        {providerId === "offline-whisper" && <OfflineWhisperSettings />}
+      </CardContent>
+    </Card>
+  )
+}
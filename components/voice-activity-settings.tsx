@@ -0,0 +1,84 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { VolumeX } from "lucide-react"
+import {
+  DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  MAX_PAUSE_SECONDS,
+  MIN_PAUSE_SECONDS,
+  loadVoiceActivitySettings,
+  saveVoiceActivitySettings,
+  type SilenceHandling,
+  type VoiceActivitySettings as VoiceActivitySettingsType,
+} from "@/lib/voice-activity"
+
+interface VoiceActivitySettingsProps {
+  onSettingsChange: (settings: VoiceActivitySettingsType) => void
+}
+
+export function VoiceActivitySettings({ onSettingsChange }: VoiceActivitySettingsProps) {
+  const [settings, setSettings] = useState<VoiceActivitySettingsType>(DEFAULT_VOICE_ACTIVITY_SETTINGS)
+
+  // Load saved settings from localStorage on mount
+  useEffect(() => {
+    setSettings(loadVoiceActivitySettings())
+  }, [])
+
+  const updateSetting = <K extends keyof VoiceActivitySettingsType>(key: K, value: VoiceActivitySettingsType[K]) => {
+    const newSettings = saveVoiceActivitySettings({ ...settings, [key]: value })
+    setSettings(newSettings)
+    onSettingsChange(newSettings)
+  }
+
+  return (
+    <Card className="border-0 shadow-lg bg-card/80 backdrop-blur-sm transition-colors duration-300">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <VolumeX className="h-5 w-5" />
+          <span>Silence Detection</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">Silent audio</Label>
+          <Select value={settings.mode} onValueChange={(value) => updateSetting("mode", value as SilenceHandling)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Transcribe everything</SelectItem>
+              <SelectItem value="skip">Skip silent chunks</SelectItem>
+              <SelectItem value="trim">Skip silent chunks and trim long pauses</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.mode === "trim" && (
+          <div>
+            <Label className="text-xs text-slate-600 dark:text-slate-400 mb-2 block">
+              Shorten pauses to: {settings.maxPauseSeconds}s
+            </Label>
+            <Slider
+              value={[settings.maxPauseSeconds]}
+              onValueChange={([value]) => updateSetting("maxPauseSeconds", value)}
+              min={MIN_PAUSE_SECONDS}
+              max={MAX_PAUSE_SECONDS}
+              step={0.5}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3 text-xs text-slate-600 dark:text-slate-400 space-y-1">
+          <p>• Chunks without any speech aren&apos;t sent for transcription, saving API calls</p>
+          <p>• Trimming only changes what is uploaded; playback and exports keep the full recording</p>
+          <p>• What counts as silence follows the sensitivity in Audio Settings</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
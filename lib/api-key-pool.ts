@@ -0,0 +1,198 @@
+// Health of each Gemini API key. Every request reports back whether it succeeded, hit a rate limit or was
+// rejected, so chunks go to keys that are working: rate-limited keys cool down with exponential backoff, invalid
+// keys are left out until they work again, and the least busy healthy key gets the next chunk. Stats are kept
+// per key fingerprint in localStorage, so quota that ran out in one session is remembered in the next.
+
+import { isApiKeyError, type TranscriptionError } from "@/lib/transcription-errors"
+
+export type ApiKeyHealth = "healthy" | "cooling-down" | "invalid"
+
+export interface ApiKeyStats {
+  requests: number
+  successes: number
+  failures: number
+  rateLimits: number
+  consecutiveFailures: number // key and connection failures since the last success
+  cooldownUntil?: number // epoch ms; no chunks go to the key before then
+  invalid: boolean
+  lastError?: string
+  lastUsedAt?: number
+}
+
+export type ApiKeyOutcome = { type: "success" } | { type: "failure"; error: TranscriptionError }
+
+const API_KEY_POOL_STORAGE_KEY = "gemini-key-health"
+
+// Backoff for rate limits, doubled per consecutive failure, unless Gemini says how long to wait
+const BASE_COOLDOWN_MS = 30 * 1000
+const MAX_COOLDOWN_MS = 15 * 60 * 1000
+// Network errors and timeouts only cool a key down once they keep happening
+const FAILURES_BEFORE_COOLDOWN = 3
+
+const EMPTY_STATS: ApiKeyStats = {
+  requests: 0,
+  successes: 0,
+  failures: 0,
+  rateLimits: 0,
+  consecutiveFailures: 0,
+  invalid: false,
+}
+
+let stats: Record<string, ApiKeyStats> | null = null
+// Requests in flight per key; not persisted
+const inFlight = new Map<string, number>()
+const listeners = new Set<() => void>()
+
+// Stats are stored under a hash of the key rather than the key itself
+const fingerprint = (apiKey: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < apiKey.length; i++) {
+    hash ^= apiKey.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+const loadStats = (): Record<string, ApiKeyStats> => {
+  if (stats) return stats
+  stats = {}
+  try {
+    const saved = typeof localStorage !== "undefined" ? localStorage.getItem(API_KEY_POOL_STORAGE_KEY) : null
+    if (saved) stats = JSON.parse(saved)
+  } catch (error) {
+    console.error("Failed to load API key health:", error)
+  }
+  return stats!
+}
+
+const saveStats = () => {
+  try {
+    localStorage.setItem(API_KEY_POOL_STORAGE_KEY, JSON.stringify(loadStats()))
+  } catch (error) {
+    console.error("Failed to save API key health:", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export const subscribeToApiKeyPool = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getApiKeyStats = (apiKey: string): ApiKeyStats => ({
+  ...EMPTY_STATS,
+  ...loadStats()[fingerprint(apiKey)],
+})
+
+export const getApiKeyHealth = (apiKey: string, now = Date.now()): ApiKeyHealth => {
+  const keyStats = getApiKeyStats(apiKey)
+  if (keyStats.invalid) return "invalid"
+  if (keyStats.cooldownUntil && keyStats.cooldownUntil > now) return "cooling-down"
+  return "healthy"
+}
+
+export const countHealthyApiKeys = (apiKeys: string[]): number =>
+  apiKeys.filter((apiKey) => getApiKeyHealth(apiKey) === "healthy").length
+
+// When the first cooling-down key can be used again, or undefined if none is cooling down
+export const getNextCooldownEnd = (apiKeys: string[]): number | undefined => {
+  const ends = apiKeys
+    .filter((apiKey) => getApiKeyHealth(apiKey) === "cooling-down")
+    .map((apiKey) => getApiKeyStats(apiKey).cooldownUntil!)
+  return ends.length > 0 ? Math.min(...ends) : undefined
+}
+
+/**
+ * Take the healthy key with the fewest requests in flight (then the one used longest ago), skipping `exclude`.
+ * Returns its index in `apiKeys`, or -1 when no key can take a request right now. Pair with `releaseApiKey`.
+ */
+export const acquireApiKey = (apiKeys: string[], exclude: Set<string> = new Set()): number => {
+  let best = -1
+  apiKeys.forEach((apiKey, index) => {
+    if (exclude.has(apiKey) || getApiKeyHealth(apiKey) !== "healthy") return
+    if (best < 0) {
+      best = index
+      return
+    }
+    const busy = inFlight.get(apiKey) || 0
+    const bestBusy = inFlight.get(apiKeys[best]) || 0
+    const lastUsed = getApiKeyStats(apiKey).lastUsedAt || 0
+    if (busy < bestBusy || (busy === bestBusy && lastUsed < (getApiKeyStats(apiKeys[best]).lastUsedAt || 0))) {
+      best = index
+    }
+  })
+  if (best < 0) return -1
+
+  const apiKey = apiKeys[best]
+  inFlight.set(apiKey, (inFlight.get(apiKey) || 0) + 1)
+  const id = fingerprint(apiKey)
+  const keyStats = getApiKeyStats(apiKey)
+  loadStats()[id] = { ...keyStats, requests: keyStats.requests + 1, lastUsedAt: Date.now() }
+  saveStats()
+  return best
+}
+
+const getCooldownMs = (consecutiveFailures: number, retryAfterSeconds?: number) =>
+  retryAfterSeconds !== undefined
+    ? retryAfterSeconds * 1000
+    : Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** Math.max(0, consecutiveFailures - 1))
+
+// Failures that say something about the key or the connection to it. Content failures (no speech, an unreadable
+// or blocked response, audio too large) would fail the same way on any key, so they don't count against it.
+const isKeyFailure = (error: TranscriptionError) =>
+  isApiKeyError(error) || error.code === "network" || error.code === "timeout"
+
+// Record how a request made with `apiKey` went
+export const releaseApiKey = (apiKey: string, outcome: ApiKeyOutcome) => {
+  inFlight.set(apiKey, Math.max(0, (inFlight.get(apiKey) || 0) - 1))
+  const keyStats = getApiKeyStats(apiKey)
+
+  if (outcome.type === "success") {
+    loadStats()[fingerprint(apiKey)] = {
+      ...keyStats,
+      successes: keyStats.successes + 1,
+      consecutiveFailures: 0,
+      cooldownUntil: undefined,
+      invalid: false,
+    }
+    saveStats()
+    return
+  }
+
+  const consecutiveFailures = keyStats.consecutiveFailures + (isKeyFailure(outcome.error) ? 1 : 0)
+  const updated: ApiKeyStats = {
+    ...keyStats,
+    failures: keyStats.failures + 1,
+    consecutiveFailures,
+    lastError: outcome.error.message,
+  }
+  if (outcome.error.code === "invalid-key") {
+    updated.invalid = true
+    console.warn(`🔑 API key ${fingerprint(apiKey)} was rejected as invalid`)
+  } else if (
+    outcome.error.code === "quota" ||
+    (isKeyFailure(outcome.error) && consecutiveFailures >= FAILURES_BEFORE_COOLDOWN)
+  ) {
+    if (outcome.error.code === "quota") updated.rateLimits = keyStats.rateLimits + 1
+    const cooldownMs = getCooldownMs(consecutiveFailures, outcome.error.retryAfterSeconds)
+    updated.cooldownUntil = Date.now() + cooldownMs
+    console.warn(`🔑 API key ${fingerprint(apiKey)} cooling down for ${Math.round(cooldownMs / 1000)}s`)
+  }
+  loadStats()[fingerprint(apiKey)] = updated
+  saveStats()
+}
+
+// Forget a key's failures and cooldown, e.g. after its quota was raised
+export const resetApiKeyHealth = (apiKey: string) => {
+  const keyStats = getApiKeyStats(apiKey)
+  loadStats()[fingerprint(apiKey)] = {
+    ...keyStats,
+    consecutiveFailures: 0,
+    cooldownUntil: undefined,
+    invalid: false,
+    lastError: undefined,
+  }
+  saveStats()
+}
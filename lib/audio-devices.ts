@@ -0,0 +1,170 @@
+// Microphone and speaker selection. Devices are remembered by `deviceId`; their labels stay empty until the page
+// has been granted microphone access once. A recording's microphone can be swapped for another device without
+// touching the rest of the mixing graph, so unplugging a headset mid-session doesn't end the recording.
+
+import { getAudioContext } from "@/lib/audio-utils"
+import { readAnalyserLevel } from "@/lib/chunk-boundaries"
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[]
+  outputs: MediaDeviceInfo[]
+}
+
+// Chrome lists virtual "default" and "communications" entries that follow the system's choice
+const isVirtualDevice = (device: MediaDeviceInfo) =>
+  device.deviceId === "default" || device.deviceId === "communications"
+
+export const listAudioDevices = async (): Promise<AudioDeviceLists> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] }
+
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  const real = devices.filter((device) => device.deviceId && !isVirtualDevice(device))
+  return {
+    inputs: real.filter((device) => device.kind === "audioinput"),
+    outputs: real.filter((device) => device.kind === "audiooutput"),
+  }
+}
+
+// Speaker selection needs HTMLMediaElement.setSinkId, which Safari and older Firefox don't have
+export const isOutputSelectionSupported = () =>
+  typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype
+
+// Play `element` through the chosen speaker; "" is the system default
+export const applyOutputDevice = async (element: HTMLMediaElement, deviceId: string) => {
+  if (!isOutputSelectionSupported() || element.sinkId === deviceId) return
+  try {
+    await element.setSinkId(deviceId)
+  } catch (error) {
+    console.error("Failed to switch the output device:", error)
+  }
+}
+
+/**
+ * Open `deviceId` ("" for the default) and report its RMS level (0-1) every animation frame, for checking a
+ * microphone before recording. Resolves with a function that stops the preview and releases the device.
+ */
+export const startLevelPreview = async (deviceId: string, onLevel: (level: number) => void): Promise<() => void> => {
+  const AudioContextClass = getAudioContext()
+  if (!AudioContextClass) {
+    throw new Error("AudioContext not supported")
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+  })
+  const audioContext = new AudioContextClass()
+  const analyser = audioContext.createAnalyser()
+  analyser.fftSize = 1024
+  audioContext.createMediaStreamSource(stream).connect(analyser)
+  const data = new Uint8Array(analyser.fftSize)
+
+  let frame = 0
+  const tick = () => {
+    onLevel(readAnalyserLevel(analyser, data))
+    frame = requestAnimationFrame(tick)
+  }
+  tick()
+
+  return () => {
+    cancelAnimationFrame(frame)
+    stream.getTracks().forEach((track) => track.stop())
+    audioContext.close()
+  }
+}
+
+/**
+ * The microphone of a running recording. `output` stays connected to the mixing graph for the whole recording;
+ * when the device goes away, or the preferred one comes back, a new stream is opened and patched in behind it.
+ */
+export class SwappableMicrophone {
+  readonly output: GainNode
+  private audioContext: AudioContext
+  private stream: MediaStream
+  private source: MediaStreamAudioSourceNode
+  private getConstraints: () => MediaTrackConstraints
+  private onSwap?: (stream: MediaStream) => void
+  private swapping: Promise<void> = Promise.resolve()
+  private stopped = false
+
+  constructor(
+    audioContext: AudioContext,
+    stream: MediaStream,
+    getConstraints: () => MediaTrackConstraints,
+    onSwap?: (stream: MediaStream) => void,
+  ) {
+    this.audioContext = audioContext
+    this.stream = stream
+    this.getConstraints = getConstraints
+    this.onSwap = onSwap
+    this.output = audioContext.createGain()
+    this.source = audioContext.createMediaStreamSource(stream)
+    this.source.connect(this.output)
+
+    navigator.mediaDevices.addEventListener("devicechange", this.refresh)
+    this.watchTrack()
+  }
+
+  get currentStream(): MediaStream {
+    return this.stream
+  }
+
+  stop() {
+    this.stopped = true
+    navigator.mediaDevices.removeEventListener("devicechange", this.refresh)
+    this.stream.getTracks().forEach((track) => track.stop())
+  }
+
+  private watchTrack() {
+    this.stream.getAudioTracks()[0]?.addEventListener("ended", this.refresh, { once: true })
+  }
+
+  // Check the devices again, e.g. after the preferred microphone was changed
+  refresh = () => {
+    // Unplugging fires both "ended" and "devicechange"; checks run one at a time so only one swap happens
+    this.swapping = this.swapping
+      .then(() => this.swapIfNeeded())
+      .catch((error) => {
+        console.error("Failed to switch microphone:", error)
+      })
+  }
+
+  private async swapIfNeeded() {
+    if (this.stopped) return
+
+    const track = this.stream.getAudioTracks()[0]
+    const current = track?.getSettings()
+    const preferred = this.getConstraints().deviceId
+    const preferredId = typeof preferred === "object" && !Array.isArray(preferred) ? preferred.ideal : preferred
+    const devices = (await navigator.mediaDevices.enumerateDevices()).filter((device) => device.kind === "audioinput")
+    const systemDefault = devices.find((device) => device.deviceId === "default")
+
+    const lost =
+      !track ||
+      track.readyState === "ended" ||
+      (!!current?.deviceId && !devices.some((device) => device.deviceId === current.deviceId))
+    const preferredBack =
+      typeof preferredId === "string" &&
+      preferredId !== current?.deviceId &&
+      devices.some((device) => device.deviceId === preferredId)
+    // Without a preference, follow the system default when it moves to another device (a headset plugged in)
+    const defaultMoved = !preferredId && !!systemDefault && systemDefault.groupId !== current?.groupId
+    if (!lost && !preferredBack && !defaultMoved) return
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: this.getConstraints() })
+    if (this.stopped) {
+      stream.getTracks().forEach((newTrack) => newTrack.stop())
+      return
+    }
+
+    const source = this.audioContext.createMediaStreamSource(stream)
+    source.connect(this.output)
+    this.source.disconnect()
+    this.stream.getTracks().forEach((oldTrack) => oldTrack.stop())
+    this.source = source
+    this.stream = stream
+    this.watchTrack()
+
+    console.log(`🎙️ Switched microphone to ${stream.getAudioTracks()[0]?.label || "the default device"}`)
+    this.onSwap?.(stream)
+  }
+}
@@ -0,0 +1,177 @@
+// Web Worker that encodes PCM to MP3 (with the bundled lamejs encoder), WAV or FLAC, so long recordings don't
+// block the UI. Loaded through lib/audio-encoder.ts; never import this file from the main thread.
+
+import { Mp3Encoder } from "@breezystack/lamejs"
+import { FlacEncoder } from "@/lib/flac-encoder"
+import { WavEncoder } from "@/lib/wav-encoder"
+
+export type EncoderFormat = "mp3" | "wav" | "flac"
+
+export type AudioEncoderWorkerRequest =
+  | { type: "encode"; id: number; channels: Float32Array[]; sampleRate: number; bitRate: number }
+  | { type: "cancel"; id: number }
+  // Streams: audio arrives in pieces and each piece's encoded data is sent back as soon as it is ready
+  | { type: "start"; id: number; format: EncoderFormat; channelCount: number; sampleRate: number; bitRate: number }
+  | { type: "append"; id: number; channels: Float32Array[] }
+  | { type: "finish"; id: number }
+
+export type AudioEncoderWorkerResponse =
+  | { type: "progress"; id: number; progress: number } // 0-1
+  | { type: "result"; id: number; blob: Blob }
+  // Reply to "append" and "finish". After "finish", `header` (WAV and FLAC) replaces the start of the stream,
+  // which could only be written with placeholder sizes
+  | { type: "encoded"; id: number; data: Uint8Array; header?: Uint8Array }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string }
+
+interface StreamEncoder {
+  encode: (channels: Float32Array[]) => Uint8Array
+  finish: () => { data: Uint8Array; header?: Uint8Array }
+}
+
+// Samples per MP3 frame
+const SAMPLE_BLOCK_SIZE = 1152
+// Frames encoded between progress reports; the worker also checks for cancellation here (~5s of audio at 48 kHz)
+const BLOCKS_PER_STEP = 200
+
+const cancelled = new Set<number>()
+const streams = new Map<number, StreamEncoder>()
+
+const post = (message: AudioEncoderWorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer })
+
+const toPCM = (channelData: Float32Array, start: number, end: number) => {
+  const pcm = new Int16Array(end - start)
+  for (let i = start; i < end; i++) {
+    pcm[i - start] = Math.max(-32768, Math.min(32767, channelData[i] * 32767))
+  }
+  return pcm
+}
+
+// Let queued messages (cancellation, other jobs) run between steps
+const yieldToEventLoop = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// Encode samples [start, end) of every channel; stereo encoders get the left channel twice for mono input
+const encodeRange = (encoder: Mp3Encoder, channels: Float32Array[], stereo: boolean, start: number, end: number) => {
+  const mp3Data: Uint8Array[] = []
+  for (let i = start; i < end; i += SAMPLE_BLOCK_SIZE) {
+    const blockEnd = Math.min(end, i + SAMPLE_BLOCK_SIZE)
+    const left = toPCM(channels[0], i, blockEnd)
+    const mp3buf = stereo
+      ? encoder.encodeBuffer(left, channels[1] ? toPCM(channels[1], i, blockEnd) : left)
+      : encoder.encodeBuffer(left)
+    if (mp3buf.length > 0) {
+      mp3Data.push(mp3buf)
+    }
+  }
+  return mp3Data
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const data = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0))
+  let offset = 0
+  parts.forEach((part) => {
+    data.set(part, offset)
+    offset += part.length
+  })
+  return data
+}
+
+const encode = async (id: number, channels: Float32Array[], sampleRate: number, bitRate: number) => {
+  const stereo = channels.length > 1
+  const encoder = new Mp3Encoder(stereo ? 2 : 1, sampleRate, bitRate)
+  const length = channels[0]?.length || 0
+  const mp3Data: Uint8Array[] = []
+
+  for (let start = 0; start < length; start += SAMPLE_BLOCK_SIZE * BLOCKS_PER_STEP) {
+    const stepEnd = Math.min(length, start + SAMPLE_BLOCK_SIZE * BLOCKS_PER_STEP)
+    mp3Data.push(...encodeRange(encoder, channels, stereo, start, stepEnd))
+
+    post({ type: "progress", id, progress: stepEnd / length })
+    await yieldToEventLoop()
+    if (cancelled.has(id)) {
+      cancelled.delete(id)
+      post({ type: "cancelled", id })
+      return
+    }
+  }
+
+  const mp3buf = encoder.flush()
+  if (mp3buf.length > 0) {
+    mp3Data.push(mp3buf)
+  }
+
+  post({ type: "result", id, blob: new Blob(mp3Data, { type: "audio/mpeg" }) })
+}
+
+const createStreamEncoder = (
+  format: EncoderFormat,
+  channelCount: number,
+  sampleRate: number,
+  bitRate: number,
+): StreamEncoder => {
+  if (format === "mp3") {
+    const encoder = new Mp3Encoder(channelCount, sampleRate, bitRate)
+    return {
+      encode: (channels) => concat(encodeRange(encoder, channels, channelCount > 1, 0, channels[0]?.length || 0)),
+      finish: () => ({ data: concat([encoder.flush()]) }),
+    }
+  }
+
+  const encoder =
+    format === "flac" ? new FlacEncoder(channelCount, sampleRate) : new WavEncoder(channelCount, sampleRate)
+  return {
+    // Mono input to a stereo stream is duplicated, as for MP3
+    encode: (channels) =>
+      encoder.encode(
+        Array.from({ length: channelCount }, (_, index) => {
+          const channelData = channels[index] || channels[0]
+          return toPCM(channelData, 0, channelData.length)
+        }),
+      ),
+    finish: () => encoder.finish(),
+  }
+}
+
+const handleStreamRequest = (request: Extract<AudioEncoderWorkerRequest, { type: "start" | "append" | "finish" }>) => {
+  if (request.type === "start") {
+    const { format, channelCount, sampleRate, bitRate } = request
+    streams.set(request.id, createStreamEncoder(format, channelCount, sampleRate, bitRate))
+    return
+  }
+
+  const stream = streams.get(request.id)
+  if (!stream) throw new Error(`No encoder stream ${request.id}`)
+
+  if (request.type === "append") {
+    const data = stream.encode(request.channels)
+    post({ type: "encoded", id: request.id, data }, [data.buffer])
+    return
+  }
+
+  const { data, header } = stream.finish()
+  streams.delete(request.id)
+  post({ type: "encoded", id: request.id, data, header }, [data.buffer])
+}
+
+self.addEventListener("message", async (event: MessageEvent<AudioEncoderWorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === "cancel") {
+    // A stream has nothing running between messages, so it can be dropped straight away
+    if (!streams.delete(request.id)) cancelled.add(request.id)
+    return
+  }
+
+  try {
+    if (request.type === "encode") {
+      await encode(request.id, request.channels, request.sampleRate, request.bitRate)
+    } else {
+      handleStreamRequest(request)
+    }
+  } catch (error) {
+    post({ type: "error", id: request.id, message: error instanceof Error ? error.message : String(error) })
+  } finally {
+    if (request.type === "encode") cancelled.delete(request.id)
+  }
+})
@@ -0,0 +1,183 @@
+// Audio encoding for the whole app: MP3 for chunks and exports, WAV and FLAC for lossless exports. Encoding runs
+// in a Web Worker (lib/audio-encoder-worker.ts) with lamejs bundled into the app, so it works offline and long
+// sessions don't freeze the recorder.
+
+import type { AudioEncoderWorkerRequest, AudioEncoderWorkerResponse, EncoderFormat } from "@/lib/audio-encoder-worker"
+
+export type { EncoderFormat }
+
+export interface Mp3EncodeOptions {
+  onProgress?: (progress: number) => void // 0-1
+  signal?: AbortSignal // aborting rejects with an "AbortError"
+  transfer?: boolean // hand the channel buffers to the worker instead of copying them; they become unusable here
+}
+
+interface PendingEncode {
+  resolve: (blob: Blob) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: number) => void
+}
+
+interface EncodedPiece {
+  data: Uint8Array
+  header?: Uint8Array
+}
+
+// Incremental encoder; feed it audio piece by piece so a long export never holds the whole session in memory
+export interface EncoderStream {
+  append: (channels: Float32Array[]) => Promise<Uint8Array> // encoded data for this piece; the channels are transferred
+  // The last encoded data, and for WAV and FLAC the final header to write over the start of the stream
+  finish: () => Promise<EncodedPiece>
+  cancel: () => void
+}
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingEncodes = new Map<number, PendingEncode>()
+// Reply expected for each stream; a stream handles one piece at a time
+const pendingStreamWrites = new Map<
+  number,
+  { resolve: (piece: EncodedPiece) => void; reject: (error: Error) => void }
+>()
+
+const createAbortError = () => new DOMException("Audio encoding was cancelled", "AbortError")
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError"
+
+const settle = (id: number, finish: (pending: PendingEncode) => void) => {
+  const pending = pendingEncodes.get(id)
+  if (!pending) return
+  pendingEncodes.delete(id)
+  finish(pending)
+}
+
+const handleWorkerMessage = (event: MessageEvent<AudioEncoderWorkerResponse>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case "progress":
+      pendingEncodes.get(message.id)?.onProgress?.(message.progress)
+      break
+    case "result":
+      settle(message.id, ({ resolve }) => resolve(message.blob))
+      break
+    case "encoded":
+      pendingStreamWrites.get(message.id)?.resolve({ data: message.data, header: message.header })
+      pendingStreamWrites.delete(message.id)
+      break
+    case "cancelled":
+      settle(message.id, ({ reject }) => reject(createAbortError()))
+      break
+    case "error":
+      console.error("❌ Audio encoder worker error:", message.message)
+      settle(message.id, ({ reject }) => reject(new Error(message.message)))
+      pendingStreamWrites.get(message.id)?.reject(new Error(message.message))
+      pendingStreamWrites.delete(message.id)
+      break
+  }
+}
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL("./audio-encoder-worker.ts", import.meta.url), { type: "module" })
+    worker.addEventListener("message", handleWorkerMessage)
+    worker.addEventListener("error", (event) => {
+      console.error("❌ Audio encoder worker crashed:", event.message)
+      const error = new Error(event.message || "Audio encoder worker crashed")
+      pendingEncodes.forEach(({ reject }) => reject(error))
+      pendingEncodes.clear()
+      pendingStreamWrites.forEach(({ reject }) => reject(error))
+      pendingStreamWrites.clear()
+      worker?.terminate()
+      worker = null
+    })
+  }
+  return worker
+}
+
+const postToWorker = (request: AudioEncoderWorkerRequest, transfer: Transferable[] = []) => {
+  getWorker().postMessage(request, transfer)
+}
+
+// Encode PCM (one Float32Array per channel, mono or stereo) to MP3
+export const encodeMp3 = (
+  channels: Float32Array[],
+  sampleRate: number,
+  bitRate = 192,
+  options: Mp3EncodeOptions = {},
+): Promise<Blob> => {
+  const { onProgress, signal, transfer } = options
+  if (signal?.aborted) return Promise.reject(createAbortError())
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    const stereoChannels = channels.slice(0, 2)
+
+    const onAbort = () => postToWorker({ type: "cancel", id })
+    signal?.addEventListener("abort", onAbort, { once: true })
+    const cleanUp = () => signal?.removeEventListener("abort", onAbort)
+
+    pendingEncodes.set(id, {
+      resolve: (blob) => {
+        cleanUp()
+        resolve(blob)
+      },
+      reject: (error) => {
+        cleanUp()
+        reject(error)
+      },
+      onProgress,
+    })
+    postToWorker(
+      { type: "encode", id, channels: stereoChannels, sampleRate, bitRate },
+      transfer ? [...new Set(stereoChannels.map((channel) => channel.buffer))] : [],
+    )
+  })
+}
+
+// `bitRate` only applies to MP3
+export const createEncoderStream = (
+  format: EncoderFormat,
+  channelCount: 1 | 2,
+  sampleRate: number,
+  bitRate = 192,
+): EncoderStream => {
+  const id = nextRequestId++
+  let closed = false
+  postToWorker({ type: "start", id, format, channelCount, sampleRate, bitRate })
+
+  const request = (message: AudioEncoderWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<EncodedPiece>((resolve, reject) => {
+      if (closed) {
+        reject(new Error("Encoder stream is closed"))
+        return
+      }
+      if (pendingStreamWrites.has(id)) {
+        reject(new Error("Wait for the previous piece before sending the next one"))
+        return
+      }
+      pendingStreamWrites.set(id, { resolve, reject })
+      postToWorker(message, transfer)
+    })
+
+  return {
+    append: async (channels) => {
+      const { data } = await request({ type: "append", id, channels }, [
+        ...new Set(channels.map((channel) => channel.buffer)),
+      ])
+      return data
+    },
+    finish: async () => {
+      const piece = await request({ type: "finish", id })
+      closed = true
+      return piece
+    },
+    cancel: () => {
+      if (closed) return
+      closed = true
+      postToWorker({ type: "cancel", id })
+      pendingStreamWrites.get(id)?.reject(createAbortError())
+      pendingStreamWrites.delete(id)
+    },
+  }
+}
@@ -0,0 +1,232 @@
+// Streaming export of a session's audio. Chunks are decoded, resampled and encoded one at a time and written to a
+// sink as soon as they are ready, so decoded audio never takes more memory than one chunk at the export sample
+// rate, however long the session is. The encoded file itself is either written to disk or collected in a Blob.
+
+import { getAudioContext } from "@/lib/audio-utils"
+import { createEncoderStream, type EncoderFormat, type EncoderStream } from "@/lib/audio-encoder"
+import type { ChannelLayout } from "@/lib/source-tracks"
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string
+      types?: { description?: string; accept: Record<string, string[]> }[]
+    }) => Promise<FileSystemFileHandle>
+  }
+}
+
+export type AudioExportFormat = EncoderFormat
+
+// Where exported audio goes: a Blob built up in memory, or a file on disk
+export interface AudioExportSink {
+  write: (data: Uint8Array) => Promise<void>
+  patch: (position: number, data: Uint8Array) => Promise<void> // overwrite bytes already written
+  close: () => Promise<Blob | null> // the exported audio when it was collected in memory, null when written to a file
+  abort: () => Promise<void>
+}
+
+export interface AudioExportOptions {
+  format?: AudioExportFormat
+  sampleRate?: number
+  bitRate?: number // MP3 only
+  mono?: boolean // downmix stereo recordings
+  onProgress?: (progress: number) => void // 0-1
+  signal?: AbortSignal // aborting rejects with an "AbortError"
+}
+
+interface ExportableChunk {
+  blob: Blob
+  duration: number
+  channelLayout?: ChannelLayout
+}
+
+export const DEFAULT_EXPORT_SAMPLE_RATE = 48000
+export const DEFAULT_EXPORT_BIT_RATE = 256
+
+export const AUDIO_EXPORT_FORMATS: Record<
+  AudioExportFormat,
+  { label: string; extension: string; mimeType: string; lossless: boolean }
+> = {
+  mp3: { label: "MP3", extension: "mp3", mimeType: "audio/mpeg", lossless: false },
+  wav: { label: "WAV", extension: "wav", mimeType: "audio/wav", lossless: true },
+  flac: { label: "FLAC", extension: "flac", mimeType: "audio/flac", lossless: true },
+}
+
+// Encoded parts are folded into one Blob every this many bytes, which lets the browser move them out of the JS heap
+const BLOB_SINK_FLUSH_BYTES = 16 * 1024 * 1024
+// lamejs writes no gapless (LAME) header, so decoders return its encoder delay plus their own as leading silence
+const MP3_PRIMING_SAMPLES = 576 + 529
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+}
+
+export const createBlobSink = (type = "audio/mpeg"): AudioExportSink => {
+  let blob = new Blob([], { type })
+  let parts: Uint8Array[] = []
+  let pendingBytes = 0
+
+  const fold = () => {
+    blob = new Blob([blob, ...parts], { type })
+    parts = []
+    pendingBytes = 0
+  }
+
+  return {
+    write: async (data) => {
+      parts.push(data)
+      pendingBytes += data.length
+      if (pendingBytes >= BLOB_SINK_FLUSH_BYTES) fold()
+    },
+    patch: async (position, data) => {
+      fold()
+      blob = new Blob([blob.slice(0, position), data, blob.slice(position + data.length)], { type })
+    },
+    close: async () => {
+      fold()
+      return blob
+    },
+    abort: async () => {
+      parts = []
+      blob = new Blob([], { type })
+    },
+  }
+}
+
+export const createFileSink = async (handle: FileSystemFileHandle): Promise<AudioExportSink> => {
+  const writable = await handle.createWritable()
+  return {
+    write: (data) => writable.write(data),
+    patch: (position, data) => writable.write({ type: "write", position, data }),
+    close: async () => {
+      await writable.close()
+      return null
+    },
+    abort: () => writable.abort(),
+  }
+}
+
+/**
+ * Ask where to save the export, for writing straight to disk. Returns null when the browser can't write files
+ * directly. Call it from the click handler before anything is awaited, or the browser refuses to open the picker;
+ * closing the picker rejects with an "AbortError".
+ */
+export const pickExportFile = async (
+  suggestedName: string,
+  format: AudioExportFormat = "mp3",
+): Promise<FileSystemFileHandle | null> => {
+  if (!window.showSaveFilePicker) return null
+  const { label, extension, mimeType } = AUDIO_EXPORT_FORMATS[format]
+  return window.showSaveFilePicker({
+    suggestedName,
+    types: [{ description: `${label} audio`, accept: { [mimeType]: [`.${extension}`] } }],
+  })
+}
+
+// File extension for a recording kept in the container the browser recorded it in
+export const getRecordingExtension = (blob: Blob) => {
+  if (blob.type.includes("ogg")) return "ogg"
+  if (blob.type.includes("mp4")) return "m4a"
+  if (blob.type.includes("wav")) return "wav"
+  return "webm"
+}
+
+// Sample rate of the first MP3 frame header, or null if the blob doesn't start with one
+const readMp3SampleRate = async (blob: Blob): Promise<number | null> => {
+  const header = new Uint8Array(await blob.slice(0, 4).arrayBuffer())
+  if (header.length < 4 || header[0] !== 0xff || (header[1] & 0xe0) !== 0xe0) return null
+
+  const version = (header[1] >> 3) & 0x03
+  const rateIndex = (header[2] >> 2) & 0x03
+  return MP3_SAMPLE_RATES[version]?.[rateIndex] ?? null
+}
+
+const isMp3 = (blob: Blob) => blob.type.includes("mpeg") || blob.type.includes("mp3")
+
+// Samples of a decoded chunk that belong to the recording: without the MP3 priming, and no longer than the chunk
+const getChunkRange = async (chunk: ExportableChunk, audioBuffer: AudioBuffer): Promise<[number, number]> => {
+  if (!isMp3(chunk.blob)) return [0, audioBuffer.length]
+
+  const sourceRate = (await readMp3SampleRate(chunk.blob)) || audioBuffer.sampleRate
+  const start = Math.min(audioBuffer.length, Math.round((MP3_PRIMING_SAMPLES / sourceRate) * audioBuffer.sampleRate))
+  const length = chunk.duration > 0 ? Math.round(chunk.duration * audioBuffer.sampleRate) : audioBuffer.length
+  return [start, Math.min(audioBuffer.length, start + length)]
+}
+
+// Copies of the chunk's samples laid out for the export: stereo gets mono duplicated, mono gets stereo averaged
+const getExportChannels = (audioBuffer: AudioBuffer, channelCount: number, start: number, end: number) => {
+  const left = audioBuffer.getChannelData(0).slice(start, end)
+  const right = audioBuffer.numberOfChannels > 1 ? audioBuffer.getChannelData(1).slice(start, end) : null
+
+  if (channelCount === 2) return [left, right || left.slice()]
+  if (right) {
+    for (let i = 0; i < left.length; i++) left[i] = (left[i] + right[i]) / 2
+  }
+  return [left]
+}
+
+/**
+ * Encode chunks into one continuous file of `format` written to `sink`. Resolves with what the sink returns on
+ * close. Stereo recordings stay stereo unless `mono` is set; everything is resampled to `sampleRate`.
+ */
+export const exportAudioChunks = async (
+  chunks: ExportableChunk[],
+  sink: AudioExportSink,
+  options: AudioExportOptions = {},
+): Promise<Blob | null> => {
+  if (chunks.length === 0) {
+    throw new Error("No audio chunks to export")
+  }
+
+  const {
+    format = "mp3",
+    sampleRate = DEFAULT_EXPORT_SAMPLE_RATE,
+    bitRate = DEFAULT_EXPORT_BIT_RATE,
+    mono = false,
+    onProgress,
+    signal,
+  } = options
+  const AudioContextClass = getAudioContext()
+  if (!AudioContextClass) {
+    throw new Error("AudioContext not supported")
+  }
+
+  // Decoding into a context at the export rate resamples every chunk to it
+  const audioContext = new AudioContextClass({ sampleRate })
+  const totalDuration = chunks.reduce((acc, chunk) => acc + chunk.duration, 0)
+  let exportedDuration = 0
+  let stream: EncoderStream | null = null
+  let channelCount: 1 | 2 = !mono && chunks.some((chunk) => chunk.channelLayout === "stereo") ? 2 : 1
+
+  try {
+    for (const chunk of chunks) {
+      signal?.throwIfAborted()
+      const audioBuffer = await audioContext.decodeAudioData(await chunk.blob.arrayBuffer())
+
+      if (!stream) {
+        if (!mono && audioBuffer.numberOfChannels > 1) channelCount = 2
+        stream = createEncoderStream(format, channelCount, audioBuffer.sampleRate, bitRate)
+      }
+
+      const [start, end] = await getChunkRange(chunk, audioBuffer)
+      signal?.throwIfAborted()
+      await sink.write(await stream.append(getExportChannels(audioBuffer, channelCount, start, end)))
+
+      exportedDuration += chunk.duration
+      onProgress?.(totalDuration > 0 ? Math.min(1, exportedDuration / totalDuration) : 0)
+    }
+
+    const { data, header } = await stream!.finish()
+    await sink.write(data)
+    if (header) await sink.patch(0, header)
+    console.log(`💾 Exported ${chunks.length} chunk(s), ${Math.round(totalDuration)}s of ${format.toUpperCase()} audio`)
+    return await sink.close()
+  } catch (error) {
+    stream?.cancel()
+    await sink.abort().catch(() => {})
+    throw error
+  } finally {
+    await audioContext.close()
+  }
+}
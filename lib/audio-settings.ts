@@ -0,0 +1,150 @@
+// Capture settings: sample rate and bit rate of the recording, the browser's voice processing, the recognition
+// language and how quiet speech can be before it counts as silence. Saved in localStorage and checked against
+// what the browser reports it can do before a recording starts.
+
+import { getAudioContext } from "@/lib/audio-utils"
+
+export interface AudioSettings {
+  sampleRate: number
+  bitRate: number // kbps, for the recorder and the MP3 chunks
+  autoGain: boolean
+  noiseSuppression: boolean
+  echoCancellation: boolean
+  language: string
+  sensitivity: number // 0-100
+  inputDeviceId: string // microphone, "" for the system default
+  outputDeviceId: string // speaker for playback, "" for the system default
+}
+
+export type ProcessingConstraint = "autoGainControl" | "noiseSuppression" | "echoCancellation"
+
+export interface AudioCapabilities {
+  sampleRates: number[] // of SAMPLE_RATE_OPTIONS, the ones an AudioContext actually runs at
+  constraints: Record<ProcessingConstraint | "sampleRate", boolean>
+}
+
+export const SAMPLE_RATE_OPTIONS = [22050, 44100, 48000]
+export const BIT_RATE_OPTIONS = [64, 128, 192, 320]
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  sampleRate: 48000,
+  bitRate: 192,
+  autoGain: true,
+  noiseSuppression: true,
+  echoCancellation: true,
+  language: "en-US",
+  sensitivity: 50,
+  inputDeviceId: "",
+  outputDeviceId: "",
+}
+
+const AUDIO_SETTINGS_STORAGE_KEY = "audio-settings"
+
+const nearest = (value: number, options: number[]) =>
+  options.reduce((best, option) => (Math.abs(option - value) < Math.abs(best - value) ? option : best))
+
+const normalizeAudioSettings = (settings: AudioSettings): AudioSettings => ({
+  sampleRate: nearest(Number(settings.sampleRate) || DEFAULT_AUDIO_SETTINGS.sampleRate, SAMPLE_RATE_OPTIONS),
+  bitRate: nearest(Number(settings.bitRate) || DEFAULT_AUDIO_SETTINGS.bitRate, BIT_RATE_OPTIONS),
+  autoGain: settings.autoGain !== false,
+  noiseSuppression: settings.noiseSuppression !== false,
+  echoCancellation: settings.echoCancellation !== false,
+  language:
+    typeof settings.language === "string" && settings.language.trim()
+      ? settings.language
+      : DEFAULT_AUDIO_SETTINGS.language,
+  sensitivity: Number.isFinite(Number(settings.sensitivity))
+    ? Math.min(100, Math.max(0, Math.round(Number(settings.sensitivity) / 5) * 5))
+    : DEFAULT_AUDIO_SETTINGS.sensitivity,
+  inputDeviceId: typeof settings.inputDeviceId === "string" ? settings.inputDeviceId : "",
+  outputDeviceId: typeof settings.outputDeviceId === "string" ? settings.outputDeviceId : "",
+})
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const saved = localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY)
+    if (saved) {
+      return normalizeAudioSettings({ ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(saved) })
+    }
+  } catch (error) {
+    console.error("Failed to load audio settings:", error)
+  }
+  return DEFAULT_AUDIO_SETTINGS
+}
+
+export const saveAudioSettings = (settings: AudioSettings): AudioSettings => {
+  const normalized = normalizeAudioSettings(settings)
+  localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(normalized))
+  return normalized
+}
+
+let capabilitiesPromise: Promise<AudioCapabilities> | null = null
+
+// An AudioContext that ignores the requested rate (older Safari) reports the rate it really runs at
+const probeSampleRate = async (sampleRate: number): Promise<boolean> => {
+  const AudioContextClass = getAudioContext()
+  if (!AudioContextClass) return false
+  try {
+    const context = new AudioContextClass({ sampleRate })
+    const supported = context.sampleRate === sampleRate
+    await context.close()
+    return supported
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Which sample rates and voice processing switches this browser supports. Probed once and cached; the
+ * probe opens and closes a short-lived AudioContext per sample rate.
+ */
+export const getAudioCapabilities = (): Promise<AudioCapabilities> => {
+  capabilitiesPromise ??= (async () => {
+    const supported: MediaTrackSupportedConstraints = navigator.mediaDevices?.getSupportedConstraints?.() || {}
+    const probed = await Promise.all(SAMPLE_RATE_OPTIONS.map(probeSampleRate))
+    return {
+      sampleRates: SAMPLE_RATE_OPTIONS.filter((_, index) => probed[index]),
+      constraints: {
+        sampleRate: !!supported.sampleRate,
+        autoGainControl: !!supported.autoGainControl,
+        noiseSuppression: !!supported.noiseSuppression,
+        echoCancellation: !!supported.echoCancellation,
+      },
+    }
+  })()
+  return capabilitiesPromise
+}
+
+// Settings as they can be applied here: an unsupported sample rate falls back to the nearest supported one
+export const resolveAudioSettings = (settings: AudioSettings, capabilities: AudioCapabilities): AudioSettings => {
+  if (capabilities.sampleRates.length === 0 || capabilities.sampleRates.includes(settings.sampleRate)) {
+    return settings
+  }
+  const sampleRate = nearest(settings.sampleRate, capabilities.sampleRates)
+  console.warn(`⚠️ ${settings.sampleRate} Hz isn't supported here, recording at ${sampleRate} Hz`)
+  return { ...settings, sampleRate }
+}
+
+// getUserMedia audio constraints for the microphone, leaving out the ones the browser doesn't know. The chosen
+// device is only preferred, so a missing one falls back to the default instead of failing
+export const getMicrophoneConstraints = (
+  settings: AudioSettings,
+  capabilities: AudioCapabilities,
+): MediaTrackConstraints => {
+  const { constraints } = capabilities
+  return {
+    channelCount: 2,
+    ...(settings.inputDeviceId && { deviceId: { ideal: settings.inputDeviceId } }),
+    ...(constraints.sampleRate && { sampleRate: settings.sampleRate }),
+    ...(constraints.echoCancellation && { echoCancellation: settings.echoCancellation }),
+    ...(constraints.noiseSuppression && { noiseSuppression: settings.noiseSuppression }),
+    ...(constraints.autoGainControl && { autoGainControl: settings.autoGain }),
+  }
+}
+
+/**
+ * Multiplier for the level thresholds that decide what counts as sound (chunk pauses, source activity) and
+ * divisor for the level meter: 1 at the default sensitivity of 50, ten times more sensitive at 100 and ten
+ * times less at 0.
+ */
+export const getLevelThresholdScale = (sensitivity: number) => 10 ** ((50 - sensitivity) / 50)
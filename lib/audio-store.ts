@@ -0,0 +1,397 @@
+// Local audio store backed by IndexedDB. Chunks are keyed by [sessionId, chunkNumber]
+// so history sessions keep playable audio across reloads.
+
+import { sliceAudioBlob } from "@/lib/audio-utils"
+import type { AudioSourceId, ChannelLayout, SourceActivitySpan, SourceTrackBlobs } from "@/lib/source-tracks"
+import type { ChunkVoiceActivity } from "@/lib/voice-activity"
+
+const DB_NAME = "sesame-audio-store"
+const DB_VERSION = 3
+const CHUNK_STORE = "chunks"
+// 1-second MediaRecorder slices of the recording in progress, kept until the recording is saved
+const SLICE_STORE = "slices"
+// Continuous recordings, one per recording run (a session has several when it was resumed)
+const RECORDING_STORE = "recordings"
+
+// Evict the oldest sessions once audio takes more than this share of the origin quota
+const MAX_QUOTA_USAGE = 0.8
+// Hard cap on stored audio regardless of what the browser reports
+const MAX_AUDIO_BYTES = 1024 * 1024 * 1024 // 1 GB
+
+export interface StoredAudioChunk {
+  sessionId: string
+  chunkNumber: number
+  blob: Blob
+  timestamp: string
+  duration: number
+  startOffset?: number // seconds from the start of the session
+  sources?: AudioSourceId[] // capture sources mixed into `blob`
+  channelLayout?: ChannelLayout
+  tracks?: SourceTrackBlobs // separate recording of each source
+  leadIn?: Blob // audio just before this chunk, for transcription with overlap
+  leadInSeconds?: number
+  sourceActivity?: SourceActivitySpan[]
+  voiceActivity?: ChunkVoiceActivity
+  trimmed?: Blob // the mix with long pauses cut out, uploaded instead of `blob`
+  size: number // mix plus tracks, lead-in and trimmed copy
+  savedAt: number
+}
+
+// One MediaRecorder run, recorded without gaps from start to stop
+export interface StoredRecording {
+  sessionId: string
+  run: number // chunk number at which the run started
+  startOffset: number // seconds from the start of the session
+  blob: Blob
+  size: number
+  savedAt: number
+}
+
+export interface SessionAudioInfo {
+  sessionId: string
+  chunkCount: number
+  bytes: number
+  lastSavedAt: number
+}
+
+export interface RecordingSlice {
+  sessionId: string
+  chunkNumber: number // chunk at which the recording run started
+  startOffset?: number // session time at which the run started
+  sequence: number
+  blob: Blob
+  savedAt: number
+}
+
+export interface AudioStorageUsage {
+  audioBytes: number
+  sessionCount: number
+  usage: number | null
+  quota: number | null
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const isIndexedDBAvailable = () => typeof window !== "undefined" && "indexedDB" in window
+
+const openAudioDB = (): Promise<IDBDatabase> => {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not supported in this browser"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+          const store = db.createObjectStore(CHUNK_STORE, { keyPath: ["sessionId", "chunkNumber"] })
+          store.createIndex("sessionId", "sessionId", { unique: false })
+        }
+        if (!db.objectStoreNames.contains(SLICE_STORE)) {
+          const store = db.createObjectStore(SLICE_STORE, { keyPath: ["sessionId", "chunkNumber", "sequence"] })
+          store.createIndex("sessionId", "sessionId", { unique: false })
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          const store = db.createObjectStore(RECORDING_STORE, { keyPath: ["sessionId", "run"] })
+          store.createIndex("sessionId", "sessionId", { unique: false })
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+export async function saveAudioChunk(chunk: Omit<StoredAudioChunk, "size" | "savedAt">): Promise<void> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(CHUNK_STORE, "readwrite")
+  const size =
+    chunk.blob.size +
+    (chunk.leadIn?.size || 0) +
+    (chunk.trimmed?.size || 0) +
+    Object.values(chunk.tracks || {}).reduce((acc, track) => acc + track.size, 0)
+  transaction.objectStore(CHUNK_STORE).put({
+    ...chunk,
+    size,
+    savedAt: Date.now(),
+  } satisfies StoredAudioChunk)
+  await transactionDone(transaction)
+  console.log(`💽 Chunk ${chunk.chunkNumber} of ${chunk.sessionId} stored (${(size / 1024).toFixed(1)}KB)`)
+}
+
+export async function getSessionAudioChunks(sessionId: string): Promise<StoredAudioChunk[]> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(CHUNK_STORE, "readonly")
+  const index = transaction.objectStore(CHUNK_STORE).index("sessionId")
+  const chunks = await requestToPromise<StoredAudioChunk[]>(index.getAll(IDBKeyRange.only(sessionId)))
+  return chunks.sort((a, b) => a.chunkNumber - b.chunkNumber)
+}
+
+export async function saveRecording(recording: Omit<StoredRecording, "size" | "savedAt">): Promise<void> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(RECORDING_STORE, "readwrite")
+  transaction.objectStore(RECORDING_STORE).put({
+    ...recording,
+    size: recording.blob.size,
+    savedAt: Date.now(),
+  } satisfies StoredRecording)
+  await transactionDone(transaction)
+  console.log(
+    `💽 Recording run ${recording.run} of ${recording.sessionId} stored (${(recording.blob.size / 1024).toFixed(1)}KB)`,
+  )
+}
+
+export async function getSessionRecordings(sessionId: string): Promise<StoredRecording[]> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(RECORDING_STORE, "readonly")
+  const index = transaction.objectStore(RECORDING_STORE).index("sessionId")
+  const recordings = await requestToPromise<StoredRecording[]>(index.getAll(IDBKeyRange.only(sessionId)))
+  return recordings.sort((a, b) => a.run - b.run)
+}
+
+export async function deleteSessionAudio(sessionId: string): Promise<void> {
+  const db = await openAudioDB()
+  const transaction = db.transaction([CHUNK_STORE, RECORDING_STORE], "readwrite")
+  const index = transaction.objectStore(CHUNK_STORE).index("sessionId")
+  const keys = await requestToPromise(index.getAllKeys(IDBKeyRange.only(sessionId)))
+  keys.forEach((key) => transaction.objectStore(CHUNK_STORE).delete(key))
+  transaction.objectStore(RECORDING_STORE).delete(IDBKeyRange.bound([sessionId], [sessionId, []]))
+  await transactionDone(transaction)
+  console.log(`🗑️ Audio for ${sessionId} deleted (${keys.length} chunks)`)
+}
+
+export async function clearAllAudio(): Promise<void> {
+  const db = await openAudioDB()
+  const transaction = db.transaction([CHUNK_STORE, SLICE_STORE, RECORDING_STORE], "readwrite")
+  transaction.objectStore(CHUNK_STORE).clear()
+  transaction.objectStore(SLICE_STORE).clear()
+  transaction.objectStore(RECORDING_STORE).clear()
+  await transactionDone(transaction)
+}
+
+// Summarise stored audio per session without keeping the blobs around
+export async function getSessionAudioInfo(): Promise<Record<string, SessionAudioInfo>> {
+  const db = await openAudioDB()
+  const transaction = db.transaction([CHUNK_STORE, RECORDING_STORE], "readonly")
+  const info: Record<string, SessionAudioInfo> = {}
+
+  const collect = (storeName: string, isChunk: boolean) =>
+    new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(storeName).openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) {
+          resolve()
+          return
+        }
+
+        const item = cursor.value as StoredAudioChunk | StoredRecording
+        const entry = info[item.sessionId] || {
+          sessionId: item.sessionId,
+          chunkCount: 0,
+          bytes: 0,
+          lastSavedAt: 0,
+        }
+        if (isChunk) entry.chunkCount++
+        entry.bytes += item.size
+        entry.lastSavedAt = Math.max(entry.lastSavedAt, item.savedAt)
+        info[item.sessionId] = entry
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+
+  await collect(CHUNK_STORE, true)
+  await collect(RECORDING_STORE, false)
+
+  return info
+}
+
+export async function getAudioStorageUsage(): Promise<AudioStorageUsage> {
+  const info = await getSessionAudioInfo()
+  const sessions = Object.values(info)
+  let usage: number | null = null
+  let quota: number | null = null
+
+  if (typeof navigator !== "undefined" && navigator.storage?.estimate) {
+    try {
+      const estimate = await navigator.storage.estimate()
+      usage = estimate.usage ?? null
+      quota = estimate.quota ?? null
+    } catch (error) {
+      console.error("Failed to estimate storage quota:", error)
+    }
+  }
+
+  return {
+    audioBytes: sessions.reduce((acc, session) => acc + session.bytes, 0),
+    sessionCount: sessions.length,
+    usage,
+    quota,
+  }
+}
+
+// Ask the browser not to evict our data under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false
+
+  try {
+    if (await navigator.storage.persisted()) return true
+    return await navigator.storage.persist()
+  } catch (error) {
+    console.error("Failed to request persistent storage:", error)
+    return false
+  }
+}
+
+/**
+ * Eviction policy:
+ * 1. Audio whose session is no longer in history (e.g. trimmed by the 50-session cap) is removed.
+ * 2. While audio exceeds MAX_AUDIO_BYTES or the origin uses more than MAX_QUOTA_USAGE of its quota,
+ *    audio of the oldest sessions is removed. Transcripts in history are left untouched.
+ * Sessions in `protectedSessionIds` (e.g. the one being recorded) are never evicted.
+ */
+export async function enforceAudioStorageLimits(
+  historySessionIds: string[],
+  protectedSessionIds: string[] = [],
+): Promise<string[]> {
+  const evicted: string[] = []
+  const keep = new Set([...historySessionIds, ...protectedSessionIds])
+  const protectedIds = new Set(protectedSessionIds)
+
+  const info = await getSessionAudioInfo()
+
+  for (const sessionId of Object.keys(info)) {
+    if (!keep.has(sessionId)) {
+      await deleteSessionAudio(sessionId)
+      evicted.push(sessionId)
+      delete info[sessionId]
+    }
+  }
+
+  const candidates = Object.values(info)
+    .filter((session) => !protectedIds.has(session.sessionId))
+    .sort((a, b) => a.lastSavedAt - b.lastSavedAt)
+
+  let { audioBytes, usage, quota } = await getAudioStorageUsage()
+
+  const overLimit = () => audioBytes > MAX_AUDIO_BYTES || (usage !== null && !!quota && usage / quota > MAX_QUOTA_USAGE)
+
+  while (overLimit() && candidates.length > 0) {
+    const oldest = candidates.shift()!
+    await deleteSessionAudio(oldest.sessionId)
+    evicted.push(oldest.sessionId)
+    audioBytes -= oldest.bytes
+    if (usage !== null) usage -= oldest.bytes
+  }
+
+  if (evicted.length > 0) {
+    console.log(`🧹 Evicted audio for ${evicted.length} session(s)`)
+  }
+
+  return evicted
+}
+
+export async function saveRecordingSlice(slice: Omit<RecordingSlice, "savedAt">): Promise<void> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(SLICE_STORE, "readwrite")
+  transaction.objectStore(SLICE_STORE).put({ ...slice, savedAt: Date.now() } satisfies RecordingSlice)
+  await transactionDone(transaction)
+}
+
+export async function getRecordingSlices(sessionId: string): Promise<RecordingSlice[]> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(SLICE_STORE, "readonly")
+  const index = transaction.objectStore(SLICE_STORE).index("sessionId")
+  const slices = await requestToPromise<RecordingSlice[]>(index.getAll(IDBKeyRange.only(sessionId)))
+  return slices.sort((a, b) => a.chunkNumber - b.chunkNumber || a.sequence - b.sequence)
+}
+
+// Remove slices once their recording run has been stored; without `chunkNumber` all slices of the session go
+export async function deleteRecordingSlices(sessionId: string, chunkNumber?: number): Promise<void> {
+  const db = await openAudioDB()
+  const transaction = db.transaction(SLICE_STORE, "readwrite")
+  const store = transaction.objectStore(SLICE_STORE)
+  const range =
+    chunkNumber === undefined
+      ? IDBKeyRange.bound([sessionId], [sessionId, []])
+      : IDBKeyRange.bound([sessionId, chunkNumber], [sessionId, chunkNumber, []])
+  store.delete(range)
+  await transactionDone(transaction)
+}
+
+/**
+ * Recover an interrupted recording: the slices of each unfinished run are stored as its recording, and the
+ * audio past the last stored chunk (the chunk that was in progress) becomes a regular chunk.
+ */
+export async function recoverRecordingSlices(sessionId: string): Promise<StoredAudioChunk[]> {
+  const slices = await getRecordingSlices(sessionId)
+  if (slices.length === 0) return []
+
+  const storedChunks = await getSessionAudioChunks(sessionId)
+  const slicesByRun = new Map<number, RecordingSlice[]>()
+  slices.forEach((slice) => {
+    slicesByRun.set(slice.chunkNumber, [...(slicesByRun.get(slice.chunkNumber) || []), slice])
+  })
+
+  const recovered: StoredAudioChunk[] = []
+  let coveredUntil = storedChunks.reduce((acc, chunk) => Math.max(acc, (chunk.startOffset ?? acc) + chunk.duration), 0)
+  let nextChunkNumber = storedChunks.reduce((acc, chunk) => Math.max(acc, chunk.chunkNumber), 0) + 1
+
+  for (const [run, runSlices] of slicesByRun) {
+    // The first slice carries the container header, so a run is only playable from sequence 0
+    if (runSlices[0].sequence === 0) {
+      const blob = new Blob(
+        runSlices.map((slice) => slice.blob),
+        { type: runSlices[0].blob.type || "audio/webm" },
+      )
+      const startOffset = runSlices[0].startOffset ?? coveredUntil
+      await saveRecording({ sessionId, run, startOffset, blob })
+
+      try {
+        const tail = await sliceAudioBlob(blob, Math.max(0, coveredUntil - startOffset))
+        if (tail) {
+          const chunk = {
+            sessionId,
+            chunkNumber: nextChunkNumber++,
+            blob: tail.blob,
+            timestamp: new Date(runSlices[runSlices.length - 1].savedAt).toLocaleTimeString(),
+            duration: Math.round(tail.duration * 100) / 100,
+            startOffset: coveredUntil,
+          }
+          await saveAudioChunk(chunk)
+          recovered.push({ ...chunk, size: tail.blob.size, savedAt: Date.now() })
+          coveredUntil += chunk.duration
+        }
+      } catch (error) {
+        console.error(`Failed to recover the unfinished chunk of run ${run}:`, error)
+      }
+    }
+
+    await deleteRecordingSlices(sessionId, run)
+  }
+
+  console.log(`🩹 Recovered ${recovered.length} chunk(s) from ${slices.length} slices for ${sessionId}`)
+  return recovered
+}
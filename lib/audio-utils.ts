@@ -0,0 +1,79 @@
+// Shared audio helpers used by the recorder and the history view
+
+import { encodeMp3, type Mp3EncodeOptions } from "@/lib/audio-encoder"
+
+declare global {
+  interface Window {
+    webkitAudioContext: any
+  }
+}
+
+// Audio Context with Safari support
+export const getAudioContext = () => {
+  if (typeof window === "undefined") return null
+  return window.AudioContext || window.webkitAudioContext
+}
+
+// Convert WebM to MP3 for download with Safari compatibility
+export const convertToMp3 = (audioBlob: Blob, bitRate = 256, options?: Mp3EncodeOptions): Promise<Blob> =>
+  decodeAudioBlob(audioBlob, (audioBuffer) =>
+    encodeMp3(
+      Array.from({ length: Math.min(2, audioBuffer.numberOfChannels) }, (_, channel) =>
+        audioBuffer.getChannelData(channel),
+      ),
+      audioBuffer.sampleRate,
+      bitRate,
+      options,
+    ),
+  )
+
+// Decode a recording; the context is only needed for decoding, so it's closed before `use` runs
+const decodeAudioBlob = async <T>(audioBlob: Blob, use: (audioBuffer: AudioBuffer) => T | Promise<T>): Promise<T> => {
+  const AudioContextClass = getAudioContext()
+  if (!AudioContextClass) {
+    throw new Error("AudioContext not supported")
+  }
+
+  const audioContext = new AudioContextClass({
+    sampleRate: 48000,
+  })
+
+  let audioBuffer: AudioBuffer
+  try {
+    audioBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer())
+  } finally {
+    await audioContext.close()
+  }
+  return use(audioBuffer)
+}
+
+// Split a stereo recording into one mono MP3 per channel (left first)
+export const splitStereoChannels = (audioBlob: Blob, bitRate = 128): Promise<Blob[]> =>
+  decodeAudioBlob(audioBlob, (audioBuffer) =>
+    Promise.all(
+      Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) =>
+        encodeMp3([audioBuffer.getChannelData(channel)], audioBuffer.sampleRate, bitRate),
+      ),
+    ),
+  )
+
+// The part of a recording from `fromSeconds` to its end as MP3, or null if less than `minSeconds` remains
+export const sliceAudioBlob = (
+  audioBlob: Blob,
+  fromSeconds: number,
+  minSeconds = 0.5,
+  bitRate = 192,
+): Promise<{ blob: Blob; duration: number } | null> =>
+  decodeAudioBlob(audioBlob, async (audioBuffer) => {
+    const startFrame = Math.max(0, Math.round(fromSeconds * audioBuffer.sampleRate))
+    const frames = audioBuffer.length - startFrame
+    if (frames < minSeconds * audioBuffer.sampleRate) return null
+
+    const channels = Array.from({ length: Math.min(2, audioBuffer.numberOfChannels) }, (_, channel) =>
+      audioBuffer.getChannelData(channel).subarray(startFrame),
+    )
+    return {
+      blob: await encodeMp3(channels, audioBuffer.sampleRate, bitRate),
+      duration: frames / audioBuffer.sampleRate,
+    }
+  })
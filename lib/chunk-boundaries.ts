@@ -0,0 +1,118 @@
+// When a recording rolls over to the next chunk. A fixed boundary cuts at the target length; a silence-aware
+// boundary waits for a short pause near the target so words aren't split across chunks, up to a hard maximum.
+
+export type ChunkBoundaryMode = "fixed" | "silence"
+
+export interface ChunkSettings {
+  chunkSeconds: number // target length of a chunk
+  boundaryMode: ChunkBoundaryMode
+  maxExtensionSeconds: number // how far past the target a silence-aware chunk may run
+  overlapSeconds: number // audio before each chunk kept for transcription context
+}
+
+export const MIN_CHUNK_SECONDS = 15
+export const MAX_CHUNK_SECONDS = 300
+export const MAX_EXTENSION_SECONDS = 60
+export const MAX_OVERLAP_SECONDS = 10
+
+export const DEFAULT_CHUNK_SETTINGS: ChunkSettings = {
+  chunkSeconds: 30,
+  boundaryMode: "silence",
+  maxExtensionSeconds: 10,
+  overlapSeconds: 3,
+}
+
+const CHUNK_SETTINGS_STORAGE_KEY = "chunk-settings"
+
+// Start listening for a pause this long before the target
+const SILENCE_LEAD_SECONDS = 3
+// A pause must last this long to count
+const SILENCE_HOLD_SECONDS = 0.4
+// RMS level (0-1) below which the signal counts as silent
+const SILENCE_THRESHOLD = 0.015
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const normalizeChunkSettings = (settings: ChunkSettings): ChunkSettings => ({
+  chunkSeconds: clamp(
+    Math.round(settings.chunkSeconds) || DEFAULT_CHUNK_SETTINGS.chunkSeconds,
+    MIN_CHUNK_SECONDS,
+    MAX_CHUNK_SECONDS,
+  ),
+  boundaryMode: settings.boundaryMode === "fixed" ? "fixed" : "silence",
+  maxExtensionSeconds: clamp(Math.round(settings.maxExtensionSeconds) || 0, 0, MAX_EXTENSION_SECONDS),
+  overlapSeconds: clamp(Math.round(settings.overlapSeconds) || 0, 0, MAX_OVERLAP_SECONDS),
+})
+
+export const loadChunkSettings = (): ChunkSettings => {
+  try {
+    const saved = localStorage.getItem(CHUNK_SETTINGS_STORAGE_KEY)
+    if (saved) {
+      return normalizeChunkSettings({ ...DEFAULT_CHUNK_SETTINGS, ...JSON.parse(saved) })
+    }
+  } catch (error) {
+    console.error("Failed to load chunk settings:", error)
+  }
+  return DEFAULT_CHUNK_SETTINGS
+}
+
+export const saveChunkSettings = (settings: ChunkSettings): ChunkSettings => {
+  const normalized = normalizeChunkSettings(settings)
+  localStorage.setItem(CHUNK_SETTINGS_STORAGE_KEY, JSON.stringify(normalized))
+  return normalized
+}
+
+// Longest a chunk can run with these settings
+export const getMaxChunkSeconds = (settings: ChunkSettings) =>
+  settings.boundaryMode === "silence" ? settings.chunkSeconds + settings.maxExtensionSeconds : settings.chunkSeconds
+
+// RMS level (0-1) of an analyser's current time-domain window
+export const readAnalyserLevel = (analyser: AnalyserNode, data: Uint8Array): number => {
+  analyser.getByteTimeDomainData(data)
+  let sum = 0
+  for (let i = 0; i < data.length; i++) {
+    const sample = (data[i] - 128) / 128
+    sum += sample * sample
+  }
+  return Math.sqrt(sum / data.length)
+}
+
+/**
+ * Polled while a chunk records. `shouldRoll` gets the chunk's elapsed seconds and the current input level
+ * (null when no analyser is available, which falls back to the fixed boundary). `thresholdScale` raises or
+ * lowers the level that counts as silence (see getLevelThresholdScale in lib/audio-settings.ts).
+ */
+export class ChunkBoundaryDetector {
+  private settings: ChunkSettings
+  private silenceThreshold: number
+  private silentSince: number | null = null
+
+  constructor(settings: ChunkSettings, thresholdScale = 1) {
+    this.settings = settings
+    this.silenceThreshold = SILENCE_THRESHOLD * thresholdScale
+  }
+
+  // Call when a new chunk starts
+  reset() {
+    this.silentSince = null
+  }
+
+  shouldRoll(elapsed: number, level: number | null): "target" | "silence" | "max" | null {
+    const { chunkSeconds, boundaryMode } = this.settings
+
+    if (boundaryMode === "fixed" || level === null) {
+      return elapsed >= chunkSeconds ? "target" : null
+    }
+
+    if (elapsed >= getMaxChunkSeconds(this.settings)) return "max"
+    if (elapsed < chunkSeconds - SILENCE_LEAD_SECONDS) return null
+
+    if (level > this.silenceThreshold) {
+      this.silentSince = null
+      return null
+    }
+
+    this.silentSince ??= elapsed
+    return elapsed - this.silentSince >= SILENCE_HOLD_SECONDS ? "silence" : null
+  }
+}
@@ -0,0 +1,291 @@
+// Streaming FLAC encoder for 16-bit PCM: fixed block size, FIXED predictors (orders 0-4) with Rice-coded residuals,
+// falling back to verbatim subframes when prediction doesn't help. Runs in lib/audio-encoder-worker.ts.
+
+const BLOCK_SIZE = 4096
+const BITS_PER_SAMPLE = 16
+// 15 is the escape code for unencoded residuals
+const MAX_RICE_PARAMETER = 14
+// "fLaC" plus the STREAMINFO block
+export const FLAC_HEADER_BYTES = 4 + 4 + 34
+
+const CRC8_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff
+  return crc
+})
+
+const CRC16_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 8
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff
+  return crc
+})
+
+const crc8 = (bytes: Uint8Array) => bytes.reduce((crc, byte) => CRC8_TABLE[crc ^ byte], 0)
+
+const crc16 = (bytes: Uint8Array) =>
+  bytes.reduce((crc, byte) => ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte], 0)
+
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16)
+  private length = 0
+  private pending = 0 // bits not yet written out, right-aligned
+  private pendingCount = 0
+
+  private reserve(bytes: number) {
+    if (this.length + bytes <= this.buffer.length) return
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + bytes))
+    grown.set(this.buffer)
+    this.buffer = grown
+  }
+
+  private pushByte(byte: number) {
+    this.reserve(1)
+    this.buffer[this.length++] = byte
+  }
+
+  // Whole bytes; the writer must be byte-aligned
+  writeBytes(bytes: Uint8Array) {
+    this.reserve(bytes.length)
+    this.buffer.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  // Up to 32 bits of `value`, most significant first
+  write(value: number, count: number) {
+    while (count > 16) {
+      count -= 16
+      this.write((value >>> count) & 0xffff, 16)
+    }
+    if (count === 0) return
+
+    this.pending = (this.pending << count) | (value & ((1 << count) - 1))
+    this.pendingCount += count
+    while (this.pendingCount >= 8) {
+      this.pendingCount -= 8
+      this.pushByte((this.pending >>> this.pendingCount) & 0xff)
+    }
+    this.pending &= (1 << this.pendingCount) - 1
+  }
+
+  // `count` zeros followed by a one
+  writeUnary(count: number) {
+    while (count >= 16) {
+      this.write(0, 16)
+      count -= 16
+    }
+    this.write(1, count + 1)
+  }
+
+  // Frame numbers use the UTF-8 byte layout, extended to 6 bytes
+  writeUtf8(value: number) {
+    if (value < 0x80) {
+      this.write(value, 8)
+      return
+    }
+    const byteCount = value < 0x800 ? 2 : value < 0x10000 ? 3 : value < 0x200000 ? 4 : value < 0x4000000 ? 5 : 6
+    this.write(((0xff << (8 - byteCount)) & 0xff) | (value >>> (6 * (byteCount - 1))), 8)
+    for (let i = byteCount - 2; i >= 0; i--) {
+      this.write(0x80 | ((value >>> (6 * i)) & 0x3f), 8)
+    }
+  }
+
+  alignToByte() {
+    if (this.pendingCount > 0) this.write(0, 8 - this.pendingCount)
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length)
+  }
+}
+
+// Residuals of the FIXED predictor of `order` for samples [order, length)
+const computeResiduals = (samples: Int16Array, order: number): Int32Array => {
+  const residuals = new Int32Array(samples.length - order)
+  for (let i = order; i < samples.length; i++) {
+    const s = samples
+    residuals[i - order] =
+      order === 0
+        ? s[i]
+        : order === 1
+          ? s[i] - s[i - 1]
+          : order === 2
+            ? s[i] - 2 * s[i - 1] + s[i - 2]
+            : order === 3
+              ? s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3]
+              : s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4]
+  }
+  return residuals
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1)
+
+const riceBits = (residuals: Int32Array, parameter: number) => {
+  let bits = 0
+  for (let i = 0; i < residuals.length; i++) bits += (zigzag(residuals[i]) >>> parameter) + 1 + parameter
+  return bits
+}
+
+// Predictor order with the smallest residuals, and the Rice parameter that codes them in the fewest bits
+const choosePrediction = (samples: Int16Array) => {
+  let residuals: Int32Array = new Int32Array(0)
+  let order = 0
+  let bestSum = Infinity
+
+  for (let candidate = 0; candidate <= 4 && candidate < samples.length; candidate++) {
+    const candidateResiduals = computeResiduals(samples, candidate)
+    let sum = 0
+    for (let i = 0; i < candidateResiduals.length; i++) sum += Math.abs(candidateResiduals[i])
+    if (sum < bestSum) {
+      bestSum = sum
+      order = candidate
+      residuals = candidateResiduals
+    }
+  }
+
+  const mean = residuals.length > 0 ? bestSum / residuals.length : 0
+  const estimate = Math.min(MAX_RICE_PARAMETER, mean > 1 ? Math.floor(Math.log2(mean)) : 0)
+  let parameter = estimate
+  let bits = Infinity
+  for (
+    let candidate = Math.max(0, estimate - 1);
+    candidate <= Math.min(MAX_RICE_PARAMETER, estimate + 1);
+    candidate++
+  ) {
+    const candidateBits = riceBits(residuals, candidate)
+    if (candidateBits < bits) {
+      bits = candidateBits
+      parameter = candidate
+    }
+  }
+
+  // Warm-up samples, coding method, partition order and parameter come on top of the residuals
+  return { order, parameter, residuals, bits: order * BITS_PER_SAMPLE + 10 + bits }
+}
+
+const writeSubframe = (writer: BitWriter, samples: Int16Array) => {
+  if (samples.every((sample) => sample === samples[0])) {
+    writer.write(0b00000000, 8) // CONSTANT
+    writer.write(samples[0], BITS_PER_SAMPLE)
+    return
+  }
+
+  const prediction = choosePrediction(samples)
+  if (prediction.bits >= samples.length * BITS_PER_SAMPLE) {
+    writer.write(0b00000010, 8) // VERBATIM
+    samples.forEach((sample) => writer.write(sample, BITS_PER_SAMPLE))
+    return
+  }
+
+  writer.write(0b00010000 | (prediction.order << 1), 8) // FIXED of this order
+  for (let i = 0; i < prediction.order; i++) writer.write(samples[i], BITS_PER_SAMPLE)
+  writer.write(0b00, 2) // Rice coding with 4-bit parameters
+  writer.write(0, 4) // a single partition
+  writer.write(prediction.parameter, 4)
+  const mask = (1 << prediction.parameter) - 1
+  prediction.residuals.forEach((residual) => {
+    const value = zigzag(residual)
+    writer.writeUnary(value >>> prediction.parameter)
+    writer.write(value & mask, prediction.parameter)
+  })
+}
+
+export class FlacEncoder {
+  private channelCount: number
+  private sampleRate: number
+  private pending: Int16Array[]
+  private pendingLength = 0
+  private frameNumber = 0
+  private totalSamples = 0
+  private minFrameBytes = Infinity
+  private maxFrameBytes = 0
+  private started = false
+
+  constructor(channelCount: number, sampleRate: number) {
+    this.channelCount = channelCount
+    this.sampleRate = sampleRate
+    this.pending = Array.from({ length: channelCount }, () => new Int16Array(BLOCK_SIZE))
+  }
+
+  // STREAMINFO needs the totals, so the stream starts with a placeholder that `finish` replaces
+  private header(): Uint8Array {
+    const writer = new BitWriter()
+    ;[0x66, 0x4c, 0x61, 0x43].forEach((byte) => writer.write(byte, 8)) // "fLaC"
+    writer.write(1, 1) // last metadata block
+    writer.write(0, 7) // STREAMINFO
+    writer.write(34, 24)
+    writer.write(BLOCK_SIZE, 16)
+    writer.write(BLOCK_SIZE, 16)
+    writer.write(Number.isFinite(this.minFrameBytes) ? this.minFrameBytes : 0, 24)
+    writer.write(this.maxFrameBytes, 24)
+    writer.write(this.sampleRate, 20)
+    writer.write(this.channelCount - 1, 3)
+    writer.write(BITS_PER_SAMPLE - 1, 5)
+    writer.write(Math.floor(this.totalSamples / 2 ** 32), 4)
+    writer.write(this.totalSamples % 2 ** 32, 32)
+    for (let i = 0; i < 4; i++) writer.write(0, 32) // MD5 of the audio, left unset
+    return writer.bytes().slice()
+  }
+
+  private writeFrame(writer: BitWriter, blockSize: number) {
+    const frame = new BitWriter()
+    frame.write(0xfff8, 16) // sync code, fixed block size
+    frame.write(0b0111, 4) // block size follows as 16 bits
+    frame.write(0b0000, 4) // sample rate from STREAMINFO
+    frame.write(this.channelCount === 2 ? 0b0001 : 0b0000, 4) // independent channels
+    frame.write(0b100, 3) // 16 bits per sample
+    frame.write(0, 1)
+    frame.writeUtf8(this.frameNumber++)
+    frame.write(blockSize - 1, 16)
+    frame.write(crc8(frame.bytes()), 8)
+
+    this.pending.forEach((channel) => writeSubframe(frame, channel.subarray(0, blockSize)))
+    frame.alignToByte()
+    frame.write(crc16(frame.bytes()), 16)
+
+    const bytes = frame.bytes()
+    this.minFrameBytes = Math.min(this.minFrameBytes, bytes.length)
+    this.maxFrameBytes = Math.max(this.maxFrameBytes, bytes.length)
+    this.totalSamples += blockSize
+    writer.writeBytes(bytes)
+  }
+
+  encode(channels: Int16Array[]): Uint8Array {
+    const writer = new BitWriter()
+    if (!this.started) {
+      writer.writeBytes(this.header())
+      this.started = true
+    }
+
+    const length = channels[0]?.length || 0
+    let offset = 0
+    while (offset < length) {
+      const count = Math.min(BLOCK_SIZE - this.pendingLength, length - offset)
+      this.pending.forEach((channel, index) =>
+        channel.set(channels[index].subarray(offset, offset + count), this.pendingLength),
+      )
+      this.pendingLength += count
+      offset += count
+
+      if (this.pendingLength === BLOCK_SIZE) {
+        this.writeFrame(writer, BLOCK_SIZE)
+        this.pendingLength = 0
+      }
+    }
+
+    return writer.bytes().slice()
+  }
+
+  // The last, shorter frame, and the real header to put in place of the placeholder
+  finish(): { data: Uint8Array; header: Uint8Array } {
+    const writer = new BitWriter()
+    if (!this.started) {
+      writer.writeBytes(this.header())
+      this.started = true
+    }
+    if (this.pendingLength > 0) {
+      this.writeFrame(writer, this.pendingLength)
+      this.pendingLength = 0
+    }
+    return { data: writer.bytes().slice(), header: this.header() }
+  }
+}
@@ -1,19 +1,60 @@
 "use server"
 
-import { GoogleGenerativeAI } from "@google/generative-ai"
+import { GoogleGenerativeAI, SchemaType, type ResponseSchema } from "@google/generative-ai"
+import { formatUtterancesAsText, sanitizeUtterances, type TranscriptUtterance } from "@/lib/transcript-segments"
+import { classifyGeminiError } from "@/lib/gemini-errors"
+import { createTranscriptionError, type TranscriptionError } from "@/lib/transcription-errors"
+import { DEFAULT_GEMINI_MODEL_SETTINGS, type GeminiModelOptions } from "@/lib/gemini-models"
 
 interface GeminiTranscriptResponse {
   success: boolean
   transcript?: string
-  error?: string
+  utterances?: TranscriptUtterance[]
+  model?: string
+  error?: TranscriptionError
 }
 
-// Process transcript to remove timestamps and clean up
-const cleanTranscript = (transcript: string): string => {
-  return transcript
-    .replace(/\[\d{1,2}:\d{2}(?::\d{2})?\]/g, "") // Remove [0:41] timestamps
-    .replace(/\n\s*\n/g, "\n") // Remove extra blank lines
-    .trim()
+// One channel of a stereo recording, sent as its own audio part
+export interface GeminiAudioChannel {
+  label: string // capture source, e.g. "Microphone"
+  speaker: string // the only speaker heard on this channel
+  base64Audio: string
+  mimeType: string
+}
+
+// Everything about a chunk besides its audio and the key it goes out on
+export interface GeminiTranscriptionOptions {
+  userName?: string
+  liveTranscriptContext?: string
+  chunkIndex?: number
+  previousTranscriptTail?: string
+  sourceActivity?: string // per-source speech activity, formatted for the prompt
+  channels?: GeminiAudioChannel[] // sent instead of the mixed audio
+  leadInSeconds?: number
+  instructions?: string
+  modelOptions?: GeminiModelOptions
+}
+
+// Structured output: one entry per utterance with offsets relative to the start of the audio
+const transcriptResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    utterances: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          speaker: { type: SchemaType.STRING, description: "Speaker label" },
+          start: { type: SchemaType.NUMBER, description: "Start offset in seconds from the beginning of the audio" },
+          end: { type: SchemaType.NUMBER, description: "End offset in seconds from the beginning of the audio" },
+          text: { type: SchemaType.STRING, description: "Verbatim text of the utterance" },
+          language: { type: SchemaType.STRING, description: "BCP-47 language code of the utterance, e.g. en-US" },
+        },
+        required: ["speaker", "start", "end", "text"],
+      },
+    },
+  },
+  required: ["utterances"],
 }
 
 export async function transcribeAudioWithGemini(
@@ -21,20 +62,36 @@ export async function transcribeAudioWithGemini(
   mimeType: string,
   audioSize: number,
   apiKey: string,
-  userName?: string,
-  liveTranscriptContext?: string,
-  chunkIndex?: number,
+  options: GeminiTranscriptionOptions = {},
 ): Promise<GeminiTranscriptResponse> {
+  const {
+    userName,
+    liveTranscriptContext,
+    chunkIndex,
+    previousTranscriptTail,
+    sourceActivity,
+    channels,
+    leadInSeconds,
+    instructions,
+    modelOptions = DEFAULT_GEMINI_MODEL_SETTINGS,
+  } = options
+
   try {
     if (!apiKey || apiKey.trim().length === 0) {
       return {
         success: false,
-        error: "Gemini API key is required. Please add your API key in Settings.",
+        error: createTranscriptionError(
+          "not-configured",
+          "Gemini API key is required. Please add your API key in Settings.",
+        ),
+        model: modelOptions.model,
       }
     }
 
     const currentSizeKB = audioSize / 1024
-    console.log(`🎵 Processing audio chunk with Gemini 2.5 Flash: ${currentSizeKB.toFixed(1)}KB, type: ${mimeType}`)
+    console.log(
+      `🎵 Processing audio chunk with ${modelOptions.model}: ${currentSizeKB.toFixed(1)}KB, type: ${mimeType}`,
+    )
 
     // Initialize Gemini with proper error handling
     let genAI: GoogleGenerativeAI
@@ -42,103 +99,166 @@ export async function transcribeAudioWithGemini(
 
     try {
       genAI = new GoogleGenerativeAI(apiKey.trim())
-      model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" })
+      model = genAI.getGenerativeModel({
+        model: modelOptions.model,
+        generationConfig: {
+          temperature: modelOptions.temperature,
+          maxOutputTokens: modelOptions.maxOutputTokens,
+          responseMimeType: "application/json",
+          responseSchema: transcriptResponseSchema,
+        },
+      })
     } catch (initError) {
       console.error("Failed to initialize Gemini:", initError)
       return {
         success: false,
-        error: "Failed to initialize Gemini API. Please check your API key.",
+        error: createTranscriptionError("invalid-key", "Failed to initialize Gemini API. Please check your API key."),
+        model: modelOptions.model,
       }
     }
 
     const userDisplayName = userName || "User"
     const chunkInfo = chunkIndex !== undefined ? ` (Chunk ${chunkIndex + 1})` : ""
 
-    // Simplified prompt to avoid rendering issues
-    const prompt = `Transcribe this audio${chunkInfo} accurately. Identify speakers as "${userDisplayName}" for human speech and "AI Assistant" for AI responses. Format as:
+    // Context sections help keep names, spellings and sentences consistent across chunk boundaries
+    const contextSections: string[] = []
 
-${userDisplayName}: [human speech]
-AI Assistant: [AI speech]
+    // Words repeated by a lead-in are transcribed too and removed afterwards by matching them to the previous transcript
+    const hasLeadIn = !!leadInSeconds && leadInSeconds > 0
 
-Provide clean dialogue without timestamps.`
+    if (previousTranscriptTail && previousTranscriptTail.trim().length > 0) {
+      contextSections.push(`This audio continues a longer recording. The previous segment's transcript ended with:
+"""
+${previousTranscriptTail.trim()}
+"""
+Keep speaker names and spellings consistent with it.${
+        hasLeadIn
+          ? ""
+          : " If the audio starts mid-sentence, continue that sentence naturally. Do not repeat the text above."
+      }`)
+    }
 
-    const audioPart = {
-      inlineData: {
-        data: base64Audio,
-        mimeType: "audio/mpeg",
-      },
+    if (hasLeadIn) {
+      contextSections.push(
+        `The first ${leadInSeconds.toFixed(1)} seconds of the audio repeat the end of the previous segment so that words at the boundary are heard in full. Transcribe them like the rest of the audio, with offsets from the very beginning of the audio.`,
+      )
     }
 
-    try {
-      const result = await model.generateContent([prompt, audioPart])
-      const response = await result.response
-      const transcript = response.text()
+    if (liveTranscriptContext && liveTranscriptContext.trim().length > 0) {
+      contextSections.push(`Rough live captions captured by the browser during this audio (they contain recognition errors and may mislabel speakers):
+"""
+${liveTranscriptContext.trim()}
+"""
+Use them only as hints for names, technical terms and spellings. Always transcribe what is actually said in the audio.`)
+    }
 
-      if (transcript && transcript.trim().length > 0) {
-        const cleanedTranscript = cleanTranscript(transcript)
-        console.log(`✅ Audio transcribed: ${cleanedTranscript.length} characters`)
+    // Separate channels make the speaker of every utterance unambiguous
+    if (channels && channels.length > 0) {
+      contextSections.push(`The audio is provided as ${channels.length} separate recordings of the same time span, one per capture source:
+${channels.map((channel, index) => `- Recording ${index + 1}: ${channel.label}, only "${channel.speaker}" is heard on it`).join("\n")}
+Transcribe every recording, label each utterance with the speaker of the recording it was heard on, and merge them into one chronological list. Offsets are from the start of the recordings, which all start at the same moment.`)
+    } else if (sourceActivity && sourceActivity.trim().length > 0) {
+      // Measured per-source energy is the ground truth for who is speaking
+      contextSections.push(`This audio is a mix of separately captured sources: the microphone carries ${userDisplayName}, the computer's system audio carries the AI Assistant. Speech activity measured on each source (offsets from the start of this audio):
+"""
+${sourceActivity.trim()}
+"""
+Label every utterance with the speaker of the source that was active while it was spoken, not by what the words sound like. When both sources overlap, split the utterances accordingly.`)
+    }
 
-        return {
-          success: true,
-          transcript: cleanedTranscript,
-        }
-      } else {
+    // Added by the user when running a chunk again
+    if (instructions && instructions.trim().length > 0) {
+      contextSections.push(`Additional instructions for this audio:
+"""
+${instructions.trim()}
+"""`)
+    }
+
+    const contextBlock = contextSections.length > 0 ? `\n\n${contextSections.join("\n\n")}` : ""
+
+    const prompt = `Transcribe this audio${chunkInfo} accurately. Identify speakers as "${userDisplayName}" for human speech and "AI Assistant" for AI responses.
+
+Return one entry in "utterances" per continuous turn of a single speaker, in order, with:
+- speaker: "${userDisplayName}" or "AI Assistant"
+- start / end: offsets in seconds from the beginning of this audio
+- text: clean verbatim dialogue without timestamps
+- language: BCP-47 code of the spoken language${contextBlock}`
+
+    const audioParts =
+      channels && channels.length > 0
+        ? channels.flatMap((channel, index) => [
+            `Recording ${index + 1} (${channel.label}):`,
+            { inlineData: { data: channel.base64Audio, mimeType: channel.mimeType } },
+          ])
+        : [
+            {
+              inlineData: {
+                data: base64Audio,
+                mimeType,
+              },
+            },
+          ]
+
+    try {
+      const result = await model.generateContent([prompt, ...audioParts])
+      const response = await result.response
+      // The JSON would be cut off mid-way and fail to parse
+      if (response.candidates?.[0]?.finishReason === "MAX_TOKENS") {
         return {
           success: false,
-          error: "No transcript generated from the audio file",
+          error: createTranscriptionError(
+            "malformed-output",
+            `The transcript was cut off at ${modelOptions.maxOutputTokens} output tokens. Raise the limit in Settings.`,
+          ),
+          model: modelOptions.model,
         }
       }
-    } catch (transcriptionError) {
-      console.error(`❌ Transcription failed:`, transcriptionError)
+      const responseText = response.text()
 
-      // Handle specific Gemini errors
-      if (transcriptionError.message?.includes("API_KEY_INVALID")) {
+      let utterances: TranscriptUtterance[] = []
+      try {
+        utterances = sanitizeUtterances(JSON.parse(responseText)?.utterances)
+      } catch (parseError) {
+        console.error("Failed to parse structured transcript:", parseError)
         return {
           success: false,
-          error: "Invalid Gemini API key. Please check your API key in Settings.",
+          error: createTranscriptionError("malformed-output", "Gemini returned a malformed structured transcript"),
+          model: modelOptions.model,
         }
-      } else if (transcriptionError.message?.includes("QUOTA_EXCEEDED")) {
-        return {
-          success: false,
-          error: "Gemini API quota exceeded. Please try again later.",
-        }
-      } else if (transcriptionError.message?.includes("RESOURCE_EXHAUSTED")) {
+      }
+
+      if (utterances.length > 0) {
+        const transcript = formatUtterancesAsText(utterances)
+        console.log(`✅ Audio transcribed: ${utterances.length} utterances, ${transcript.length} characters`)
+
         return {
-          success: false,
-          error: "Gemini API resource exhausted. Audio file may be too large.",
+          success: true,
+          transcript,
+          utterances,
+          model: modelOptions.model,
         }
       } else {
         return {
           success: false,
-          error: `Transcription failed: ${transcriptionError.message || "Unknown error"}`,
+          error: createTranscriptionError("empty-output"),
+          model: modelOptions.model,
         }
       }
+    } catch (transcriptionError) {
+      console.error(`❌ Transcription failed:`, transcriptionError)
+
+      return {
+        success: false,
+        error: classifyGeminiError(transcriptionError),
+        model: modelOptions.model,
+      }
     }
   } catch (error) {
     console.error("Gemini API error:", error)
     return {
       success: false,
-      error: `Gemini API error: ${error.message || "Unknown error"}`,
+      error: classifyGeminiError(error),
+      model: modelOptions.model,
     }
   }
 }
-
-// Update the MP3 function signature
-export async function transcribeMP3WithGemini(
-  base64Audio: string,
-  audioSize: number,
-  apiKey: string,
-  userName?: string,
-  liveTranscriptContext?: string,
-  chunkIndex?: number,
-): Promise<GeminiTranscriptResponse> {
-  return transcribeAudioWithGemini(
-    base64Audio,
-    "audio/mpeg",
-    audioSize,
-    apiKey,
-    userName,
-    liveTranscriptContext,
-    chunkIndex,
-  )
-}
@@ -0,0 +1,67 @@
+// Maps errors thrown by the Gemini SDK onto the shared transcription error codes. The HTTP status and the reason
+// in the error details decide the code; the message is only read for what the SDK doesn't expose otherwise.
+
+import {
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai"
+import { createTranscriptionError, type TranscriptionError } from "@/lib/transcription-errors"
+
+interface GeminiErrorDetail {
+  "@type"?: string
+  reason?: string // ErrorInfo, e.g. "API_KEY_INVALID"
+  retryDelay?: string // RetryInfo, e.g. "37s"
+}
+
+const getRetryAfterSeconds = (details: GeminiErrorDetail[]): number | undefined => {
+  const retryDelay = details.find((detail) => detail.retryDelay)?.retryDelay
+  const seconds = retryDelay ? Number.parseFloat(retryDelay) : Number.NaN
+  return Number.isFinite(seconds) ? Math.ceil(seconds) : undefined
+}
+
+export const classifyGeminiError = (error: unknown): TranscriptionError => {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const details: GeminiErrorDetail[] = Array.isArray(error.errorDetails) ? error.errorDetails : []
+    const reasons = details.map((detail) => detail.reason).filter(Boolean)
+
+    if (reasons.includes("API_KEY_INVALID") || error.status === 401 || error.status === 403) {
+      return createTranscriptionError("invalid-key", "Invalid Gemini API key. Please check your API key in Settings.")
+    }
+    if (error.status === 429) {
+      return createTranscriptionError(
+        "quota",
+        "Gemini API quota or rate limit reached. Please try again later.",
+        getRetryAfterSeconds(details),
+      )
+    }
+    if (error.status === 413 || (error.status === 400 && /payload size|too large|exceeds/i.test(message))) {
+      return createTranscriptionError("too-large", "The audio is too large for a single Gemini request.")
+    }
+    if (error.status === 504) {
+      return createTranscriptionError("timeout", "Gemini took too long to respond.")
+    }
+    if (error.status && error.status >= 500) {
+      return createTranscriptionError("network", `Gemini API is unavailable (${error.status}).`)
+    }
+    return createTranscriptionError("unknown", `Gemini API error: ${message}`)
+  }
+
+  // Thrown for blocked prompts and responses, and for responses the SDK couldn't parse
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return /blocked/i.test(message)
+      ? createTranscriptionError("safety-block", `Gemini blocked the transcription: ${message}`)
+      : createTranscriptionError("malformed-output", `Gemini returned an unreadable response: ${message}`)
+  }
+  if (error instanceof GoogleGenerativeAIAbortError || (error instanceof Error && error.name === "AbortError")) {
+    return createTranscriptionError("timeout", "The Gemini request timed out.")
+  }
+  // fetch itself failed: offline, DNS, connection reset
+  if (error instanceof TypeError) {
+    return createTranscriptionError("network", `Could not reach Gemini: ${message}`)
+  }
+
+  return createTranscriptionError("unknown", `Transcription failed: ${message || "Unknown error"}`)
+}
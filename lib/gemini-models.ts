@@ -0,0 +1,90 @@
+// Which Gemini model transcribes, and how. Hard chunks (a response that was cut off or unreadable, or far fewer
+// words than the detected speech would need) can be sent again to a stronger model automatically.
+
+export interface GeminiModel {
+  id: string
+  label: string
+  description: string
+}
+
+export const GEMINI_MODELS: GeminiModel[] = [
+  { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash", description: "Fast and accurate, the best default" },
+  { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro", description: "Most accurate, slower and with lower quota" },
+  { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite", description: "Cheapest, for clear audio" },
+  { id: "gemini-2.0-flash", label: "Gemini 2.0 Flash", description: "Previous generation" },
+]
+
+export interface GeminiModelSettings {
+  model: string
+  temperature: number
+  maxOutputTokens: number
+  escalationModel: string // model for hard chunks, empty to never escalate
+}
+
+// What the server action needs to call the model
+export type GeminiModelOptions = Pick<GeminiModelSettings, "model" | "temperature" | "maxOutputTokens">
+
+export const MIN_OUTPUT_TOKENS = 1024
+export const MAX_OUTPUT_TOKENS = 65536
+export const MAX_TEMPERATURE = 1
+
+export const DEFAULT_GEMINI_MODEL_SETTINGS: GeminiModelSettings = {
+  model: GEMINI_MODELS[0].id,
+  temperature: 0.2, // low, so the transcript sticks to what was said
+  maxOutputTokens: 8192,
+  escalationModel: "",
+}
+
+const GEMINI_MODEL_STORAGE_KEY = "gemini-model-settings"
+
+// A chunk counts as hard when its transcript has fewer words per second of detected speech than this
+const MIN_WORDS_PER_SPEECH_SECOND = 0.5
+// Too little speech to judge the transcript by its length
+const MIN_SPEECH_SECONDS_TO_JUDGE = 10
+
+const isGeminiModel = (model: unknown): model is string =>
+  typeof model === "string" && GEMINI_MODELS.some((entry) => entry.id === model)
+
+const normalizeGeminiModelSettings = (settings: GeminiModelSettings): GeminiModelSettings => {
+  const model = isGeminiModel(settings.model) ? settings.model : DEFAULT_GEMINI_MODEL_SETTINGS.model
+  const temperature = Number(settings.temperature)
+  const maxOutputTokens = Number(settings.maxOutputTokens)
+  return {
+    model,
+    temperature: Number.isFinite(temperature)
+      ? Math.min(MAX_TEMPERATURE, Math.max(0, Math.round(temperature * 10) / 10))
+      : DEFAULT_GEMINI_MODEL_SETTINGS.temperature,
+    maxOutputTokens: Number.isFinite(maxOutputTokens)
+      ? Math.min(MAX_OUTPUT_TOKENS, Math.max(MIN_OUTPUT_TOKENS, Math.round(maxOutputTokens)))
+      : DEFAULT_GEMINI_MODEL_SETTINGS.maxOutputTokens,
+    // Escalating to the model that already failed wouldn't help
+    escalationModel:
+      isGeminiModel(settings.escalationModel) && settings.escalationModel !== model ? settings.escalationModel : "",
+  }
+}
+
+export const loadGeminiModelSettings = (): GeminiModelSettings => {
+  try {
+    const saved = localStorage.getItem(GEMINI_MODEL_STORAGE_KEY)
+    if (saved) {
+      return normalizeGeminiModelSettings({ ...DEFAULT_GEMINI_MODEL_SETTINGS, ...JSON.parse(saved) })
+    }
+  } catch (error) {
+    console.error("Failed to load Gemini model settings:", error)
+  }
+  return DEFAULT_GEMINI_MODEL_SETTINGS
+}
+
+export const saveGeminiModelSettings = (settings: GeminiModelSettings): GeminiModelSettings => {
+  const normalized = normalizeGeminiModelSettings(settings)
+  localStorage.setItem(GEMINI_MODEL_STORAGE_KEY, JSON.stringify(normalized))
+  return normalized
+}
+
+export const getGeminiModelLabel = (model: string) => GEMINI_MODELS.find((entry) => entry.id === model)?.label || model
+
+// A transcript this short for the speech that was detected probably missed most of it
+export const isTranscriptTooSparse = (transcript: string, speechSeconds?: number) =>
+  speechSeconds !== undefined &&
+  speechSeconds >= MIN_SPEECH_SECONDS_TO_JUDGE &&
+  transcript.split(/\s+/).filter(Boolean).length / speechSeconds < MIN_WORDS_PER_SPEECH_SECOND
@@ -0,0 +1,197 @@
+// Offline transcription with a Whisper model running in a Web Worker. Model files are downloaded once
+// from the Hugging Face hub and kept in Cache Storage, after which no network or API key is needed.
+
+import type { WhisperWorkerRequest, WhisperWorkerResponse } from "@/lib/whisper-worker"
+
+export interface OfflineWhisperModel {
+  id: string
+  label: string
+  sizeMB: number // approximate download size of the quantized weights
+  multilingual: boolean
+}
+
+export const OFFLINE_WHISPER_MODELS: OfflineWhisperModel[] = [
+  { id: "onnx-community/whisper-tiny.en", label: "Tiny (English)", sizeMB: 45, multilingual: false },
+  { id: "onnx-community/whisper-tiny", label: "Tiny (Multilingual)", sizeMB: 45, multilingual: true },
+  { id: "onnx-community/whisper-base.en", label: "Base (English)", sizeMB: 80, multilingual: false },
+  { id: "onnx-community/whisper-base", label: "Base (Multilingual)", sizeMB: 80, multilingual: true },
+  { id: "onnx-community/whisper-small", label: "Small (Multilingual, slow)", sizeMB: 250, multilingual: true },
+]
+
+export interface OfflineWhisperSettings {
+  model: string
+  language: string // e.g. "en" or "german", empty for auto-detect
+}
+
+export const DEFAULT_OFFLINE_WHISPER_SETTINGS: OfflineWhisperSettings = {
+  model: OFFLINE_WHISPER_MODELS[0].id,
+  language: "",
+}
+
+export interface ModelDownloadProgress {
+  model: string
+  loaded: number
+  total: number
+  progress: number // 0-100 across all files of the model
+}
+
+export interface WhisperTranscription {
+  text: string
+  chunks: { start: number; end: number | null; text: string }[]
+}
+
+const OFFLINE_WHISPER_STORAGE_KEY = "offline-whisper-settings"
+// Cache Storage bucket used by transformers.js
+const MODEL_CACHE_NAME = "transformers-cache"
+
+export const loadOfflineWhisperSettings = (): OfflineWhisperSettings => {
+  try {
+    const saved = localStorage.getItem(OFFLINE_WHISPER_STORAGE_KEY)
+    if (saved) {
+      return { ...DEFAULT_OFFLINE_WHISPER_SETTINGS, ...JSON.parse(saved) }
+    }
+  } catch (error) {
+    console.error("Failed to load offline Whisper settings:", error)
+  }
+  return DEFAULT_OFFLINE_WHISPER_SETTINGS
+}
+
+export const saveOfflineWhisperSettings = (settings: OfflineWhisperSettings) => {
+  localStorage.setItem(OFFLINE_WHISPER_STORAGE_KEY, JSON.stringify(settings))
+}
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingTranscriptions = new Map<
+  number,
+  { resolve: (result: WhisperTranscription) => void; reject: (error: Error) => void }
+>()
+const pendingLoads = new Map<string, { resolve: () => void; reject: (error: Error) => void }[]>()
+const progressListeners = new Set<(progress: ModelDownloadProgress) => void>()
+// Bytes per file for the model currently downloading
+const fileProgress = new Map<string, { loaded: number; total: number }>()
+const readyModels = new Set<string>()
+
+const handleWorkerMessage = (event: MessageEvent<WhisperWorkerResponse>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case "progress": {
+      fileProgress.set(`${message.model}/${message.file}`, { loaded: message.loaded, total: message.total })
+      let loaded = 0
+      let total = 0
+      fileProgress.forEach((file, key) => {
+        if (key.startsWith(`${message.model}/`)) {
+          loaded += file.loaded
+          total += file.total
+        }
+      })
+      const progress = { model: message.model, loaded, total, progress: total > 0 ? (loaded / total) * 100 : 0 }
+      progressListeners.forEach((listener) => listener(progress))
+      break
+    }
+    case "ready":
+      console.log(`🧠 Whisper model ready: ${message.model}`)
+      readyModels.add(message.model)
+      pendingLoads.get(message.model)?.forEach(({ resolve }) => resolve())
+      pendingLoads.delete(message.model)
+      break
+    case "result":
+      pendingTranscriptions.get(message.id)?.resolve({ text: message.text, chunks: message.chunks })
+      pendingTranscriptions.delete(message.id)
+      break
+    case "error":
+      console.error("❌ Whisper worker error:", message.message)
+      if (message.id !== undefined) {
+        pendingTranscriptions.get(message.id)?.reject(new Error(message.message))
+        pendingTranscriptions.delete(message.id)
+      }
+      if (message.model) {
+        pendingLoads.get(message.model)?.forEach(({ reject }) => reject(new Error(message.message)))
+        pendingLoads.delete(message.model)
+      }
+      break
+  }
+}
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL("./whisper-worker.ts", import.meta.url), { type: "module" })
+    worker.addEventListener("message", handleWorkerMessage)
+    worker.addEventListener("error", (event) => {
+      console.error("❌ Whisper worker crashed:", event.message)
+      const error = new Error(event.message || "Whisper worker crashed")
+      pendingTranscriptions.forEach(({ reject }) => reject(error))
+      pendingTranscriptions.clear()
+      pendingLoads.forEach((loads) => loads.forEach(({ reject }) => reject(error)))
+      pendingLoads.clear()
+      readyModels.clear()
+      worker?.terminate()
+      worker = null
+    })
+  }
+  return worker
+}
+
+const postToWorker = (request: WhisperWorkerRequest, transfer: Transferable[] = []) => {
+  getWorker().postMessage(request, transfer)
+}
+
+export const isOfflineWhisperSupported = () => typeof window !== "undefined" && "Worker" in window
+
+export const subscribeToModelProgress = (listener: (progress: ModelDownloadProgress) => void) => {
+  progressListeners.add(listener)
+  return () => {
+    progressListeners.delete(listener)
+  }
+}
+
+// Download (or read from cache) and initialise a model in the worker
+export const loadWhisperModel = (model: string): Promise<void> => {
+  if (readyModels.has(model)) return Promise.resolve()
+
+  return new Promise((resolve, reject) => {
+    const isLoading = pendingLoads.has(model)
+    pendingLoads.set(model, [...(pendingLoads.get(model) || []), { resolve, reject }])
+    if (!isLoading) {
+      // The worker holds one model at a time
+      readyModels.clear()
+      postToWorker({ type: "load", model })
+    }
+  })
+}
+
+// Transcribe 16 kHz mono samples; timestamps in the result are relative to the start of `audio`
+export const transcribeWithWhisper = (
+  audio: Float32Array,
+  model: string,
+  language?: string,
+): Promise<WhisperTranscription> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    pendingTranscriptions.set(id, { resolve, reject })
+    postToWorker({ type: "transcribe", id, model, audio, language }, [audio.buffer])
+  })
+
+// Model ids that have files in Cache Storage
+export async function getCachedWhisperModels(): Promise<string[]> {
+  if (typeof caches === "undefined") return []
+
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  const keys = await cache.keys()
+  return OFFLINE_WHISPER_MODELS.filter((model) => keys.some((request) => request.url.includes(`/${model.id}/`))).map(
+    (model) => model.id,
+  )
+}
+
+export async function deleteCachedWhisperModel(model: string): Promise<void> {
+  if (typeof caches === "undefined") return
+
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  const keys = await cache.keys()
+  await Promise.all(
+    keys.filter((request) => request.url.includes(`/${model}/`)).map((request) => cache.delete(request)),
+  )
+  readyModels.delete(model)
+  console.log(`🗑️ Removed cached Whisper model ${model}`)
+}
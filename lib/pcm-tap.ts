@@ -0,0 +1,230 @@
+// Sample-accurate chunking. A single MediaRecorder keeps running for the whole session; chunks for
+// transcription are cut from PCM captured by an AudioWorklet tap (public/pcm-tap-worklet.js), so no audio
+// is lost at chunk boundaries and every chunk starts exactly where the previous one ended.
+
+import type { AudioSourceId } from "@/lib/source-tracks"
+
+const WORKLET_URL = "/pcm-tap-worklet.js"
+// Give up waiting for audio after this long (e.g. the context was suspended) and cut with what we have
+const WAIT_TIMEOUT_MS = 2000
+
+interface PcmBatch {
+  frame: number // context frame of the first sample
+  channels: Float32Array[]
+}
+
+type PcmTapMessage = { type: "pcm"; frame: number; channels: Float32Array[] } | { type: "flushed"; id: number }
+
+const loadedContexts = new WeakSet<BaseAudioContext>()
+
+export const isPcmTapSupported = () => typeof window !== "undefined" && "AudioWorkletNode" in window
+
+// Current position of the context clock, in frames
+export const getContextFrame = (audioContext: BaseAudioContext) =>
+  Math.round(audioContext.currentTime * audioContext.sampleRate)
+
+/**
+ * Buffers the PCM of one node. `read` returns any frame range that is still buffered; ranges the tap
+ * never received (before it was connected, or after a source ended) come back as silence.
+ */
+export class PcmTap {
+  readonly channelCount: number
+  private node: AudioWorkletNode
+  private batches: PcmBatch[] = []
+  private receivedUntil = 0
+  private waiters: { frame: number; resolve: () => void }[] = []
+  private flushes = new Map<number, () => void>()
+  private nextFlushId = 1
+
+  private constructor(audioContext: BaseAudioContext, source: AudioNode, channelCount: number) {
+    this.channelCount = channelCount
+    this.node = new AudioWorkletNode(audioContext, "pcm-tap", {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount,
+      channelCountMode: "explicit",
+      channelInterpretation: "speakers",
+      processorOptions: { channelCount },
+    })
+    this.node.port.onmessage = (event: MessageEvent<PcmTapMessage>) => this.receive(event.data)
+    source.connect(this.node)
+  }
+
+  static async create(audioContext: BaseAudioContext, source: AudioNode, channelCount = 1): Promise<PcmTap> {
+    if (!loadedContexts.has(audioContext)) {
+      await audioContext.audioWorklet.addModule(WORKLET_URL)
+      loadedContexts.add(audioContext)
+    }
+    return new PcmTap(audioContext, source, channelCount)
+  }
+
+  private receive(message: PcmTapMessage) {
+    if (message.type === "flushed") {
+      this.flushes.get(message.id)?.()
+      this.flushes.delete(message.id)
+      return
+    }
+
+    this.batches.push({ frame: message.frame, channels: message.channels })
+    this.receivedUntil = Math.max(this.receivedUntil, message.frame + message.channels[0].length)
+    this.waiters = this.waiters.filter((waiter) => {
+      if (waiter.frame > this.receivedUntil) return true
+      waiter.resolve()
+      return false
+    })
+  }
+
+  // Resolves once audio up to `frame` has arrived from the worklet
+  waitFor(frame: number): Promise<void> {
+    if (frame <= this.receivedUntil) return Promise.resolve()
+
+    return new Promise((resolve) => {
+      const waiter = { frame, resolve }
+      this.waiters.push(waiter)
+      setTimeout(() => {
+        this.waiters = this.waiters.filter((entry) => entry !== waiter)
+        resolve()
+      }, WAIT_TIMEOUT_MS)
+    })
+  }
+
+  // Ask the worklet to post its partially filled batch; `stop` also ends processing
+  flush(stop = false): Promise<void> {
+    return new Promise((resolve) => {
+      const id = this.nextFlushId++
+      this.flushes.set(id, resolve)
+      this.node.port.postMessage({ type: stop ? "stop" : "flush", id })
+      setTimeout(() => {
+        if (this.flushes.delete(id)) resolve()
+      }, WAIT_TIMEOUT_MS)
+    })
+  }
+
+  // Frames [from, to) per channel
+  read(from: number, to: number): Float32Array[] {
+    const length = Math.max(0, to - from)
+    const channels = Array.from({ length: this.channelCount }, () => new Float32Array(length))
+
+    this.batches.forEach((batch) => {
+      const batchEnd = batch.frame + batch.channels[0].length
+      const start = Math.max(from, batch.frame)
+      const end = Math.min(to, batchEnd)
+      if (end <= start) return
+
+      channels.forEach((channel, index) => {
+        channel.set(batch.channels[index].subarray(start - batch.frame, end - batch.frame), start - from)
+      })
+    })
+
+    return channels
+  }
+
+  // Release audio that will never be read again
+  discardBefore(frame: number) {
+    this.batches = this.batches.filter((batch) => batch.frame + batch.channels[0].length > frame)
+  }
+
+  disconnect() {
+    this.node.disconnect()
+    this.node.port.onmessage = null
+    this.batches = []
+    this.waiters.forEach((waiter) => waiter.resolve())
+    this.waiters = []
+  }
+}
+
+export interface PcmChunk {
+  startFrame: number
+  endFrame: number
+  sampleRate: number
+  mix: Float32Array[] // one array per channel of the mix
+  leadIn: Float32Array[] // the overlap before `startFrame`, empty for the first chunk or without overlap
+  tracks: Partial<Record<AudioSourceId, Float32Array>> // mono audio of each source
+}
+
+/**
+ * Cuts the mix tap (and one tap per source) into consecutive chunks. Each chunk also carries the
+ * `overlapSeconds` of audio before it, which transcription can prepend for context.
+ */
+export class PcmChunker {
+  private audioContext: BaseAudioContext
+  private mix: PcmTap
+  private sources: Partial<Record<AudioSourceId, PcmTap>>
+  private overlapFrames: number
+  private chunkStartFrame = 0
+  private firstFrame = 0
+  private stopping: Promise<PcmChunk> | null = null
+
+  constructor(
+    audioContext: BaseAudioContext,
+    mix: PcmTap,
+    sources: Partial<Record<AudioSourceId, PcmTap>>,
+    overlapSeconds = 0,
+  ) {
+    this.audioContext = audioContext
+    this.mix = mix
+    this.sources = sources
+    this.overlapFrames = Math.round(overlapSeconds * audioContext.sampleRate)
+  }
+
+  private get taps(): PcmTap[] {
+    return [this.mix, ...(Object.values(this.sources) as PcmTap[])]
+  }
+
+  start() {
+    this.chunkStartFrame = getContextFrame(this.audioContext)
+    this.firstFrame = this.chunkStartFrame
+  }
+
+  // Seconds recorded into the current chunk
+  get elapsedSeconds(): number {
+    return (getContextFrame(this.audioContext) - this.chunkStartFrame) / this.audioContext.sampleRate
+  }
+
+  // End the current chunk now and start the next one at the same frame
+  async cut(): Promise<PcmChunk> {
+    const endFrame = getContextFrame(this.audioContext)
+    const startFrame = this.chunkStartFrame
+    this.chunkStartFrame = endFrame
+
+    await Promise.all(this.taps.map((tap) => tap.waitFor(endFrame)))
+    return this.take(startFrame, endFrame)
+  }
+
+  // Final chunk: everything up to now, after which the taps are disconnected. Later calls get the same chunk.
+  stop(): Promise<PcmChunk> {
+    if (this.stopping) return this.stopping
+
+    const endFrame = getContextFrame(this.audioContext)
+    const startFrame = this.chunkStartFrame
+    this.chunkStartFrame = endFrame
+
+    this.stopping = Promise.all(this.taps.map((tap) => tap.flush(true))).then(() => {
+      const chunk = this.take(startFrame, endFrame)
+      this.taps.forEach((tap) => tap.disconnect())
+      return chunk
+    })
+    return this.stopping
+  }
+
+  private take(startFrame: number, endFrame: number): PcmChunk {
+    const leadInStart = Math.max(this.firstFrame, startFrame - this.overlapFrames)
+    const tracks: PcmChunk["tracks"] = {}
+    ;(Object.entries(this.sources) as [AudioSourceId, PcmTap][]).forEach(([source, tap]) => {
+      tracks[source] = tap.read(startFrame, endFrame)[0]
+    })
+
+    const chunk: PcmChunk = {
+      startFrame,
+      endFrame,
+      sampleRate: this.audioContext.sampleRate,
+      mix: this.mix.read(startFrame, endFrame),
+      leadIn: leadInStart < startFrame ? this.mix.read(leadInStart, startFrame) : [],
+      tracks,
+    }
+
+    // Keep only what the next chunk's lead-in needs
+    this.taps.forEach((tap) => tap.discardBefore(endFrame - this.overlapFrames))
+    return chunk
+  }
+}
@@ -0,0 +1,51 @@
+// Pauses within a recording session. While paused the audio clock stands still, so session time (chunk offsets,
+// caption offsets) runs on without a gap; the wall-clock length of each pause is kept here so the transcript
+// can still show where the recording was interrupted.
+
+export interface RecordingPause {
+  offset: number // session time at which the recording was paused, in seconds
+  pausedAt: string // ISO timestamp
+  resumedAt?: string // unset while the pause is ongoing
+}
+
+export const getPauseSeconds = (pause: RecordingPause, now = Date.now()): number => {
+  const end = pause.resumedAt ? Date.parse(pause.resumedAt) : now
+  return Math.max(0, Math.round((end - Date.parse(pause.pausedAt)) / 1000))
+}
+
+const formatPauseLength = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${secs}s`
+  return `${secs}s`
+}
+
+// "Paused for 2m 5s", or "Paused" for a pause that never resumed
+export const formatPause = (pause: RecordingPause): string =>
+  pause.resumedAt ? `Paused for ${formatPauseLength(getPauseSeconds(pause))}` : "Paused"
+
+export type TimelineItem<T> = { type: "entry"; entry: T } | { type: "pause"; pause: RecordingPause }
+
+/**
+ * Live transcript entries with the pauses placed between them by session time. A pause goes before the first
+ * entry spoken after it; entries without an offset stay in their place.
+ */
+export const interleavePauses = <T extends { offset?: number }>(
+  entries: T[],
+  pauses: RecordingPause[] = [],
+): TimelineItem<T>[] => {
+  const pending = [...pauses].sort((a, b) => a.offset - b.offset)
+  const items: TimelineItem<T>[] = []
+
+  entries.forEach((entry) => {
+    while (pending.length > 0 && entry.offset !== undefined && entry.offset >= pending[0].offset) {
+      items.push({ type: "pause", pause: pending.shift()! })
+    }
+    items.push({ type: "entry", entry })
+  })
+  pending.forEach((pause) => items.push({ type: "pause", pause }))
+
+  return items
+}
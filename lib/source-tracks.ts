@@ -0,0 +1,332 @@
+// Per-source capture. Besides the mixed recording, every capture source (microphone, system audio) gets its own
+// track (cut from the same PCM as the mix, see lib/pcm-tap.ts) and an energy monitor, so speech is attributed
+// by where it came from rather than by guessing.
+
+import { splitStereoChannels } from "@/lib/audio-utils"
+import { formatTimestamp, type TranscriptUtterance } from "@/lib/transcript-segments"
+
+export type AudioSourceId = "microphone" | "system"
+
+// Time range in which a source carried speech-level energy; offsets are relative to the chunk when stored with one
+export interface SourceActivitySpan {
+  source: AudioSourceId
+  start: number
+  end: number
+}
+
+export type SourceTrackBlobs = Partial<Record<AudioSourceId, Blob>>
+
+export const AI_SPEAKER_LABEL = "AI Assistant"
+
+export const SOURCE_LABELS: Record<AudioSourceId, string> = {
+  microphone: "Microphone",
+  system: "System audio",
+}
+
+// Who is heard on a source: the microphone is the local user, system audio is the AI being talked to
+export const getSourceSpeaker = (source: AudioSourceId, userName?: string) =>
+  source === "microphone" ? userName || "User" : AI_SPEAKER_LABEL
+
+// "stereo" puts the microphone on the left channel and system audio on the right instead of summing them
+export type ChannelLayout = "mixed" | "stereo"
+
+export interface ChannelLayoutSettings {
+  layout: ChannelLayout
+  transcribeChannelsSeparately: boolean // send each channel of a stereo chunk as its own audio
+}
+
+// Source on each channel of a stereo recording, left first
+export const STEREO_CHANNEL_SOURCES: AudioSourceId[] = ["microphone", "system"]
+
+const CHANNEL_LAYOUT_STORAGE_KEY = "channel-layout-settings"
+
+export const DEFAULT_CHANNEL_LAYOUT_SETTINGS: ChannelLayoutSettings = {
+  layout: "mixed",
+  transcribeChannelsSeparately: true,
+}
+
+export const loadChannelLayoutSettings = (): ChannelLayoutSettings => {
+  try {
+    const saved = localStorage.getItem(CHANNEL_LAYOUT_STORAGE_KEY)
+    if (saved) {
+      return { ...DEFAULT_CHANNEL_LAYOUT_SETTINGS, ...JSON.parse(saved) }
+    }
+  } catch (error) {
+    console.error("Failed to load channel layout settings:", error)
+  }
+  return DEFAULT_CHANNEL_LAYOUT_SETTINGS
+}
+
+export const saveChannelLayoutSettings = (settings: ChannelLayoutSettings) => {
+  localStorage.setItem(CHANNEL_LAYOUT_STORAGE_KEY, JSON.stringify(settings))
+}
+
+// How loud each source goes into the mix; applied to the running gain nodes and kept with the session
+export interface SourceMixSettings {
+  gain: number // 0-MAX_SOURCE_GAIN, 1 is unchanged
+  muted: boolean
+}
+
+export type SourceMix = Record<AudioSourceId, SourceMixSettings>
+
+export const MAX_SOURCE_GAIN = 2
+
+export const DEFAULT_SOURCE_MIX: SourceMix = {
+  microphone: { gain: 1, muted: false },
+  system: { gain: 0.8, muted: false },
+}
+
+const SOURCE_MIX_STORAGE_KEY = "source-mix"
+
+const normalizeSourceMix = (mix: Partial<SourceMix>): SourceMix => {
+  const normalize = (source: AudioSourceId): SourceMixSettings => {
+    const settings = mix[source]
+    const gain = Number(settings?.gain)
+    return {
+      gain: Number.isFinite(gain) ? Math.min(MAX_SOURCE_GAIN, Math.max(0, gain)) : DEFAULT_SOURCE_MIX[source].gain,
+      muted: settings?.muted === true,
+    }
+  }
+  return { microphone: normalize("microphone"), system: normalize("system") }
+}
+
+export const loadSourceMix = (): SourceMix => {
+  try {
+    const saved = localStorage.getItem(SOURCE_MIX_STORAGE_KEY)
+    if (saved) {
+      return normalizeSourceMix(JSON.parse(saved))
+    }
+  } catch (error) {
+    console.error("Failed to load source mix:", error)
+  }
+  return DEFAULT_SOURCE_MIX
+}
+
+export const saveSourceMix = (mix: SourceMix): SourceMix => {
+  const normalized = normalizeSourceMix(mix)
+  localStorage.setItem(SOURCE_MIX_STORAGE_KEY, JSON.stringify(normalized))
+  return normalized
+}
+
+export const getSourceGain = (settings: SourceMixSettings) => (settings.muted ? 0 : settings.gain)
+
+// Sources a capture mode records
+export const getCaptureSources = (captureMode: string): AudioSourceId[] =>
+  captureMode === "both" ? ["microphone", "system"] : captureMode === "desktop" ? ["system"] : ["microphone"]
+
+// "Microphone 100%, System audio 80% (muted)", for session details
+export const formatSourceMix = (mix: SourceMix, sources: AudioSourceId[]): string =>
+  sources
+    .map((source): [AudioSourceId, SourceMixSettings] => [source, mix[source]])
+    .map(
+      ([source, settings]) =>
+        `${SOURCE_LABELS[source]} ${Math.round(settings.gain * 100)}%${settings.muted ? " (muted)" : ""}`,
+    )
+    .join(", ")
+
+// Channels of a stereo chunk to transcribe one by one, or undefined when the chunk goes out as a single mix
+export const getTranscriptionChannels = async (chunk: {
+  blob: Blob
+  channelLayout?: ChannelLayout
+}): Promise<{ source: AudioSourceId; audio: Blob }[] | undefined> => {
+  if (chunk.channelLayout !== "stereo" || !loadChannelLayoutSettings().transcribeChannelsSeparately) return undefined
+
+  const channels = await splitStereoChannels(chunk.blob)
+  if (channels.length < STEREO_CHANNEL_SOURCES.length) return undefined
+  return STEREO_CHANNEL_SOURCES.map((source, index) => ({ source, audio: channels[index] }))
+}
+
+const SAMPLE_INTERVAL_MS = 100
+// RMS level (0-1) above which a source counts as active, roughly -40 dBFS
+const ACTIVITY_THRESHOLD = 0.01
+// Gaps shorter than this don't split a span
+const SPAN_MERGE_GAP = 0.5
+const MIN_SPAN_DURATION = 0.3
+// Samples older than this are dropped; chunks are always evaluated shortly after they end
+const MAX_HISTORY_SECONDS = 15 * 60
+
+interface ActivitySample {
+  time: number
+  levels: Partial<Record<AudioSourceId, number>>
+}
+
+// Peak sample level (0-1) at which a source counts as clipping
+export const CLIP_LEVEL = 0.99
+
+export interface SourceLevel {
+  level: number // RMS, 0-1
+  peak: number // largest absolute sample, above 1 when the source will clip
+}
+
+// Live meters for the level each source reaches after its gain, read once per animation frame
+export class SourceLevelMeter {
+  private audioContext: AudioContext
+  private analysers = new Map<AudioSourceId, { analyser: AnalyserNode; data: Float32Array }>()
+
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext
+  }
+
+  addSource(source: AudioSourceId, node: AudioNode) {
+    const analyser = this.audioContext.createAnalyser()
+    analyser.fftSize = 1024
+    node.connect(analyser)
+    this.analysers.set(source, { analyser, data: new Float32Array(analyser.fftSize) })
+  }
+
+  read(): Partial<Record<AudioSourceId, SourceLevel>> {
+    const levels: Partial<Record<AudioSourceId, SourceLevel>> = {}
+    this.analysers.forEach(({ analyser, data }, source) => {
+      analyser.getFloatTimeDomainData(data)
+      let sum = 0
+      let peak = 0
+      for (let i = 0; i < data.length; i++) {
+        sum += data[i] * data[i]
+        peak = Math.max(peak, Math.abs(data[i]))
+      }
+      levels[source] = { level: Math.sqrt(sum / data.length), peak }
+    })
+    return levels
+  }
+}
+
+/**
+ * Samples the RMS level of each source on a session clock. `getDominantSource` attributes a live caption
+ * to whichever source was loudest while it was spoken; `getActivitySpans` describes a whole chunk.
+ */
+export class SourceActivityMonitor {
+  private audioContext: AudioContext
+  private analysers = new Map<AudioSourceId, { analyser: AnalyserNode; data: Float32Array }>()
+  private samples: ActivitySample[] = []
+  private timer: ReturnType<typeof setInterval> | null = null
+  private startedAt = 0
+  private baseOffset = 0
+  private activityThreshold: number
+
+  // `thresholdScale` raises or lowers the level that counts as activity, following the sensitivity setting
+  constructor(audioContext: AudioContext, thresholdScale = 1) {
+    this.audioContext = audioContext
+    this.activityThreshold = ACTIVITY_THRESHOLD * thresholdScale
+  }
+
+  addSource(source: AudioSourceId, node: AudioNode) {
+    const analyser = this.audioContext.createAnalyser()
+    analyser.fftSize = 1024
+    node.connect(analyser)
+    this.analysers.set(source, { analyser, data: new Float32Array(analyser.fftSize) })
+  }
+
+  get sources(): AudioSourceId[] {
+    return [...this.analysers.keys()]
+  }
+
+  // `baseOffset` is the session time at which monitoring starts (non-zero when resuming)
+  start(baseOffset = 0) {
+    this.stop()
+    this.baseOffset = baseOffset
+    this.startedAt = this.audioContext.currentTime
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Current position on the session clock, in seconds; runs on the audio clock so it matches chunk cuts
+  now(): number {
+    return this.baseOffset + this.audioContext.currentTime - this.startedAt
+  }
+
+  private sample() {
+    const levels: ActivitySample["levels"] = {}
+    this.analysers.forEach(({ analyser, data }, source) => {
+      analyser.getFloatTimeDomainData(data)
+      let sum = 0
+      for (let i = 0; i < data.length; i++) sum += data[i] * data[i]
+      levels[source] = Math.sqrt(sum / data.length)
+    })
+
+    const time = this.now()
+    this.samples.push({ time, levels })
+    while (this.samples.length > 0 && this.samples[0].time < time - MAX_HISTORY_SECONDS) {
+      this.samples.shift()
+    }
+  }
+
+  // Source with the most speech energy between two session times, or null if every source was quiet
+  getDominantSource(start: number, end: number): AudioSourceId | null {
+    const energy: Partial<Record<AudioSourceId, number>> = {}
+    this.samples
+      .filter((sample) => sample.time >= start && sample.time <= end)
+      .forEach((sample) => {
+        Object.entries(sample.levels).forEach(([source, level]) => {
+          if (level > this.activityThreshold) {
+            energy[source as AudioSourceId] = (energy[source as AudioSourceId] || 0) + level
+          }
+        })
+      })
+
+    const ranked = (Object.entries(energy) as [AudioSourceId, number][]).sort((a, b) => b[1] - a[1])
+    return ranked.length > 0 ? ranked[0][0] : null
+  }
+
+  // Activity of every source between two session times, with offsets relative to `start`
+  getActivitySpans(start: number, end: number): SourceActivitySpan[] {
+    const windowSamples = this.samples.filter((sample) => sample.time >= start && sample.time <= end)
+    const spans: SourceActivitySpan[] = []
+
+    this.analysers.forEach((_, source) => {
+      let current: SourceActivitySpan | null = null
+      windowSamples.forEach((sample) => {
+        if ((sample.levels[source] || 0) <= this.activityThreshold) return
+
+        const time = sample.time - start
+        if (current && time - current.end <= SPAN_MERGE_GAP) {
+          current.end = time + SAMPLE_INTERVAL_MS / 1000
+        } else {
+          if (current) spans.push(current)
+          current = { source, start: time, end: time + SAMPLE_INTERVAL_MS / 1000 }
+        }
+      })
+      if (current) spans.push(current)
+    })
+
+    return spans
+      .filter((span) => span.end - span.start >= MIN_SPAN_DURATION)
+      .map((span) => ({
+        ...span,
+        start: Math.round(span.start * 10) / 10,
+        end: Math.round(Math.min(span.end, end - start) * 10) / 10,
+      }))
+      .sort((a, b) => a.start - b.start)
+  }
+}
+
+// Timeline handed to the transcription model, e.g. "[00:03–00:09] Microphone (Alex)"
+export const formatSourceActivity = (spans: SourceActivitySpan[], userName?: string): string =>
+  spans
+    .map(
+      (span) =>
+        `[${formatTimestamp(span.start)}–${formatTimestamp(span.end)}] ${SOURCE_LABELS[span.source]} (${getSourceSpeaker(span.source, userName)})`,
+    )
+    .join("\n")
+
+// Label utterances from providers without diarization by the source that was active while they were spoken
+export const attributeUtterancesBySource = (
+  utterances: TranscriptUtterance[],
+  spans: SourceActivitySpan[],
+  userName?: string,
+): TranscriptUtterance[] =>
+  utterances.map((utterance) => {
+    const overlap: Partial<Record<AudioSourceId, number>> = {}
+    spans.forEach((span) => {
+      const amount = Math.min(span.end, utterance.end) - Math.max(span.start, utterance.start)
+      if (amount > 0) overlap[span.source] = (overlap[span.source] || 0) + amount
+    })
+
+    const ranked = (Object.entries(overlap) as [AudioSourceId, number][]).sort((a, b) => b[1] - a[1])
+    return ranked.length > 0 ? { ...utterance, speaker: getSourceSpeaker(ranked[0][0], userName) } : utterance
+  })
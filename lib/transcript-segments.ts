@@ -0,0 +1,71 @@
+// Structured transcript data. Plain-text transcripts are always generated from these segments.
+
+// One utterance as returned by the transcription model, with offsets relative to the chunk
+export interface TranscriptUtterance {
+  speaker: string
+  start: number // seconds from the start of the chunk
+  end: number
+  text: string
+  language?: string
+}
+
+// An utterance placed on the session timeline
+export interface TranscriptSegment extends TranscriptUtterance {
+  chunkIndex: number
+  absoluteStart: number // seconds from the start of the session
+  absoluteEnd: number
+}
+
+export const toSessionSegments = (
+  utterances: TranscriptUtterance[],
+  chunkIndex: number,
+  chunkStartOffset: number,
+): TranscriptSegment[] =>
+  utterances.map((utterance) => ({
+    ...utterance,
+    chunkIndex,
+    absoluteStart: chunkStartOffset + utterance.start,
+    absoluteEnd: chunkStartOffset + utterance.end,
+  }))
+
+export const formatUtterancesAsText = (utterances: TranscriptUtterance[]): string =>
+  utterances.map((utterance) => `${utterance.speaker}: ${utterance.text}`).join("\n")
+
+export const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(totalSeconds / 3600)
+  const mins = Math.floor((totalSeconds % 3600) / 60)
+  const secs = totalSeconds % 60
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+  }
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+// Text with session timestamps, e.g. "[01:12] User: hello"
+export const formatSegmentsWithTimestamps = (segments: TranscriptSegment[]): string =>
+  segments
+    .map((segment) => `[${formatTimestamp(segment.absoluteStart)}] ${segment.speaker}: ${segment.text}`)
+    .join("\n")
+
+// Validate model output; drops malformed entries and keeps offsets ordered and non-negative
+export const sanitizeUtterances = (raw: unknown): TranscriptUtterance[] => {
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+    .map((item) => {
+      const start = Math.max(0, Number(item.start) || 0)
+      const end = Math.max(start, Number(item.end) || start)
+      return {
+        speaker: String(item.speaker || "Unknown").trim(),
+        start,
+        end,
+        text: String(item.text || "").trim(),
+        language: typeof item.language === "string" && item.language ? item.language : undefined,
+      }
+    })
+    .filter((utterance) => utterance.text.length > 0)
+    .sort((a, b) => a.start - b.start)
+}
@@ -0,0 +1,168 @@
+// Seamless transcripts across chunk boundaries. A chunk can be uploaded with a few seconds of the previous
+// chunk in front of it (its lead-in), so words at the seam are heard in full. The words the lead-in repeats are
+// found by aligning the start of the new transcript with the end of the previous one, and removed.
+
+import type { SourceActivitySpan } from "@/lib/source-tracks"
+import type { TranscriptUtterance } from "@/lib/transcript-segments"
+
+interface LeadInChunk {
+  blob: Blob
+  duration: number
+  leadIn?: Blob
+  leadInSeconds?: number
+  sourceActivity?: SourceActivitySpan[]
+}
+
+// Words compared at each side of the seam
+const ALIGN_WINDOW_WORDS = 40
+// Shortest run of words that counts as the repeated overlap
+const MIN_MATCH_WORDS = 2
+// Words that may be cut off mid-word at either edge of the lead-in and so fail to match
+const MAX_EDGE_SKIP_WORDS = 3
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "")
+
+// Lines of a downloaded transcript start with their time, e.g. "[01:23] Speaker: text"
+const stripTimestamp = (line: string) => line.replace(/^\[[^\]\n]*\]\s*/, "")
+
+const getSpeakerLabel = (line: string) => stripTimestamp(line).match(/^([^:\n]{1,40}):/)?.[1]
+
+const stripSpeakerLabel = (line: string) => stripTimestamp(line).replace(/^[^:\n]{1,40}:\s*/, "")
+
+/**
+ * The chunk as it is uploaded: lead-in and chunk audio joined (MP3 frames are self-contained, so the two
+ * files concatenate byte-wise), with duration and source activity measured from the start of the lead-in.
+ * Chunks without a lead-in come back unchanged with `leadInSeconds` 0.
+ */
+export const withLeadIn = <T extends LeadInChunk>(chunk: T): T & { leadInSeconds: number } => {
+  const leadInSeconds = chunk.leadInSeconds || 0
+  const isMp3 = (blob: Blob) => blob.type.includes("mpeg") || blob.type.includes("mp3")
+  if (!chunk.leadIn || leadInSeconds <= 0 || !isMp3(chunk.leadIn) || !isMp3(chunk.blob)) {
+    return { ...chunk, leadInSeconds: 0 }
+  }
+
+  return {
+    ...chunk,
+    blob: new Blob([chunk.leadIn, chunk.blob], { type: chunk.blob.type }),
+    duration: chunk.duration + leadInSeconds,
+    sourceActivity: chunk.sourceActivity?.map((span) => ({
+      ...span,
+      start: span.start + leadInSeconds,
+      end: span.end + leadInSeconds,
+    })),
+    leadInSeconds,
+  }
+}
+
+// Length of the longest run of words ending near the end of `previous` that also starts near the start of
+// `current`, and how many words of `current` it covers (including any cut-off words before it)
+const findOverlap = (previous: string[], current: string[]): number => {
+  let bestMatch = 0
+  let bestCovered = 0
+
+  for (let tailSkip = 0; tailSkip <= MAX_EDGE_SKIP_WORDS; tailSkip++) {
+    const end = previous.length - tailSkip
+    for (let headSkip = 0; headSkip <= MAX_EDGE_SKIP_WORDS; headSkip++) {
+      const maxLength = Math.min(end, current.length - headSkip)
+      for (let length = maxLength; length > bestMatch && length >= MIN_MATCH_WORDS; length--) {
+        let matches = true
+        for (let i = 0; i < length && matches; i++) {
+          matches = previous[end - length + i] === current[headSkip + i]
+        }
+        if (matches) {
+          bestMatch = length
+          bestCovered = headSkip + length
+          break
+        }
+      }
+    }
+  }
+
+  return bestCovered
+}
+
+// Remove the first `count` words, moving the start of a partly trimmed utterance forward proportionally
+const dropLeadingWords = (utterances: TranscriptUtterance[], count: number): TranscriptUtterance[] => {
+  let remaining = count
+  return utterances.flatMap((utterance) => {
+    if (remaining <= 0) return [utterance]
+
+    const words = utterance.text.split(/\s+/).filter(Boolean)
+    const dropped = Math.min(remaining, words.length)
+    remaining -= dropped
+    if (dropped === words.length) return []
+
+    return [
+      {
+        ...utterance,
+        start: utterance.start + ((utterance.end - utterance.start) * dropped) / words.length,
+        text: words.slice(dropped).join(" "),
+      },
+    ]
+  })
+}
+
+/**
+ * Utterances of a chunk uploaded with a lead-in, made relative to the chunk itself with the words that repeat
+ * `previousTranscript` removed. When the texts can't be aligned, utterances heard entirely in the lead-in are
+ * dropped instead; without a previous transcript (its chunk failed) the lead-in is kept, since nothing repeats it.
+ */
+export const stitchUtterances = (
+  utterances: TranscriptUtterance[],
+  leadInSeconds: number,
+  previousTranscript?: string,
+): TranscriptUtterance[] => {
+  if (leadInSeconds <= 0) return utterances
+
+  let stitched = utterances
+  if (previousTranscript?.trim()) {
+    const previousWords = previousTranscript
+      .split("\n")
+      .map(stripSpeakerLabel)
+      .join(" ")
+      .split(/\s+/)
+      .map(normalizeWord)
+      .filter(Boolean)
+      .slice(-ALIGN_WINDOW_WORDS)
+    // Words that normalize to nothing (stray punctuation) are kept so indices line up with the utterance text
+    const currentWords = utterances
+      .flatMap((utterance) => utterance.text.split(/\s+/).filter(Boolean))
+      .slice(0, ALIGN_WINDOW_WORDS)
+      .map(normalizeWord)
+
+    const overlap = findOverlap(previousWords, currentWords)
+    if (overlap > 0) {
+      console.log(`🧵 Removed ${overlap} word(s) repeated from the previous chunk`)
+      stitched = dropLeadingWords(utterances, overlap)
+    } else {
+      stitched = utterances.filter((utterance) => utterance.end > leadInSeconds)
+    }
+  }
+
+  return stitched.map((utterance) => ({
+    ...utterance,
+    start: Math.max(0, utterance.start - leadInSeconds),
+    end: Math.max(0, utterance.end - leadInSeconds),
+  }))
+}
+
+// Chunk transcripts as one continuous text; a turn that carries on across a seam stays on one line
+export const joinTranscripts = (transcripts: (string | undefined)[]): string => {
+  const lines: string[] = []
+
+  transcripts
+    .filter((transcript): transcript is string => !!transcript && transcript.trim().length > 0)
+    .forEach((transcript) => {
+      const chunkLines = transcript.trim().split("\n")
+      const last = lines[lines.length - 1]
+      const lastSpeaker = last && getSpeakerLabel(last)
+      const firstSpeaker = getSpeakerLabel(chunkLines[0])
+
+      if (lastSpeaker && lastSpeaker === firstSpeaker) {
+        lines[lines.length - 1] = `${last} ${stripSpeakerLabel(chunkLines.shift()!)}`
+      }
+      lines.push(...chunkLines)
+    })
+
+  return lines.join("\n")
+}
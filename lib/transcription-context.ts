@@ -0,0 +1,115 @@
+// Builds the context that is sent to Gemini alongside each audio chunk
+
+export type TranscriptContextLevel = "off" | "minimal" | "standard" | "extended"
+
+interface ContextPreset {
+  label: string
+  description: string
+  liveTranscriptChars: number // max characters of live captions for the chunk window
+  previousTailChars: number // max characters from the end of the previous chunk's final transcript
+  windowPadding: number // seconds of live captions included before/after the chunk window
+}
+
+export const TRANSCRIPT_CONTEXT_PRESETS: Record<TranscriptContextLevel, ContextPreset> = {
+  off: {
+    label: "Off",
+    description: "Audio only",
+    liveTranscriptChars: 0,
+    previousTailChars: 0,
+    windowPadding: 0,
+  },
+  minimal: {
+    label: "Minimal",
+    description: "Short live caption excerpt and last sentence of the previous chunk",
+    liveTranscriptChars: 500,
+    previousTailChars: 200,
+    windowPadding: 2,
+  },
+  standard: {
+    label: "Standard",
+    description: "Live captions for the chunk and the end of the previous chunk",
+    liveTranscriptChars: 1500,
+    previousTailChars: 600,
+    windowPadding: 5,
+  },
+  extended: {
+    label: "Extended",
+    description: "Generous context, best consistency at the cost of larger requests",
+    liveTranscriptChars: 4000,
+    previousTailChars: 1500,
+    windowPadding: 15,
+  },
+}
+
+const CONTEXT_LEVEL_STORAGE_KEY = "transcription-context-level"
+const DEFAULT_CONTEXT_LEVEL: TranscriptContextLevel = "standard"
+
+export const loadTranscriptContextLevel = (): TranscriptContextLevel => {
+  try {
+    const saved = localStorage.getItem(CONTEXT_LEVEL_STORAGE_KEY)
+    if (saved && saved in TRANSCRIPT_CONTEXT_PRESETS) {
+      return saved as TranscriptContextLevel
+    }
+  } catch (error) {
+    console.error("Failed to load transcription context level:", error)
+  }
+  return DEFAULT_CONTEXT_LEVEL
+}
+
+export const saveTranscriptContextLevel = (level: TranscriptContextLevel) => {
+  localStorage.setItem(CONTEXT_LEVEL_STORAGE_KEY, level)
+}
+
+interface LiveTranscriptEntry {
+  speaker: "user" | "ai"
+  text: string
+  offset?: number // seconds since the session started
+}
+
+// Keep the end of a text, starting on a word boundary
+const takeTail = (text: string, maxChars: number): string => {
+  const trimmed = text.trim()
+  if (maxChars <= 0) return ""
+  if (trimmed.length <= maxChars) return trimmed
+
+  const tail = trimmed.slice(trimmed.length - maxChars)
+  const firstBreak = tail.search(/\s/)
+  return `…${firstBreak >= 0 ? tail.slice(firstBreak + 1) : tail}`
+}
+
+// Live captions spoken during [chunkStart, chunkEnd], formatted like the final transcript
+export const buildLiveTranscriptWindow = (
+  entries: LiveTranscriptEntry[],
+  userName: string | undefined,
+  chunkStart: number,
+  chunkEnd: number,
+  level: TranscriptContextLevel,
+): string => {
+  const preset = TRANSCRIPT_CONTEXT_PRESETS[level]
+  if (preset.liveTranscriptChars === 0 || entries.length === 0) return ""
+
+  // Entries recorded before offsets were tracked can't be placed in time, so fall back to the latest ones
+  const hasOffsets = entries.some((entry) => entry.offset !== undefined)
+  const windowEntries = hasOffsets
+    ? entries.filter(
+        (entry) =>
+          entry.offset !== undefined &&
+          entry.offset >= chunkStart - preset.windowPadding &&
+          entry.offset <= chunkEnd + preset.windowPadding,
+      )
+    : entries
+
+  const text = windowEntries
+    .map((entry) => `${entry.speaker === "user" ? userName || "User" : "AI Assistant"}: ${entry.text}`)
+    .join("\n")
+
+  return takeTail(text, preset.liveTranscriptChars)
+}
+
+export const buildPreviousTranscriptTail = (
+  previousTranscript: string | undefined,
+  level: TranscriptContextLevel,
+): string => {
+  if (!previousTranscript) return ""
+  return takeTail(previousTranscript, TRANSCRIPT_CONTEXT_PRESETS[level].previousTailChars)
+}
@@ -0,0 +1,87 @@
+// Why a transcription failed. Providers return a TranscriptionError as plain data (it crosses the server action
+// boundary); its code decides what happens next: send the chunk again, move it to another API key, or stop
+// queuing chunks that would only fail the same way.
+
+export type TranscriptionErrorCode =
+  | "invalid-key" // the API key was rejected
+  | "quota" // rate limit or quota reached
+  | "too-large" // the upload is over the provider's request size
+  | "safety-block" // the provider refused to transcribe the content
+  | "network" // the provider couldn't be reached, or failed on its side
+  | "timeout"
+  | "empty-output" // the response had no speech in it
+  | "malformed-output" // the response couldn't be read
+  | "not-configured"
+  | "unknown"
+
+export interface TranscriptionError {
+  code: TranscriptionErrorCode
+  message: string
+  retryable: boolean // sending the same request again may work
+  retryAfterSeconds?: number // how long the provider asked to wait first
+}
+
+const ERROR_DEFAULTS: Record<TranscriptionErrorCode, { message: string; retryable: boolean }> = {
+  "invalid-key": { message: "Invalid API key. Please check your API key in Settings.", retryable: false },
+  quota: { message: "API quota or rate limit reached. Please try again later.", retryable: true },
+  "too-large": { message: "The audio is too large for a single request.", retryable: false },
+  "safety-block": { message: "The provider refused to transcribe this audio.", retryable: false },
+  network: { message: "Could not reach the transcription service.", retryable: true },
+  timeout: { message: "The transcription request timed out.", retryable: true },
+  "empty-output": { message: "No transcript generated from the audio file", retryable: true },
+  "malformed-output": { message: "The provider returned a malformed transcript.", retryable: true },
+  "not-configured": { message: "Transcription isn't configured. Please check Settings.", retryable: false },
+  unknown: { message: "Transcription failed", retryable: false },
+}
+
+export const createTranscriptionError = (
+  code: TranscriptionErrorCode,
+  message?: string,
+  retryAfterSeconds?: number,
+): TranscriptionError => ({
+  code,
+  message: message || ERROR_DEFAULTS[code].message,
+  retryable: ERROR_DEFAULTS[code].retryable,
+  ...(retryAfterSeconds !== undefined && { retryAfterSeconds }),
+})
+
+// Thrown by callers that turn a failed result into an exception, e.g. for the transcription queue
+export class TranscriptionFailure extends Error {
+  readonly error: TranscriptionError
+
+  constructor(error: TranscriptionError) {
+    super(error.message)
+    this.name = "TranscriptionFailure"
+    this.error = error
+  }
+}
+
+// The TranscriptionError behind anything a transcription threw
+export const toTranscriptionError = (error: unknown): TranscriptionError => {
+  if (error instanceof TranscriptionFailure) return error.error
+  if (error instanceof Error && error.name === "AbortError") return createTranscriptionError("timeout")
+  if (error instanceof TypeError) return createTranscriptionError("network", error.message)
+  return createTranscriptionError("unknown", error instanceof Error ? error.message : undefined)
+}
+
+// Problems with the key rather than the chunk: another key may work
+export const isApiKeyError = (error: TranscriptionError) => error.code === "invalid-key" || error.code === "quota"
+
+// Every later chunk would fail the same way, so there's no point sending them. A rate limit only counts when it
+// can't be retried, i.e. there's no other key to fall back to; otherwise the chunk waits and goes again.
+export const isFatalTranscriptionError = (error: TranscriptionError) =>
+  error.code === "invalid-key" || error.code === "not-configured" || (error.code === "quota" && !error.retryable)
+
+// Short label for chunk badges and toasts
+export const TRANSCRIPTION_ERROR_LABELS: Record<TranscriptionErrorCode, string> = {
+  "invalid-key": "Invalid key",
+  quota: "Quota reached",
+  "too-large": "Too large",
+  "safety-block": "Blocked",
+  network: "Network error",
+  timeout: "Timed out",
+  "empty-output": "No speech",
+  "malformed-output": "Bad response",
+  "not-configured": "Not configured",
+  unknown: "Failed",
+}
@@ -0,0 +1,682 @@
+// Transcription providers. Every final transcription goes through a TranscriptionProvider so the
+// audio pipeline doesn't care whether Gemini, an OpenAI-compatible server or a local model produced the text.
+
+import { transcribeAudioWithGemini, type GeminiAudioChannel } from "@/lib/gemini-actions"
+import { acquireApiKey, countHealthyApiKeys, getNextCooldownEnd, releaseApiKey } from "@/lib/api-key-pool"
+import {
+  GEMINI_MODELS,
+  getGeminiModelLabel,
+  isTranscriptTooSparse,
+  loadGeminiModelSettings,
+  type GeminiModelOptions,
+  type GeminiModelSettings,
+} from "@/lib/gemini-models"
+import {
+  OFFLINE_WHISPER_MODELS,
+  isOfflineWhisperSupported,
+  loadOfflineWhisperSettings,
+  loadWhisperModel,
+  subscribeToModelProgress,
+  transcribeWithWhisper,
+  type OfflineWhisperSettings,
+} from "@/lib/offline-whisper"
+import { AudioChunkProcessor } from "@/utils/audioProcessor"
+import {
+  SOURCE_LABELS,
+  attributeUtterancesBySource,
+  formatSourceActivity,
+  getSourceSpeaker,
+  type AudioSourceId,
+  type SourceActivitySpan,
+} from "@/lib/source-tracks"
+import { formatUtterancesAsText, sanitizeUtterances, type TranscriptUtterance } from "@/lib/transcript-segments"
+import {
+  TRANSCRIPTION_ERROR_LABELS,
+  createTranscriptionError,
+  isApiKeyError,
+  toTranscriptionError,
+  type TranscriptionError,
+  type TranscriptionErrorCode,
+} from "@/lib/transcription-errors"
+
+export type TranscriptionProviderId = "gemini" | "openai-compatible" | "offline-whisper"
+
+export interface TranscriptionRequest {
+  audio: Blob
+  chunkIndex: number
+  durationSeconds: number
+  userName?: string
+  liveTranscriptContext?: string
+  previousTranscriptTail?: string
+  sourceActivity?: SourceActivitySpan[] // which capture source was active when, relative to the chunk
+  channels?: { source: AudioSourceId; audio: Blob }[] // channels of a stereo chunk, transcribed instead of `audio`
+  leadInSeconds?: number // the audio starts with this much of the previous chunk; offsets still count from its start
+  instructions?: string // extra instructions from the user, e.g. when a chunk is run again with an edited prompt
+  speechSeconds?: number // speech the voice activity detector found in the chunk, when it ran
+  onStatus?: (status: string) => void // progress messages for long-running providers
+}
+
+export interface TranscriptionResult {
+  success: boolean
+  transcript?: string
+  utterances?: TranscriptUtterance[]
+  error?: TranscriptionError
+  providerId: TranscriptionProviderId
+  model?: string
+}
+
+// Which provider and model produced a chunk's transcript
+export interface TranscriptionSource {
+  providerId: TranscriptionProviderId
+  providerName: string
+  model?: string
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId
+  name: string
+  // Remote providers get MP3 to keep uploads small; local ones decode the recorded audio directly
+  audioFormat: "mp3" | "original"
+  isConfigured: () => boolean
+  maxConcurrency: () => number // chunks that may be transcribed at once
+  transcribe: (request: TranscriptionRequest) => Promise<TranscriptionResult>
+}
+
+export const TRANSCRIPTION_PROVIDER_NAMES: Record<TranscriptionProviderId, string> = {
+  gemini: "Google Gemini",
+  "openai-compatible": "OpenAI-compatible (Whisper)",
+  "offline-whisper": "Offline Whisper (in browser)",
+}
+
+const ACTIVE_PROVIDER_STORAGE_KEY = "transcription-provider"
+const OPENAI_COMPATIBLE_STORAGE_KEY = "openai-compatible-settings"
+const OPENAI_COMPATIBLE_CONCURRENCY = 2
+// A chunk waits this long at most for a rate-limited Gemini key to cool down before it fails, and only this often
+const MAX_GEMINI_COOLDOWN_WAIT_MS = 60 * 1000
+const MAX_GEMINI_COOLDOWN_WAITS = 2
+
+export const loadActiveProviderId = (): TranscriptionProviderId => {
+  try {
+    const saved = localStorage.getItem(ACTIVE_PROVIDER_STORAGE_KEY)
+    if (saved && saved in TRANSCRIPTION_PROVIDER_NAMES) {
+      return saved as TranscriptionProviderId
+    }
+  } catch (error) {
+    console.error("Failed to load transcription provider:", error)
+  }
+  return "gemini"
+}
+
+export const saveActiveProviderId = (providerId: TranscriptionProviderId) => {
+  localStorage.setItem(ACTIVE_PROVIDER_STORAGE_KEY, providerId)
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string // e.g. http://192.168.1.20:8000/v1
+  apiKey: string // optional for most self-hosted servers
+  model: string
+  language: string // ISO-639-1 hint, empty for auto-detect
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_SETTINGS: OpenAICompatibleSettings = {
+  baseUrl: "http://localhost:8000/v1",
+  apiKey: "",
+  model: "whisper-1",
+  language: "",
+}
+
+export const loadOpenAICompatibleSettings = (): OpenAICompatibleSettings => {
+  try {
+    const saved = localStorage.getItem(OPENAI_COMPATIBLE_STORAGE_KEY)
+    if (saved) {
+      return { ...DEFAULT_OPENAI_COMPATIBLE_SETTINGS, ...JSON.parse(saved) }
+    }
+  } catch (error) {
+    console.error("Failed to load OpenAI-compatible settings:", error)
+  }
+  return DEFAULT_OPENAI_COMPATIBLE_SETTINGS
+}
+
+export const saveOpenAICompatibleSettings = (settings: OpenAICompatibleSettings) => {
+  localStorage.setItem(OPENAI_COMPATIBLE_STORAGE_KEY, JSON.stringify(settings))
+}
+
+const getAudioFileName = (audio: Blob, chunkIndex: number) => {
+  const extension = audio.type.includes("mpeg")
+    ? "mp3"
+    : audio.type.includes("wav")
+      ? "wav"
+      : audio.type.includes("mp4")
+        ? "m4a"
+        : "webm"
+  return `chunk-${chunkIndex + 1}.${extension}`
+}
+
+// Error code for a failed HTTP response from an OpenAI-compatible server
+const getHttpErrorCode = (status: number): TranscriptionErrorCode =>
+  status === 401 || status === 403
+    ? "invalid-key"
+    : status === 429
+      ? "quota"
+      : status === 413
+        ? "too-large"
+        : status === 408 || status === 504
+          ? "timeout"
+          : status >= 500
+            ? "network"
+            : "unknown"
+
+// Whisper has no diarization; speakers come from the capture source that was active during each segment
+const attributeBySource = (utterances: TranscriptUtterance[], request: TranscriptionRequest) =>
+  request.sourceActivity?.length
+    ? attributeUtterancesBySource(utterances, request.sourceActivity, request.userName)
+    : utterances
+
+// Providers that take a single audio file transcribe each channel on its own; the channel decides the speaker
+const withSeparateChannels =
+  (transcribe: TranscriptionProvider["transcribe"]): TranscriptionProvider["transcribe"] =>
+  async (request) => {
+    if (!request.channels?.length) return transcribe(request)
+
+    const results: TranscriptionResult[] = []
+    const utterances: TranscriptUtterance[] = []
+    for (const channel of request.channels) {
+      const label = SOURCE_LABELS[channel.source].toLowerCase()
+      const result = await transcribe({
+        ...request,
+        audio: channel.audio,
+        channels: undefined,
+        sourceActivity: undefined,
+        onStatus: request.onStatus && ((status) => request.onStatus?.(`${status} (${label})`)),
+      })
+      results.push(result)
+      // A silent channel is expected (nobody talked on it), so only give up if every channel fails
+      result.utterances?.forEach((utterance) =>
+        utterances.push({ ...utterance, speaker: getSourceSpeaker(channel.source, request.userName) }),
+      )
+    }
+
+    const succeeded = results.find((result) => result.success)
+    if (!succeeded) return results[0]
+
+    utterances.sort((a, b) => a.start - b.start)
+    return { ...succeeded, transcript: formatUtterancesAsText(utterances), utterances }
+  }
+
+// One Gemini request for a chunk, on the least busy healthy key. A failure down to the key (invalid, rate limited)
+// moves the chunk to another key; when every key is cooling down, it waits for the first one that comes back.
+const transcribeWithKeyPool = async (
+  apiKeys: string[],
+  request: TranscriptionRequest,
+  base64Audio: string,
+  channels: GeminiAudioChannel[] | undefined,
+  modelOptions: GeminiModelOptions,
+  onKeyUsed?: (keyIndex: number, chunkIndex: number) => void,
+): Promise<TranscriptionResult> => {
+  const triedKeys = new Set<string>()
+  let lastFailure: TranscriptionResult | undefined
+  // Each key once, plus a couple of waits for a rate-limited key to come back
+  for (let attempt = 0; attempt < apiKeys.length + MAX_GEMINI_COOLDOWN_WAITS; attempt++) {
+    let keyIndex = acquireApiKey(apiKeys, triedKeys)
+    if (keyIndex < 0) {
+      // Every usable key is cooling down: wait for the first one if that's soon enough
+      const cooldownEnd = getNextCooldownEnd(apiKeys)
+      if (cooldownEnd === undefined || cooldownEnd - Date.now() > MAX_GEMINI_COOLDOWN_WAIT_MS) break
+      const waitSeconds = Math.ceil((cooldownEnd - Date.now()) / 1000)
+      console.log(
+        `⏳ All Gemini API keys are cooling down, waiting ${waitSeconds}s for chunk ${request.chunkIndex + 1}`,
+      )
+      request.onStatus?.(`All API keys are rate limited, retrying in ${waitSeconds}s...`)
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, cooldownEnd - Date.now())))
+      keyIndex = acquireApiKey(apiKeys)
+      if (keyIndex < 0) break
+    }
+
+    const apiKey = apiKeys[keyIndex]
+    triedKeys.add(apiKey)
+    onKeyUsed?.(keyIndex, request.chunkIndex)
+    console.log(`🔑 Using API key ${keyIndex + 1}/${apiKeys.length} for chunk ${request.chunkIndex + 1}`)
+
+    let result: Awaited<ReturnType<typeof transcribeAudioWithGemini>>
+    try {
+      result = await transcribeAudioWithGemini(
+        base64Audio,
+        request.audio.type || "audio/mpeg",
+        channels ? request.channels!.reduce((acc, channel) => acc + channel.audio.size, 0) : request.audio.size,
+        apiKey,
+        {
+          userName: request.userName,
+          liveTranscriptContext: request.liveTranscriptContext,
+          chunkIndex: request.chunkIndex,
+          previousTranscriptTail: request.previousTranscriptTail,
+          sourceActivity: request.sourceActivity?.length
+            ? formatSourceActivity(request.sourceActivity, request.userName)
+            : undefined,
+          channels,
+          leadInSeconds: request.leadInSeconds,
+          instructions: request.instructions,
+          modelOptions,
+        },
+      )
+    } catch (error) {
+      releaseApiKey(apiKey, { type: "failure", error: toTranscriptionError(error) })
+      throw error
+    }
+
+    const error = result.error || createTranscriptionError("unknown")
+    releaseApiKey(apiKey, result.success ? { type: "success" } : { type: "failure", error })
+    // Only key problems are worth another key; anything else would fail the same way
+    if (result.success || !isApiKeyError(error)) {
+      return { ...result, providerId: "gemini" }
+    }
+    console.log(
+      `🔁 Chunk ${request.chunkIndex + 1} failed on API key ${keyIndex + 1} (${error.code}), trying another key`,
+    )
+    lastFailure = { ...result, providerId: "gemini" }
+  }
+
+  // Every key has been tried: a rate limit now means there's no key left to fall back to
+  if (lastFailure?.error) return { ...lastFailure, error: { ...lastFailure.error, retryable: false } }
+  if (lastFailure) return lastFailure
+  const cooldownEnd = getNextCooldownEnd(apiKeys)
+  return {
+    success: false,
+    error:
+      cooldownEnd === undefined
+        ? createTranscriptionError("invalid-key", "All Gemini API keys were rejected. Check them in Settings.")
+        : {
+            ...createTranscriptionError(
+              "quota",
+              "All Gemini API keys are rate limited. Check their health in Settings.",
+              Math.ceil((cooldownEnd - Date.now()) / 1000),
+            ),
+            retryable: false,
+          },
+    providerId: "gemini",
+    model: modelOptions.model,
+  }
+}
+
+// Worth sending to a stronger model: the response was unreadable or cut off, nothing came back although speech was
+// detected, or far fewer words came back than the detected speech would need
+const isHardChunk = (result: TranscriptionResult, request: TranscriptionRequest) =>
+  result.success
+    ? isTranscriptTooSparse(result.transcript || "", request.speechSeconds)
+    : result.error?.code === "malformed-output" ||
+      (result.error?.code === "empty-output" && request.speechSeconds !== 0)
+
+// Gemini keys come from the key pool, which hands out the least busy healthy key. `onKeyUsed` lets the UI show which
+// key was used. Model, temperature and output tokens come from the model settings; with an escalation model set,
+// hard chunks are sent to it after the first model's attempt.
+export const createGeminiProvider = (
+  apiKeys: string[],
+  onKeyUsed?: (keyIndex: number, chunkIndex: number) => void,
+  getModelSettings: () => GeminiModelSettings = loadGeminiModelSettings,
+): TranscriptionProvider => ({
+  id: "gemini",
+  name: TRANSCRIPTION_PROVIDER_NAMES.gemini,
+  audioFormat: "mp3",
+  isConfigured: () => apiKeys.length > 0,
+  // One chunk in flight per healthy key, so parallel chunks don't share a key's rate limit
+  maxConcurrency: () => Math.max(1, countHealthyApiKeys(apiKeys)),
+  transcribe: async (request) => {
+    if (apiKeys.length === 0) {
+      return {
+        success: false,
+        error: createTranscriptionError("not-configured", "No Gemini API keys configured"),
+        providerId: "gemini",
+      }
+    }
+
+    // Gemini takes several audio parts at once, so stereo channels go in one request instead of the mix
+    const channels = request.channels?.length
+      ? await Promise.all(
+          request.channels.map(async (channel) => ({
+            label: SOURCE_LABELS[channel.source],
+            speaker: getSourceSpeaker(channel.source, request.userName),
+            base64Audio: Buffer.from(await channel.audio.arrayBuffer()).toString("base64"),
+            mimeType: channel.audio.type || "audio/mpeg",
+          })),
+        )
+      : undefined
+    const base64Audio = channels ? "" : Buffer.from(await request.audio.arrayBuffer()).toString("base64")
+
+    const settings = getModelSettings()
+    const result = await transcribeWithKeyPool(apiKeys, request, base64Audio, channels, settings, onKeyUsed)
+    if (!settings.escalationModel || !isHardChunk(result, request)) return result
+
+    console.log(
+      `⬆️ Chunk ${request.chunkIndex + 1} looks hard for ${settings.model}, sending it to ${settings.escalationModel}`,
+    )
+    request.onStatus?.(`Retrying with ${getGeminiModelLabel(settings.escalationModel)}...`)
+    const escalated = await transcribeWithKeyPool(
+      apiKeys,
+      request,
+      base64Audio,
+      channels,
+      { ...settings, model: settings.escalationModel },
+      onKeyUsed,
+    )
+    if (escalated.success) return escalated
+    // A sparse transcript from the first model still beats a failure from the second
+    if (result.success) return result
+    // Both models have had the chunk; sending it again would only repeat both calls
+    return escalated.error ? { ...escalated, error: { ...escalated.error, retryable: false } } : escalated
+  },
+})
+
+// Talks to any server implementing POST {baseUrl}/audio/transcriptions (OpenAI, faster-whisper-server,
+// whisper.cpp server, LocalAI, ...). Requests go straight from the browser so LAN servers are reachable.
+export const createOpenAICompatibleProvider = (
+  getSettings: () => OpenAICompatibleSettings = loadOpenAICompatibleSettings,
+): TranscriptionProvider => ({
+  id: "openai-compatible",
+  name: TRANSCRIPTION_PROVIDER_NAMES["openai-compatible"],
+  audioFormat: "mp3",
+  isConfigured: () => getSettings().baseUrl.trim().length > 0,
+  // Self-hosted servers usually run one model instance; a second request keeps it busy while the first uploads
+  maxConcurrency: () => OPENAI_COMPATIBLE_CONCURRENCY,
+  transcribe: withSeparateChannels(async (request) => {
+    const settings = getSettings()
+    const baseUrl = settings.baseUrl.trim().replace(/\/+$/, "")
+
+    const formData = new FormData()
+    formData.append("file", request.audio, getAudioFileName(request.audio, request.chunkIndex))
+    formData.append("model", settings.model)
+    formData.append("response_format", "verbose_json")
+    if (settings.language) {
+      formData.append("language", settings.language)
+    }
+    // Whisper uses the prompt as preceding text, which keeps spellings consistent across chunks; the user's
+    // instructions go first so names and terms in them are kept when the tail is cut
+    const prompt = [request.instructions?.trim(), request.previousTranscriptTail?.trim()].filter(Boolean).join("\n")
+    if (prompt) {
+      formData.append("prompt", prompt.slice(0, 800))
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : undefined,
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const body = await response.text()
+        const retryAfter = Number.parseFloat(response.headers.get("retry-after") || "")
+        return {
+          success: false,
+          error: createTranscriptionError(
+            getHttpErrorCode(response.status),
+            `Transcription server returned ${response.status}: ${body.slice(0, 200) || response.statusText}`,
+            Number.isFinite(retryAfter) ? Math.ceil(retryAfter) : undefined,
+          ),
+          providerId: "openai-compatible",
+          model: settings.model,
+        }
+      }
+
+      const data = await response.json()
+      const speaker = request.userName || "Speaker"
+
+      // verbose_json has timed segments; plain json only has text
+      const transcribed = Array.isArray(data.segments)
+        ? sanitizeUtterances(
+            data.segments.map((segment: { start: number; end: number; text: string }) => ({
+              speaker,
+              start: segment.start,
+              end: segment.end,
+              text: segment.text,
+              language: data.language,
+            })),
+          )
+        : sanitizeUtterances([
+            { speaker, start: 0, end: request.durationSeconds, text: data.text, language: data.language },
+          ])
+      const utterances = attributeBySource(transcribed, request)
+
+      if (utterances.length === 0) {
+        return {
+          success: false,
+          error: createTranscriptionError("empty-output"),
+          providerId: "openai-compatible",
+          model: settings.model,
+        }
+      }
+
+      return {
+        success: true,
+        transcript: formatUtterancesAsText(utterances),
+        utterances,
+        providerId: "openai-compatible",
+        model: settings.model,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: createTranscriptionError(
+          "network",
+          `Could not reach transcription server at ${baseUrl}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        ),
+        providerId: "openai-compatible",
+        model: settings.model,
+      }
+    }
+  }),
+})
+
+// Whisper's native window; AudioChunkProcessor hands the chunk to the model in pieces of this length
+const WHISPER_WINDOW_SECONDS = 30
+
+// Runs Whisper in a Web Worker on this device. No API key or network once the model is cached.
+export const createOfflineWhisperProvider = (
+  getSettings: () => OfflineWhisperSettings = loadOfflineWhisperSettings,
+): TranscriptionProvider => ({
+  id: "offline-whisper",
+  name: TRANSCRIPTION_PROVIDER_NAMES["offline-whisper"],
+  audioFormat: "original",
+  isConfigured: () => isOfflineWhisperSupported(),
+  // A single worker runs the model
+  maxConcurrency: () => 1,
+  transcribe: withSeparateChannels(async (request) => {
+    const settings = getSettings()
+    const model = OFFLINE_WHISPER_MODELS.find((entry) => entry.id === settings.model)
+    const processor = new AudioChunkProcessor(WHISPER_WINDOW_SECONDS)
+
+    const unsubscribe = subscribeToModelProgress((progress) => {
+      if (progress.model === settings.model) {
+        request.onStatus?.(`Downloading ${model?.label || settings.model} (${Math.round(progress.progress)}%)`)
+      }
+    })
+
+    try {
+      request.onStatus?.("Loading Whisper model...")
+      await loadWhisperModel(settings.model)
+
+      await processor.addBlob(request.audio)
+      const windows: Float32Array[] = []
+      let nextWindow = processor.getNextChunk()
+      while (nextWindow) {
+        windows.push(nextWindow)
+        nextWindow = processor.getNextChunk()
+      }
+      const remainder = processor.flush()
+      if (remainder) windows.push(remainder)
+
+      const speaker = request.userName || "Speaker"
+      const rawUtterances: Record<string, unknown>[] = []
+
+      for (let index = 0; index < windows.length; index++) {
+        request.onStatus?.(`Transcribing on device (${index + 1}/${windows.length})...`)
+        const windowStart = index * WHISPER_WINDOW_SECONDS
+        const windowDuration = windows[index].length / 16000
+        const result = await transcribeWithWhisper(windows[index], settings.model, settings.language || undefined)
+
+        if (result.chunks.length > 0) {
+          result.chunks.forEach((chunk) =>
+            rawUtterances.push({
+              speaker,
+              start: windowStart + chunk.start,
+              end: windowStart + (chunk.end ?? windowDuration),
+              text: chunk.text,
+              language: settings.language || undefined,
+            }),
+          )
+        } else {
+          rawUtterances.push({ speaker, start: windowStart, end: windowStart + windowDuration, text: result.text })
+        }
+      }
+
+      const utterances = attributeBySource(sanitizeUtterances(rawUtterances), request)
+      if (utterances.length === 0) {
+        return {
+          success: false,
+          error: createTranscriptionError("empty-output", "No speech detected in the audio file"),
+          providerId: "offline-whisper",
+          model: settings.model,
+        }
+      }
+
+      return {
+        success: true,
+        transcript: formatUtterancesAsText(utterances),
+        utterances,
+        providerId: "offline-whisper",
+        model: settings.model,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: createTranscriptionError(
+          "unknown",
+          `Offline transcription failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        ),
+        providerId: "offline-whisper",
+        model: settings.model,
+      }
+    } finally {
+      unsubscribe()
+      processor.cleanup()
+    }
+  }),
+})
+
+// Longest wait before retrying a chunk; a provider asking for more than this fails the chunk instead
+const MAX_RETRY_DELAY_SECONDS = 30
+const MAX_CHUNK_RETRIES = 2
+
+/**
+ * Transcribe a chunk, sending it again while the failure is retryable: after as long as the provider asked for
+ * (e.g. the retry-after of a rate limit), or 2 seconds. Anything else fails right away. Never throws; a thrown
+ * error comes back as a failed result.
+ */
+export const transcribeWithRetries = async (
+  provider: TranscriptionProvider,
+  request: TranscriptionRequest,
+): Promise<TranscriptionResult> => {
+  for (let retryCount = 0; ; retryCount++) {
+    let result: TranscriptionResult
+    try {
+      result = await provider.transcribe(request)
+      if (result.success && result.transcript) return result
+    } catch (error) {
+      result = { success: false, providerId: provider.id, error: toTranscriptionError(error) }
+    }
+
+    const failure = result.error || createTranscriptionError("unknown", `${provider.name} transcription failed`)
+    const delaySeconds = failure.retryAfterSeconds ?? 2
+    if (!failure.retryable || retryCount >= MAX_CHUNK_RETRIES || delaySeconds > MAX_RETRY_DELAY_SECONDS) {
+      return { ...result, success: false, error: failure }
+    }
+    console.log(
+      `Retry ${retryCount + 1}/${MAX_CHUNK_RETRIES} for chunk ${request.chunkIndex + 1} (${failure.code}) in ${delaySeconds}s`,
+    )
+    request.onStatus?.(`${TRANSCRIPTION_ERROR_LABELS[failure.code]}, retrying in ${delaySeconds}s...`)
+    await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000))
+  }
+}
+
+// `model` overrides the model from the provider's settings, e.g. to run one chunk again with another model
+export const createTranscriptionProvider = (
+  providerId: TranscriptionProviderId,
+  geminiApiKeys: string[],
+  onGeminiKeyUsed?: (keyIndex: number, chunkIndex: number) => void,
+  model?: string,
+): TranscriptionProvider =>
+  providerId === "openai-compatible"
+    ? createOpenAICompatibleProvider(
+        model ? () => ({ ...loadOpenAICompatibleSettings(), model }) : loadOpenAICompatibleSettings,
+      )
+    : providerId === "offline-whisper"
+      ? createOfflineWhisperProvider(
+          model ? () => ({ ...loadOfflineWhisperSettings(), model }) : loadOfflineWhisperSettings,
+        )
+      : createGeminiProvider(
+          geminiApiKeys,
+          onGeminiKeyUsed,
+          // A model picked for one chunk is used as is, without escalating
+          model ? () => ({ ...loadGeminiModelSettings(), model, escalationModel: "" }) : loadGeminiModelSettings,
+        )
+
+// A provider and model a chunk can be transcribed with
+export interface TranscriptionTarget {
+  providerId: TranscriptionProviderId
+  model?: string
+  label: string
+}
+
+// Every provider and model that is set up on this device, for running a chunk again with something else. The
+// active provider, with the model from its settings, comes first.
+export const listTranscriptionTargets = (
+  geminiApiKeys: string[],
+  activeProviderId: TranscriptionProviderId,
+): TranscriptionTarget[] => {
+  const targets: TranscriptionTarget[] = []
+  if (geminiApiKeys.length > 0) {
+    GEMINI_MODELS.forEach((model) =>
+      targets.push({
+        providerId: "gemini",
+        model: model.id,
+        label: `${TRANSCRIPTION_PROVIDER_NAMES.gemini} · ${model.label}`,
+      }),
+    )
+  }
+  const openAICompatible = loadOpenAICompatibleSettings()
+  if (openAICompatible.baseUrl.trim()) {
+    targets.push({
+      providerId: "openai-compatible",
+      model: openAICompatible.model,
+      label: `${TRANSCRIPTION_PROVIDER_NAMES["openai-compatible"]} · ${openAICompatible.model}`,
+    })
+  }
+  if (isOfflineWhisperSupported()) {
+    OFFLINE_WHISPER_MODELS.forEach((model) =>
+      targets.push({
+        providerId: "offline-whisper",
+        model: model.id,
+        label: `${TRANSCRIPTION_PROVIDER_NAMES["offline-whisper"]} · ${model.label}`,
+      }),
+    )
+  }
+
+  const activeModel =
+    activeProviderId === "offline-whisper"
+      ? loadOfflineWhisperSettings().model
+      : activeProviderId === "gemini"
+        ? loadGeminiModelSettings().model
+        : undefined
+  const active = targets.findIndex(
+    (target) => target.providerId === activeProviderId && (!activeModel || target.model === activeModel),
+  )
+  return active > 0 ? [targets[active], ...targets.filter((_, index) => index !== active)] : targets
+}
+
+export const getTranscriptionSource = (provider: TranscriptionProvider, model?: string): TranscriptionSource => ({
+  providerId: provider.id,
+  providerName: provider.name,
+  model,
+})
+
+// Short label for badges and export headers, e.g. "Google Gemini · gemini-2.5-flash"
+export const formatTranscriptionSource = (source: TranscriptionSource): string =>
+  source.model ? `${source.providerName} · ${source.model}` : source.providerName
@@ -0,0 +1,152 @@
+// Runs chunk transcriptions several at a time. Uploads finish in any order, but their results are committed in
+// chunk order: stitching a chunk needs the final transcript of the one before it, so a result waits until every
+// earlier chunk in the queue has settled.
+
+// "stopped" chunks never ran: an earlier failure meant they would only fail the same way
+export type ChunkJobState = "queued" | "running" | "done" | "failed" | "stopped"
+
+export interface TranscriptionQueueOptions<R> {
+  // How many jobs may run at once; read each time a job could start, so it can follow the healthy key count
+  concurrency: () => number
+  // The slow part (upload and transcription), run in parallel
+  run: (chunkIndex: number) => Promise<R>
+  // Called in chunk order with each job's result; throwing marks the chunk failed
+  commit: (chunkIndex: number, result: R) => void
+  // A failure every queued chunk would run into too (e.g. no usable API key); queued chunks are stopped instead
+  shouldStop?: (error: unknown) => boolean
+  onStateChange?: (chunkIndex: number, state: ChunkJobState, error?: unknown) => void
+  onIdle?: () => void // nothing queued or running any more
+}
+
+interface Job<R> {
+  chunkIndex: number
+  state: ChunkJobState
+  settled: boolean
+  result?: R
+  error?: unknown
+}
+
+export class TranscriptionQueue<R> {
+  private options: TranscriptionQueueOptions<R>
+  private jobs = new Map<number, Job<R>>()
+  // Jobs not yet committed, in chunk order
+  private pending: Job<R>[] = []
+  private running = 0
+  // Bumped by `clear`, so jobs still in flight from before are ignored when they finish
+  private generation = 0
+
+  constructor(options: TranscriptionQueueOptions<R>) {
+    this.options = options
+  }
+
+  get runningCount(): number {
+    return this.running
+  }
+
+  get queuedCount(): number {
+    return this.pending.filter((job) => job.state === "queued").length
+  }
+
+  get isIdle(): boolean {
+    return this.pending.length === 0
+  }
+
+  getState(chunkIndex: number): ChunkJobState | undefined {
+    return this.jobs.get(chunkIndex)?.state
+  }
+
+  // Queue chunks that aren't queued yet; a failed or stopped chunk is queued again, a done one isn't
+  enqueue(chunkIndices: number[]) {
+    this.add(
+      chunkIndices.filter((chunkIndex) => {
+        const state = this.jobs.get(chunkIndex)?.state
+        return state === undefined || state === "failed" || state === "stopped"
+      }),
+    )
+  }
+
+  // Queue chunks again even when they are done, to transcribe them anew; queued and running ones are left alone
+  requeue(chunkIndices: number[]) {
+    this.add(
+      chunkIndices.filter((chunkIndex) => {
+        const state = this.jobs.get(chunkIndex)?.state
+        return state !== "queued" && state !== "running"
+      }),
+    )
+  }
+
+  private add(chunkIndices: number[]) {
+    chunkIndices.forEach((chunkIndex) => {
+      const job: Job<R> = { chunkIndex, state: "queued", settled: false }
+      this.jobs.set(chunkIndex, job)
+      const position = this.pending.findIndex((pendingJob) => pendingJob.chunkIndex > chunkIndex)
+      this.pending.splice(position < 0 ? this.pending.length : position, 0, job)
+      this.options.onStateChange?.(chunkIndex, "queued")
+    })
+    this.pump()
+  }
+
+  // Forget every job; results of jobs still running are dropped
+  clear() {
+    this.generation++
+    this.jobs.clear()
+    this.pending = []
+    this.running = 0
+  }
+
+  private setState(job: Job<R>, state: ChunkJobState, error?: unknown) {
+    job.state = state
+    this.options.onStateChange?.(job.chunkIndex, state, error)
+  }
+
+  private pump() {
+    const limit = Math.max(1, this.options.concurrency())
+    // Earlier chunks start first, so results can be committed as soon as possible
+    for (const job of this.pending) {
+      if (this.running >= limit) break
+      if (job.state === "queued") this.start(job)
+    }
+  }
+
+  private async start(job: Job<R>) {
+    const generation = this.generation
+    this.running++
+    this.setState(job, "running")
+
+    try {
+      job.result = await this.options.run(job.chunkIndex)
+    } catch (error) {
+      job.error = error ?? new Error("Transcription failed")
+    }
+    if (generation !== this.generation) return
+
+    job.settled = true
+    this.running--
+    if (job.error !== undefined && this.options.shouldStop?.(job.error)) this.stopQueued()
+    this.commitSettled()
+    this.pump()
+    if (this.isIdle) this.options.onIdle?.()
+  }
+
+  private stopQueued() {
+    const stopped = this.pending.filter((job) => job.state === "queued")
+    this.pending = this.pending.filter((job) => job.state !== "queued")
+    stopped.forEach((job) => this.setState(job, "stopped"))
+  }
+
+  private commitSettled() {
+    while (this.pending[0]?.settled) {
+      const job = this.pending.shift()!
+      if (job.error !== undefined) {
+        this.setState(job, "failed", job.error)
+        continue
+      }
+      try {
+        this.options.commit(job.chunkIndex, job.result as R)
+        this.setState(job, "done")
+      } catch (error) {
+        this.setState(job, "failed", error)
+      }
+    }
+  }
+}
@@ -0,0 +1,238 @@
+// Voice activity detection on the PCM of each chunk. A chunk with no speech at all doesn't need to be
+// transcribed, and long pauses inside a chunk can be cut out of the audio that is uploaded. The stored chunk
+// always keeps its full audio for playback and export; a trimmed copy is kept next to it for transcription, and
+// utterance times from a trimmed upload are mapped back onto the chunk's own timeline.
+
+import type { SourceActivitySpan } from "@/lib/source-tracks"
+import type { TranscriptUtterance } from "@/lib/transcript-segments"
+
+// "skip" leaves silent chunks out; "trim" also shortens long pauses in the chunks that are uploaded
+export type SilenceHandling = "off" | "skip" | "trim"
+
+export interface VoiceActivitySettings {
+  mode: SilenceHandling
+  maxPauseSeconds: number // with "trim", longer pauses are shortened to this
+}
+
+export interface SpeechRegion {
+  start: number // seconds from the start of the chunk
+  end: number
+}
+
+// What the detector found in a chunk, stored with it
+export interface ChunkVoiceActivity {
+  speechSeconds: number
+  skipped: boolean // silent, and left out of transcription
+  trimmedSeconds: number // silence cut from the upload
+  keptRegions?: SpeechRegion[] // parts of the chunk in the trimmed upload, in order
+}
+
+export const MIN_PAUSE_SECONDS = 0.5
+export const MAX_PAUSE_SECONDS = 5
+
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings = {
+  mode: "skip",
+  maxPauseSeconds: 1,
+}
+
+const VOICE_ACTIVITY_STORAGE_KEY = "voice-activity-settings"
+
+const FRAME_SECONDS = 0.02
+// RMS level (0-1) above which a frame counts as speech, roughly -36 dBFS; scaled by the sensitivity setting
+const SPEECH_THRESHOLD = 0.015
+// Gaps shorter than this don't split speech, and bursts shorter than the minimum (clicks, bumps) don't count
+const SPEECH_MERGE_GAP = 0.3
+const MIN_SPEECH_SECONDS = 0.15
+// Trimming less than this isn't worth a second encode
+const MIN_TRIM_SECONDS = 2
+
+const normalizeVoiceActivitySettings = (settings: VoiceActivitySettings): VoiceActivitySettings => ({
+  mode: settings.mode === "off" || settings.mode === "trim" ? settings.mode : "skip",
+  maxPauseSeconds: Number.isFinite(Number(settings.maxPauseSeconds))
+    ? Math.min(MAX_PAUSE_SECONDS, Math.max(MIN_PAUSE_SECONDS, Math.round(Number(settings.maxPauseSeconds) * 2) / 2))
+    : DEFAULT_VOICE_ACTIVITY_SETTINGS.maxPauseSeconds,
+})
+
+export const loadVoiceActivitySettings = (): VoiceActivitySettings => {
+  try {
+    const saved = localStorage.getItem(VOICE_ACTIVITY_STORAGE_KEY)
+    if (saved) {
+      return normalizeVoiceActivitySettings({ ...DEFAULT_VOICE_ACTIVITY_SETTINGS, ...JSON.parse(saved) })
+    }
+  } catch (error) {
+    console.error("Failed to load voice activity settings:", error)
+  }
+  return DEFAULT_VOICE_ACTIVITY_SETTINGS
+}
+
+export const saveVoiceActivitySettings = (settings: VoiceActivitySettings): VoiceActivitySettings => {
+  const normalized = normalizeVoiceActivitySettings(settings)
+  localStorage.setItem(VOICE_ACTIVITY_STORAGE_KEY, JSON.stringify(normalized))
+  return normalized
+}
+
+// Regions of `channels` with speech in them. `thresholdScale` works as for the chunk boundaries
+export const detectSpeech = (channels: Float32Array[], sampleRate: number, thresholdScale = 1): SpeechRegion[] => {
+  const length = channels[0]?.length || 0
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate))
+  const threshold = SPEECH_THRESHOLD * thresholdScale
+  const regions: SpeechRegion[] = []
+
+  for (let frameStart = 0; frameStart < length; frameStart += frameLength) {
+    const frameEnd = Math.min(length, frameStart + frameLength)
+    let sum = 0
+    channels.forEach((channel) => {
+      for (let i = frameStart; i < frameEnd; i++) sum += channel[i] * channel[i]
+    })
+    if (Math.sqrt(sum / ((frameEnd - frameStart) * channels.length)) <= threshold) continue
+
+    const start = frameStart / sampleRate
+    const end = frameEnd / sampleRate
+    const last = regions[regions.length - 1]
+    if (last && start - last.end < SPEECH_MERGE_GAP) {
+      last.end = end
+    } else {
+      regions.push({ start, end })
+    }
+  }
+
+  return regions.filter((region) => region.end - region.start >= MIN_SPEECH_SECONDS)
+}
+
+// Speech with up to half of `maxPause` of silence kept on each side, so no pause comes out longer than `maxPause`
+const planKeptRegions = (speech: SpeechRegion[], duration: number, maxPause: number): SpeechRegion[] => {
+  const kept: SpeechRegion[] = []
+  speech.forEach((region) => {
+    const start = Math.max(0, region.start - maxPause / 2)
+    const end = Math.min(duration, region.end + maxPause / 2)
+    const last = kept[kept.length - 1]
+    if (last && start <= last.end) {
+      last.end = end
+    } else {
+      kept.push({ start, end })
+    }
+  })
+  return kept
+}
+
+const keepRegions = (channels: Float32Array[], sampleRate: number, kept: SpeechRegion[]): Float32Array[] =>
+  channels.map((channel) => {
+    const ranges = kept.map((region) => [Math.round(region.start * sampleRate), Math.round(region.end * sampleRate)])
+    const trimmed = new Float32Array(ranges.reduce((acc, [start, end]) => acc + (end - start), 0))
+    let offset = 0
+    ranges.forEach(([start, end]) => {
+      trimmed.set(channel.subarray(start, end), offset)
+      offset += end - start
+    })
+    return trimmed
+  })
+
+/**
+ * Run the detector on a chunk's audio. Returns what it found, and the audio to upload instead when long pauses
+ * were trimmed out of it.
+ */
+export const analyzeVoiceActivity = (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: VoiceActivitySettings,
+  thresholdScale = 1,
+): { activity: ChunkVoiceActivity; trimmed?: Float32Array[] } => {
+  const duration = (channels[0]?.length || 0) / sampleRate
+  const speech = detectSpeech(channels, sampleRate, thresholdScale)
+  const speechSeconds = Math.round(speech.reduce((acc, region) => acc + region.end - region.start, 0) * 100) / 100
+  const skipped = settings.mode !== "off" && speech.length === 0
+
+  if (settings.mode !== "trim" || skipped) {
+    return { activity: { speechSeconds, skipped, trimmedSeconds: 0 } }
+  }
+
+  const keptRegions = planKeptRegions(speech, duration, settings.maxPauseSeconds)
+  const keptSeconds = keptRegions.reduce((acc, region) => acc + region.end - region.start, 0)
+  const trimmedSeconds = Math.round((duration - keptSeconds) * 100) / 100
+  if (trimmedSeconds < MIN_TRIM_SECONDS) {
+    return { activity: { speechSeconds, skipped, trimmedSeconds: 0 } }
+  }
+
+  return {
+    activity: { speechSeconds, skipped, trimmedSeconds, keptRegions },
+    trimmed: keepRegions(channels, sampleRate, keptRegions),
+  }
+}
+
+// Chunk time of a moment in the trimmed upload
+const toChunkTime = (time: number, kept: SpeechRegion[]): number => {
+  let trimmedStart = 0
+  for (const region of kept) {
+    const length = region.end - region.start
+    if (time <= trimmedStart + length) return region.start + Math.max(0, time - trimmedStart)
+    trimmedStart += length
+  }
+  const last = kept[kept.length - 1]
+  return last ? last.end + (time - trimmedStart) : time
+}
+
+// Time in the trimmed upload of a moment in the chunk; cut-out moments land where the cut is
+const toTrimmedTime = (time: number, kept: SpeechRegion[]): number => {
+  let trimmedStart = 0
+  for (const region of kept) {
+    if (time < region.start) return trimmedStart
+    if (time <= region.end) return trimmedStart + time - region.start
+    trimmedStart += region.end - region.start
+  }
+  return trimmedStart
+}
+
+interface TrimmableChunk {
+  blob: Blob
+  duration: number
+  trimmed?: Blob
+  voiceActivity?: ChunkVoiceActivity
+  sourceActivity?: SourceActivitySpan[]
+}
+
+/**
+ * The chunk as it is uploaded: its trimmed audio when long pauses were cut from it, with duration and source
+ * activity on the trimmed timeline. Chunks that weren't trimmed come back unchanged.
+ */
+export const withTrimmedSilences = <T extends TrimmableChunk>(chunk: T): T => {
+  const kept = chunk.voiceActivity?.keptRegions
+  if (!chunk.trimmed || !kept) return chunk
+
+  return {
+    ...chunk,
+    blob: chunk.trimmed,
+    duration: chunk.duration - (chunk.voiceActivity?.trimmedSeconds || 0),
+    sourceActivity: chunk.sourceActivity
+      ?.map((span) => ({ ...span, start: toTrimmedTime(span.start, kept), end: toTrimmedTime(span.end, kept) }))
+      .filter((span) => span.end > span.start),
+  }
+}
+
+// Utterances transcribed from a trimmed upload, moved back onto the chunk's timeline
+export const restoreTrimmedTimes = (
+  utterances: TranscriptUtterance[],
+  voiceActivity?: ChunkVoiceActivity,
+): TranscriptUtterance[] => {
+  const kept = voiceActivity?.keptRegions
+  if (!kept) return utterances
+  return utterances.map((utterance) => ({
+    ...utterance,
+    start: toChunkTime(utterance.start, kept),
+    end: toChunkTime(utterance.end, kept),
+  }))
+}
+
+// Per-session savings: uploads not made and seconds of audio not sent
+export const summarizeVoiceActivity = (chunks: { duration: number; voiceActivity?: ChunkVoiceActivity }[]) =>
+  chunks.reduce(
+    (acc, chunk) => {
+      if (chunk.voiceActivity?.skipped) {
+        acc.skippedChunks++
+        acc.savedSeconds += chunk.duration
+      } else {
+        acc.savedSeconds += chunk.voiceActivity?.trimmedSeconds || 0
+      }
+      return acc
+    },
+    { skippedChunks: 0, savedSeconds: 0 },
+  )
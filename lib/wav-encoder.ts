@@ -0,0 +1,68 @@
+// Streaming WAV (16-bit PCM) writer. Runs in lib/audio-encoder-worker.ts.
+
+const BITS_PER_SAMPLE = 16
+export const WAV_HEADER_BYTES = 44
+
+export class WavEncoder {
+  private channelCount: number
+  private sampleRate: number
+  private dataBytes = 0
+  private started = false
+
+  constructor(channelCount: number, sampleRate: number) {
+    this.channelCount = channelCount
+    this.sampleRate = sampleRate
+  }
+
+  // The RIFF and data sizes are only known at the end, so the stream starts with a placeholder that `finish` replaces
+  private header(): Uint8Array {
+    const header = new Uint8Array(WAV_HEADER_BYTES)
+    const view = new DataView(header.buffer)
+    const blockAlign = (this.channelCount * BITS_PER_SAMPLE) / 8
+    const writeText = (offset: number, text: string) =>
+      text.split("").forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)))
+
+    writeText(0, "RIFF")
+    view.setUint32(4, Math.min(0xffffffff, 36 + this.dataBytes), true)
+    writeText(8, "WAVE")
+    writeText(12, "fmt ")
+    view.setUint32(16, 16, true)
+    view.setUint16(20, 1, true) // PCM
+    view.setUint16(22, this.channelCount, true)
+    view.setUint32(24, this.sampleRate, true)
+    view.setUint32(28, this.sampleRate * blockAlign, true)
+    view.setUint16(32, blockAlign, true)
+    view.setUint16(34, BITS_PER_SAMPLE, true)
+    writeText(36, "data")
+    view.setUint32(40, Math.min(0xffffffff, this.dataBytes), true)
+    return header
+  }
+
+  encode(channels: Int16Array[]): Uint8Array {
+    const length = channels[0]?.length || 0
+    const offset = this.started ? 0 : WAV_HEADER_BYTES
+    const data = new Uint8Array(offset + length * this.channelCount * 2)
+    if (!this.started) {
+      data.set(this.header())
+      this.started = true
+    }
+
+    // Samples are interleaved, little-endian
+    const view = new DataView(data.buffer)
+    for (let i = 0; i < length; i++) {
+      for (let channel = 0; channel < this.channelCount; channel++) {
+        view.setInt16(offset + (i * this.channelCount + channel) * 2, channels[channel][i], true)
+      }
+    }
+
+    this.dataBytes += data.length - offset
+    return data
+  }
+
+  // Nothing is buffered; only the real header is left
+  finish(): { data: Uint8Array; header: Uint8Array } {
+    const data = this.started ? new Uint8Array(0) : this.header()
+    this.started = true
+    return { data, header: this.header() }
+  }
+}
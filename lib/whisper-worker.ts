@@ -0,0 +1,113 @@
+// Web Worker running a Whisper model with transformers.js (ONNX Runtime, WASM on the CPU).
+// Loaded through lib/offline-whisper.ts; never import this file from the main thread.
+
+import {
+  env,
+  pipeline,
+  type AutomaticSpeechRecognitionPipeline,
+  type PretrainedModelOptions,
+} from "@huggingface/transformers"
+
+// Models always come from the Hugging Face hub and are kept in the browser's Cache Storage
+env.allowLocalModels = false
+env.useBrowserCache = true
+
+export type WhisperWorkerRequest =
+  | { type: "load"; model: string }
+  | { type: "transcribe"; id: number; model: string; audio: Float32Array; language?: string }
+
+export type WhisperWorkerResponse =
+  | { type: "progress"; model: string; file: string; loaded: number; total: number }
+  | { type: "ready"; model: string }
+  | {
+      type: "result"
+      id: number
+      text: string
+      chunks: { start: number; end: number | null; text: string }[]
+    }
+  | { type: "error"; id?: number; model?: string; message: string }
+
+// `pipeline` is typed for every task at once, which is too much for the compiler; pin it to speech recognition
+const createTranscriber = pipeline as unknown as (
+  task: "automatic-speech-recognition",
+  model: string,
+  options: PretrainedModelOptions,
+) => Promise<AutomaticSpeechRecognitionPipeline>
+
+let transcriber: AutomaticSpeechRecognitionPipeline | null = null
+let loadedModel: string | null = null
+let loadingPromise: Promise<AutomaticSpeechRecognitionPipeline> | null = null
+
+const post = (message: WhisperWorkerResponse) => self.postMessage(message)
+
+const loadModel = async (model: string): Promise<AutomaticSpeechRecognitionPipeline> => {
+  if (transcriber && loadedModel === model) return transcriber
+  if (loadingPromise && loadedModel === model) return loadingPromise
+
+  await transcriber?.dispose()
+  transcriber = null
+  loadedModel = model
+
+  loadingPromise = createTranscriber("automatic-speech-recognition", model, {
+    device: "wasm",
+    dtype: "q8",
+    progress_callback: (info) => {
+      if (info.status === "progress") {
+        post({ type: "progress", model, file: info.file, loaded: info.loaded, total: info.total })
+      }
+    },
+  })
+    .then((loaded) => {
+      transcriber = loaded
+      post({ type: "ready", model })
+      return loaded
+    })
+    .catch((error) => {
+      loadedModel = null
+      throw error
+    })
+    .finally(() => {
+      loadingPromise = null
+    })
+
+  return loadingPromise
+}
+
+self.addEventListener("message", async (event: MessageEvent<WhisperWorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === "load") {
+    try {
+      await loadModel(request.model)
+    } catch (error) {
+      post({ type: "error", model: request.model, message: error instanceof Error ? error.message : String(error) })
+    }
+    return
+  }
+
+  try {
+    const model = await loadModel(request.model)
+    // English-only models (*.en) reject the language/task options
+    const multilingual = !request.model.endsWith(".en")
+    const output = await model(request.audio, {
+      return_timestamps: true,
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      ...(multilingual ? { task: "transcribe", ...(request.language ? { language: request.language } : {}) } : {}),
+    })
+    const result = Array.isArray(output) ? output[0] : output
+
+    post({
+      type: "result",
+      id: request.id,
+      text: result.text,
+      chunks: (result.chunks || []).map((chunk) => ({
+        start: chunk.timestamp[0],
+        end: chunk.timestamp[1],
+        text: chunk.text,
+      })),
+    })
+  } catch (error) {
+    post({ type: "error", id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+})
@@ -0,0 +1,62 @@
+// AudioWorklet processor that copies its input to the main thread. Loaded by lib/pcm-tap.ts.
+// Audio is posted in batches tagged with the context frame of their first sample, so taps on different
+// nodes of the same context can be cut at exactly the same position.
+
+// Frames per message; a multiple of the 128-frame render quantum (~43ms at 48kHz)
+const BATCH_FRAMES = 2048
+
+class PcmTapProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    this.channelCount = (options.processorOptions && options.processorOptions.channelCount) || 1
+    this.stopped = false
+    this.allocate()
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === "flush" || event.data.type === "stop") {
+        this.flush()
+        this.stopped = event.data.type === "stop"
+        this.port.postMessage({ type: "flushed", id: event.data.id })
+      }
+    }
+  }
+
+  allocate() {
+    this.buffers = []
+    for (let channel = 0; channel < this.channelCount; channel++) {
+      this.buffers.push(new Float32Array(BATCH_FRAMES))
+    }
+    this.filled = 0
+    this.batchStartFrame = 0
+  }
+
+  flush() {
+    if (this.filled === 0) return
+
+    const channels = this.buffers.map((buffer) => buffer.slice(0, this.filled))
+    this.port.postMessage(
+      { type: "pcm", frame: this.batchStartFrame, channels },
+      channels.map((channel) => channel.buffer),
+    )
+    this.allocate()
+  }
+
+  process(inputs) {
+    if (this.stopped) return false
+
+    const input = inputs[0]
+    // A disconnected input has no channels; the buffers are zero-filled, so that stays silence
+    const frames = input.length > 0 ? input[0].length : 128
+
+    if (this.filled === 0) this.batchStartFrame = currentFrame
+    for (let channel = 0; channel < this.channelCount && input.length > 0; channel++) {
+      this.buffers[channel].set(input[Math.min(channel, input.length - 1)], this.filled)
+    }
+    this.filled += frames
+
+    if (this.filled + frames > BATCH_FRAMES) this.flush()
+    return true
+  }
+}
+
+registerProcessor("pcm-tap", PcmTapProcessor)
@@ -53,6 +53,11 @@ export class AudioChunkProcessor {
     this.chunks.push(processedData)
   }
 
+  // Decode a recorded chunk (WebM, MP3, ...) and queue it
+  async addBlob(blob: Blob) {
+    this.addAudioData(await blobToAudioBuffer(blob, this.audioContext))
+  }
+
   getNextChunk(): Float32Array | null {
     if (this.chunks.length === 0) return null
 
@@ -95,6 +100,22 @@ export class AudioChunkProcessor {
     return result
   }
 
+  // Everything still queued, even if shorter than a full chunk
+  flush(): Float32Array | null {
+    const totalSamples = this.chunks.reduce((acc, chunk) => acc + chunk.length, 0)
+    if (totalSamples === 0) return null
+
+    const result = new Float32Array(totalSamples)
+    let offset = 0
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset)
+      offset += chunk.length
+    }
+
+    this.chunks = []
+    return result
+  }
+
   clear() {
     this.chunks = []
   }